@@ -38,11 +38,52 @@ import {
   FileText,
   ShieldAlert,
   FileJson,
-  Link2
+  Link2,
+  Settings,
+  Pause,
+  Square,
+  Disc,
+  Cloud,
+  Workflow
 } from 'lucide-react';
-import { MigrationStatus, MigrationState, CodeChunk, TestResult } from './types';
+import { MigrationStatus, MigrationState, CodeChunk, ChunkStage, StageState, RiskLevel, ProviderSettings, LogContext, LogEntry, LogType, MigrationProject, ProjectSummary, BusinessRule } from './types';
 import * as gemini from './services/geminiService';
+import { DEFAULT_PROVIDER_SETTINGS } from './services/providers';
+import { getCassetteMode, subscribeCassette } from './services/cassette';
+import { getAuditOperator, loadAuditTrail, setAuditProject, verifyAuditChain } from './services/auditLog';
+import { buildEvidencePack } from './services/evidencePack';
+import { MAX_LOG_ENTRIES, errorDetails } from './services/systemLog';
+import { createProjectId, deleteProject, listProjects, loadProject, saveProject } from './services/projectStore';
+import { exportBundle, importBundle } from './services/projectBundle';
+import { splitCodeIntoChunks } from './services/cobolSplitter';
+import { isJclSource, jobStepsForChunk, parseJclMembers } from './services/jclParser';
+import { buildCicsInventory } from './services/cicsInventory';
+import { buildSqlInventory } from './services/sqlInventory';
+import { buildOpenApiSpec, openApiFileName } from './services/openApiContract';
+import { buildCopyResolver, compareLayout, parseDataLayout } from './services/copybookParser';
+import { buildDependencyGraph } from './services/dependencyGraph';
+import { pickReadyChunks } from './services/scheduler';
+import { analyzeComplexity, riskLevel, riskScore } from './services/complexityAnalyzer';
+import { analyzeDeadCode } from './services/deadCodeAnalyzer';
+import { CHUNK_STAGES, STAGE_LABELS, isRecovered, markDownstreamStale, recoveredLines, remainingStages, runChunkStage, stageState, withStageState } from './services/chunkPipeline';
+import { buildMarkdownReport, reportFileName } from './services/reports';
+import { buildTargetPackage } from './services/packageExport';
+import { TARGETS, chunkLanguage, sourceFileName, targetType } from './services/targets';
+import { CLOUD_PROVIDERS } from './services/cloudCatalog';
+import { createZip } from './services/zipArchive';
 import Logo from './Logo';
+import DependencyGraphView from './components/DependencyGraphView';
+import ModelSettingsPanel from './components/ModelSettingsPanel';
+import ProjectSwitcher from './components/ProjectSwitcher';
+import TraceabilityView from './components/TraceabilityView';
+import RecordDecoderPanel from './components/RecordDecoderPanel';
+import SqlInventoryPanel from './components/SqlInventoryPanel';
+import GoldenDatasetPanel from './components/GoldenDatasetPanel';
+import JclJobsPanel from './components/JclJobsPanel';
+import BusinessRulesMatrix from './components/BusinessRulesMatrix';
+import BusinessRuleCatalog from './components/BusinessRuleCatalog';
+import AuditTrailPanel from './components/AuditTrailPanel';
+import SystemStreamPanel from './components/SystemStreamPanel';
 
 const ProgressiveCodeBlock: React.FC<{ 
   code?: string; 
@@ -101,42 +142,298 @@ const ProgressiveCodeBlock: React.FC<{
   );
 };
 
+const INITIAL_MIGRATION_STATE: MigrationState = {
+  totalLines: 0,
+  processedLines: 0,
+  chunks: [],
+  currentChunkIndex: -1,
+  status: MigrationStatus.IDLE,
+};
+
+const STAGE_STYLES: Record<StageState, string> = {
+  PENDING: 'bg-slate-700',
+  RUNNING: 'bg-blue-500 animate-pulse',
+  DONE: 'bg-emerald-500',
+  ERROR: 'bg-rose-500',
+  SKIPPED: 'bg-slate-800',
+  STALE: 'bg-amber-500'
+};
+
+const RISK_LEVELS: RiskLevel[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+const RISK_STYLES: Record<RiskLevel, string> = {
+  LOW: 'text-emerald-400 border-emerald-500/30 bg-emerald-500/10',
+  MEDIUM: 'text-sky-400 border-sky-500/30 bg-sky-500/10',
+  HIGH: 'text-amber-400 border-amber-500/30 bg-amber-500/10',
+  CRITICAL: 'text-rose-400 border-rose-500/30 bg-rose-500/10'
+};
+
 const App: React.FC = () => {
-  const [migrationState, setMigrationState] = useState<MigrationState>({
-    totalLines: 0,
-    processedLines: 0,
-    chunks: [],
-    currentChunkIndex: -1,
-    status: MigrationStatus.IDLE,
-  });
+  const [migrationState, setMigrationState] = useState<MigrationState>(INITIAL_MIGRATION_STATE);
 
   const [inputCode, setInputCode] = useState<string>('');
   const [selectedChunkId, setSelectedChunkId] = useState<string | null>(null);
-  const [viewMode, setViewMode] = useState<'functional' | 'technical' | 'validation'>('functional');
-  const [logs, setLogs] = useState<{msg: string, type: 'info' | 'success' | 'error' | 'thinking'}[]>([]);
+  const [queueSort, setQueueSort] = useState<'queue' | 'risk'>('queue');
+  const [riskFilter, setRiskFilter] = useState<RiskLevel | 'ALL'>('ALL');
+  const [viewMode, setViewMode] = useState<'functional' | 'technical' | 'validation' | 'data'>('functional');
+  const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isRunningTests, setIsRunningTests] = useState(false);
   const [isThinking, setIsThinking] = useState(false);
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showAudit, setShowAudit] = useState(false);
+  const [cassetteMode, setCassetteModeState] = useState(getCassetteMode());
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState('Untitled Migration');
+  const [projectCreatedAt, setProjectCreatedAt] = useState(() => new Date().toISOString());
+  const [resumePending, setResumePending] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const logEndRef = useRef<HTMLDivElement>(null);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const inFlightChunks = useRef(new Set<string>());
+  const runController = useRef<AbortController | null>(null);
+  const manualController = useRef<AbortController | null>(null);
+  const [activeChunkIds, setActiveChunkIds] = useState<string[]>([]);
   
-  const addLog = useCallback((msg: string, type: 'info' | 'success' | 'error' | 'thinking' = 'info') => {
-    setLogs(prev => [...prev.slice(-400), { msg, type }]);
+  const addLog = useCallback((msg: string, type: LogType = 'info', context: LogContext = {}) => {
+    setLogs(prev => [...prev.slice(1 - MAX_LOG_ENTRIES), { msg, type, timestamp: new Date().toISOString(), ...context }]);
   }, []);
 
   useEffect(() => {
-    if (logEndRef.current) {
-      logEndRef.current.scrollIntoView({ behavior: 'auto' });
-    }
-  }, [logs]);
+    gemini.configureModelRouting(providerSettings);
+  }, [providerSettings]);
+
+  useEffect(() => subscribeCassette(() => setCassetteModeState(getCassetteMode())), []);
+
+  useEffect(() => {
+    setAuditProject(projectId);
+  }, [projectId]);
 
   useEffect(() => {
     addLog("Logic Lift AI Kernel initialized.", "success");
     addLog("System Stream: CONNECTED.", "info");
-    addLog("Reasoning Engine: STANDBY (Gemini 3 Pro).", "info");
+    addLog(`Reasoning Engine: STANDBY (${DEFAULT_PROVIDER_SETTINGS.stages.transform.model}).`, "info");
   }, [addLog]);
 
+  const currentProject = useRef<MigrationProject | null>(null);
+  currentProject.current = projectId ? {
+    id: projectId,
+    name: projectName,
+    createdAt: projectCreatedAt,
+    updatedAt: new Date().toISOString(),
+    migrationState,
+    inputCode,
+    logs,
+    settings: { ...providerSettings, openAIApiKey: undefined }
+  } : null;
+
+  // Logging changes the project, which schedules another checkpoint, so a failure is
+  // reported once until a checkpoint succeeds again.
+  const checkpointFailing = useRef(false);
+  const persistProject = useCallback(async () => {
+    const project = currentProject.current;
+    if (!project) return;
+    try {
+      await saveProject(project);
+      checkpointFailing.current = false;
+      setProjects(await listProjects());
+    } catch (error) {
+      if (checkpointFailing.current) return;
+      checkpointFailing.current = true;
+      addLog(`Project checkpoint failed: ${error}`, 'error', { error: errorDetails(error) });
+    }
+  }, [addLog]);
+
+  const applyProject = useCallback((project: MigrationProject) => {
+    let state = project.migrationState;
+    let interrupted = false;
+    // Stages cut off mid-flight by a reload never finished; let them run again.
+    state = {
+      ...state,
+      chunks: state.chunks.map(c => CHUNK_STAGES.reduce(
+        (chunk, stage) => chunk.stages?.[stage]?.state === 'RUNNING' ? withStageState(chunk, stage, 'PENDING') : chunk,
+        c
+      ))
+    };
+    if (state.status === MigrationStatus.ANALYZING) {
+      state = { ...INITIAL_MIGRATION_STATE };
+    } else if (state.status === MigrationStatus.PROCESSING) {
+      const resumeIndex = state.chunks.findIndex(c => c.status === 'PENDING');
+      if (resumeIndex === -1) {
+        state = { ...state, status: MigrationStatus.COMPLETED };
+      } else {
+        state = { ...state, currentChunkIndex: resumeIndex };
+        interrupted = true;
+      }
+    }
+    setMigrationState(state);
+    setInputCode(project.inputCode);
+    setLogs(project.logs);
+    setProviderSettings(prev => ({ ...DEFAULT_PROVIDER_SETTINGS, ...project.settings, openAIApiKey: prev.openAIApiKey }));
+    setProjectId(project.id);
+    setProjectName(project.name);
+    setProjectCreatedAt(project.createdAt);
+    setSelectedChunkId(null);
+    setResumePending(interrupted);
+    addLog(`Project "${project.name}" restored.`, 'success');
+    if (interrupted) {
+      addLog(`Interrupted run detected. Resume available from ${state.chunks[state.currentChunkIndex].name}.`, 'info', { chunkId: state.chunks[state.currentChunkIndex].id });
+    }
+  }, [addLog]);
+
+  const startNewProject = useCallback(async () => {
+    await persistProject();
+    const id = createProjectId();
+    const createdAt = new Date().toISOString();
+    setMigrationState(INITIAL_MIGRATION_STATE);
+    setInputCode('');
+    setLogs([]);
+    setSelectedChunkId(null);
+    setResumePending(false);
+    setProjectId(id);
+    setProjectName(`Migration ${new Date(createdAt).toLocaleDateString()}`);
+    setProjectCreatedAt(createdAt);
+    addLog("New migration workspace created.", 'info');
+  }, [persistProject, addLog]);
+
+  const switchProject = useCallback(async (id: string) => {
+    if (id === projectId) return;
+    await persistProject();
+    try {
+      const project = await loadProject(id);
+      if (project) applyProject(project);
+    } catch (error) {
+      addLog(`Failed to open project: ${error}`, 'error', { error: errorDetails(error) });
+    }
+  }, [projectId, persistProject, applyProject, addLog]);
+
+  const removeProject = useCallback(async (id: string) => {
+    if (!window.confirm(`Delete project "${projectName}"? This cannot be undone. Its audit trail is kept.`)) return;
+    try {
+      await deleteProject(id);
+      const remaining = await listProjects();
+      setProjects(remaining);
+      const next = remaining[0] && await loadProject(remaining[0].id);
+      if (next) {
+        applyProject(next);
+      } else {
+        currentProject.current = null;
+        await startNewProject();
+      }
+    } catch (error) {
+      addLog(`Failed to delete project: ${error}`, 'error', { error: errorDetails(error) });
+    }
+  }, [projectName, applyProject, startNewProject, addLog]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const existing = await listProjects();
+        setProjects(existing);
+        const latest = existing[0] && await loadProject(existing[0].id);
+        if (latest) {
+          applyProject(latest);
+        } else {
+          setProjectId(createProjectId());
+        }
+      } catch (error) {
+        addLog(`Project persistence unavailable: ${error}`, 'error', { error: errorDetails(error) });
+      }
+    })();
+  }, [applyProject, addLog]);
+
+  useEffect(() => {
+    if (!projectId) return;
+    const timer = setTimeout(persistProject, 800);
+    return () => clearTimeout(timer);
+  }, [projectId, projectName, migrationState, inputCode, logs, providerSettings, persistProject]);
+
+  const doneCount = migrationState.chunks.filter(c => c.status === 'DONE').length;
+  useEffect(() => {
+    if (doneCount > 0) persistProject();
+  }, [doneCount, persistProject]);
+
+  const downloadBundle = async () => {
+    const project = currentProject.current;
+    if (!project) return;
+    const bundle = await exportBundle(project);
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${project.name.replace(/[^a-z0-9]+/gi, '_').replace(/^_+|_+$/g, '') || 'project'}.llproj.json`;
+    a.click();
+    addLog(`Exported project bundle ${a.download} (schema v${bundle.version})`, 'info');
+  };
+
+  const downloadEvidencePack = async () => {
+    const project = currentProject.current;
+    if (!project) return;
+    try {
+      const entries = await loadAuditTrail(project.id);
+      const verification = await verifyAuditChain(entries);
+      const { files, manifestHash } = await buildEvidencePack(project, entries, verification, getAuditOperator() || 'unidentified');
+      const blob = new Blob([createZip(files)], { type: 'application/zip' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${project.name.replace(/[^a-z0-9]+/gi, '_').replace(/^_+|_+$/g, '') || 'project'}_evidence.zip`;
+      a.click();
+      addLog(`Exported evidence pack ${a.download}: ${entries.length} audited model calls, manifest SHA-256 ${manifestHash}.`, 'info');
+      if (!verification.valid) addLog(`Audit chain is broken at entry ${verification.brokenAt} (${verification.reason}); the evidence pack records this.`, 'error');
+    } catch (error) {
+      addLog(`Evidence pack export failed: ${error instanceof Error ? error.message : error}`, 'error', { error: errorDetails(error) });
+    }
+  };
+
+  const handleBundleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    addLog(`Importing project bundle ${file.name}...`, 'thinking');
+    try {
+      const project = await importBundle(await file.text());
+      await persistProject();
+      await saveProject(project);
+      setProjects(await listProjects());
+      applyProject(project);
+    } catch (error) {
+      addLog(`Bundle import rejected: ${error instanceof Error ? error.message : error}`, 'error', { error: errorDetails(error) });
+    }
+  };
+
+  const resumeMigration = () => {
+    setResumePending(false);
+    setMigrationState(prev => ({ ...prev, status: MigrationStatus.PROCESSING }));
+    addLog(`Resuming migration at ${migrationState.chunks[migrationState.currentChunkIndex]?.name}...`, 'thinking', { chunkId: migrationState.chunks[migrationState.currentChunkIndex]?.id });
+  };
+
+  // Aborting the run's controller cancels in-flight model calls, rate-limit waits and
+  // retry back-offs; interrupted stages go back to PENDING and rerun on resume.
+  const pauseMigration = () => {
+    runController.current?.abort();
+    runController.current = null;
+    manualController.current?.abort();
+    setMigrationState(prev => ({ ...prev, status: MigrationStatus.PAUSED }));
+    addLog(`Migration paused with ${inFlightChunks.current.size} modules in flight; their current stage will rerun on resume.`, 'info');
+  };
+
+  const cancelMigration = () => {
+    runController.current?.abort();
+    runController.current = null;
+    manualController.current?.abort();
+    setResumePending(false);
+    if (migrationState.status === MigrationStatus.ANALYZING) {
+      setMigrationState(INITIAL_MIGRATION_STATE);
+      addLog("System audit cancelled.", 'info');
+      return;
+    }
+    setMigrationState(prev => ({ ...prev, status: MigrationStatus.CANCELLED }));
+    addLog(`Migration cancelled. ${doneCount} of ${migrationState.chunks.length} modules were recovered before the stop.`, 'info');
+  };
+
   const copyToClipboard = useCallback((text: string, id: string) => {
     if (!text) return;
     navigator.clipboard.writeText(text).then(() => {
@@ -155,34 +452,137 @@ const App: React.FC = () => {
     }, 1000);
   };
 
+  const updateChunk = useCallback((id: string, update: (chunk: CodeChunk) => CodeChunk) => {
+    setMigrationState(prev => ({ ...prev, chunks: prev.chunks.map(c => c.id === id ? update(c) : c) }));
+  }, []);
+
+  // Runs stages in order against the freshest copy of the chunk, recording each outcome.
+  // The first failure stops the run and leaves the chunk in ERROR with the failing stage.
+  const runStages = useCallback(async (chunk: CodeChunk, stages: ChunkStage[], signal?: AbortSignal): Promise<CodeChunk> => {
+    let current: CodeChunk = { ...chunk, failedStage: undefined, error: undefined };
+    for (const stage of stages) {
+      current = withStageState(current, stage, 'RUNNING');
+      const running = current;
+      updateChunk(chunk.id, () => running);
+      try {
+        const patch = await runChunkStage(current, stage, signal);
+        current = withStageState({ ...current, ...patch }, stage, 'DONE');
+      } catch (error) {
+        if (signal?.aborted) {
+          current = withStageState(current, stage, 'PENDING');
+          break;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        current = { ...withStageState(current, stage, 'ERROR', message), status: 'ERROR', failedStage: stage, error: message };
+        addLog(`Fault in ${chunk.name} during ${STAGE_LABELS[stage].toLowerCase()}: ${message}`, 'error', { chunkId: chunk.id, stage, error: errorDetails(error) });
+        break;
+      }
+    }
+    if (!current.failedStage && isRecovered(current)) current = { ...current, status: 'DONE' };
+    const finished = current;
+    setMigrationState(prev => {
+      const chunks = prev.chunks.map(c => c.id === chunk.id ? finished : c);
+      return { ...prev, chunks, processedLines: recoveredLines(chunks) };
+    });
+    return finished;
+  }, [updateChunk, addLog]);
+
+  // Retries, regenerations and parity cycles started by hand share one controller,
+  // so Pause and Cancel stop them the same way they stop the worker pool.
+  const startManualRun = () => {
+    manualController.current?.abort();
+    manualController.current = new AbortController();
+    return manualController.current;
+  };
+
+  const finishManualRun = (controller: AbortController) => {
+    if (manualController.current === controller) manualController.current = null;
+  };
+
   const runParityCycle = async (chunk: CodeChunk) => {
-    if (!chunk.pythonSource || !chunk.unitTest || isRunningTests) return;
+    if (!chunk.targetSource || !chunk.unitTest || isRunningTests) return;
     setIsRunningTests(true);
-    addLog(`Executing parity validation for ${chunk.name}...`, 'thinking');
+    const controller = startManualRun();
+    const validationLog: LogContext = { chunkId: chunk.id, stage: 'validation' };
+    addLog(`Executing parity validation for ${chunk.name}...`, 'thinking', validationLog);
     try {
-      const results = await gemini.executeValidation(chunk.pythonSource, chunk.unitTest);
-      setMigrationState(prev => ({
-        ...prev,
-        chunks: prev.chunks.map(c => c.id === chunk.id ? { ...c, testResults: results } : c)
-      }));
+      const result = await runStages(chunk, ['validation'], controller.signal);
+      if (controller.signal.aborted) {
+        addLog(`Parity validation for ${chunk.name} stopped.`, 'info', validationLog);
+        return;
+      }
+      if (result.failedStage) return;
+      const results = result.testResults || [];
       const failures = results.filter(r => r.status === 'FAILED').length;
+      const origin = results.some(r => r.origin === 'EXECUTED') ? 'executed in local sandbox' : 'simulated';
       if (failures === 0) {
-        addLog(`Parity check PASSED for ${chunk.name}.`, 'success');
+        addLog(`Parity check PASSED for ${chunk.name} (${origin}).`, 'success', validationLog);
       } else {
-        addLog(`${failures} parity deviations detected in ${chunk.name}.`, 'error');
+        addLog(`${failures} parity deviations detected in ${chunk.name} (${origin}).`, 'error', validationLog);
       }
-    } catch (error) {
-      addLog(`Validation Fault: ${error}`, 'error');
+      result.goldenResults?.forEach(report => {
+        if (report.status === 'MATCH') {
+          addLog(`Golden dataset "${report.datasetName}" matches the mainframe output (${report.matchedRecords} records).`, 'success', validationLog);
+        } else if (report.status === 'MISMATCH') {
+          addLog(`Golden dataset "${report.datasetName}": only ${report.matchedRecords} of ${report.expectedRecords} mainframe records match (${report.actualRecords} produced) in ${chunk.name}.`, 'error', validationLog);
+        } else {
+          addLog(`Golden dataset "${report.datasetName}" could not run: ${report.error}`, 'error', validationLog);
+        }
+      });
     } finally {
+      finishManualRun(controller);
       setIsRunningTests(false);
     }
   };
 
+  const retryChunk = async (chunk: CodeChunk) => {
+    const stages = remainingStages(chunk);
+    if (stages.includes('validation')) return runParityCycle(chunk);
+    setIsThinking(true);
+    const controller = startManualRun();
+    addLog(`Retrying ${chunk.name}${stages.length ? ` from ${STAGE_LABELS[stages[0]].toLowerCase()}` : ''}...`, 'thinking', { chunkId: chunk.id, stage: stages[0] });
+    try {
+      const result = await runStages({ ...chunk, status: 'PENDING' }, stages, controller.signal);
+      if (controller.signal.aborted) addLog(`Retry of ${chunk.name} stopped.`, 'info', { chunkId: chunk.id });
+      else if (result.status === 'DONE') addLog(`${chunk.name} recovered and verified.`, 'success', { chunkId: chunk.id });
+    } finally {
+      finishManualRun(controller);
+      setIsThinking(false);
+    }
+  };
+
+  const regenerateStage = async (chunk: CodeChunk, stage: ChunkStage) => {
+    const stale = markDownstreamStale(chunk, stage);
+    if (stage === 'validation') return runParityCycle(stale);
+    setIsThinking(true);
+    const controller = startManualRun();
+    addLog(`Regenerating ${STAGE_LABELS[stage].toLowerCase()} for ${chunk.name}...`, 'thinking', { chunkId: chunk.id, stage });
+    try {
+      const result = await runStages(stale, [stage], controller.signal);
+      if (controller.signal.aborted) addLog(`Regenerating ${STAGE_LABELS[stage].toLowerCase()} for ${chunk.name} stopped.`, 'info', { chunkId: chunk.id, stage });
+      else if (!result.failedStage) addLog(`${STAGE_LABELS[stage]} regenerated for ${chunk.name}; later stages marked stale.`, 'success', { chunkId: chunk.id, stage });
+    } finally {
+      finishManualRun(controller);
+      setIsThinking(false);
+    }
+  };
+
+  const skipChunk = (chunk: CodeChunk) => {
+    setMigrationState(prev => {
+      const chunks = prev.chunks.map(c => c.id !== chunk.id ? c : CHUNK_STAGES.reduce(
+        (skipped, stage) => stageState(skipped, stage) === 'DONE' ? skipped : withStageState(skipped, stage, 'SKIPPED'),
+        { ...c, status: 'SKIPPED' as const, failedStage: undefined, error: undefined }
+      ));
+      return { ...prev, chunks };
+    });
+    addLog(`${chunk.name} skipped; it will be left out of the recovered system.`, 'info', { chunkId: chunk.id });
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (!files || files.length === 0) return;
     
-    const fileList = Array.from(files);
+    const fileList: File[] = Array.from(files);
     addLog(`Ingesting ${fileList.length} artifacts...`, 'thinking');
     
     fileList.forEach((file) => {
@@ -191,7 +591,7 @@ const App: React.FC = () => {
         const content = e.target?.result as string;
         if (content) {
           setInputCode(prev => prev ? prev + '\n\n' + `*> SOURCE_FILE: ${file.name}\n` + content : `*> SOURCE_FILE: ${file.name}\n` + content);
-          addLog(`Ingested ${file.name} [${content.length} chars]`, 'success');
+          addLog(`Ingested ${file.name}${isJclSource(content) ? ' as JCL' : ''} [${content.length} chars]`, 'success');
         }
       };
       reader.readAsText(file);
@@ -200,151 +600,216 @@ const App: React.FC = () => {
 
   const handleStartMigration = async () => {
     if (!inputCode.trim()) return;
+    const controller = new AbortController();
+    runController.current = controller;
     setMigrationState(prev => ({
       ...prev,
       status: MigrationStatus.ANALYZING,
       totalLines: inputCode.split('\n').length,
+      processedLines: 0,
       chunks: []
     }));
     setIsThinking(true);
-    addLog("Starting Global System Reasoning cycle...", 'thinking');
+    const analysisLog: LogContext = { stage: 'analysis' };
+    addLog("Starting Global System Reasoning cycle...", 'thinking', analysisLog);
 
     try {
-      const analysis = await gemini.analyzeLegacyCodebase(inputCode);
-      addLog("System topology mapped.", 'success');
+      const analysis = await gemini.analyzeLegacyCodebase(inputCode, controller.signal);
+      if (controller.signal.aborted) return;
+      addLog("System topology mapped.", 'success', analysisLog);
       
-      addLog("Running deconstruction logic with 1:1 file parity...", 'info');
-      const { chunks: rawChunks } = await gemini.splitCodeIntoChunks(inputCode);
-      addLog(`Identified ${rawChunks.length} distinct programs.`, 'success');
-
-      const chunks: CodeChunk[] = rawChunks.map((c, idx) => ({
-        id: `chunk-${idx}`,
-        name: c.name,
-        cobolSource: c.code,
-        status: 'PENDING',
-        complexity: 1
-      }));
+      addLog("Running deconstruction logic with 1:1 file parity...", 'info', analysisLog);
+      const { chunks: rawChunks, unclassified, jclMembers } = splitCodeIntoChunks(inputCode);
+      addLog(`Identified ${rawChunks.filter(c => c.artifactType === 'PROGRAM').length} distinct programs and ${rawChunks.filter(c => c.artifactType === 'COPYBOOK').length} copybooks.`, 'success', analysisLog);
+      unclassified.forEach(u => addLog(`Unclassified source ${u.name} (lines ${u.startLine}-${u.endLine}): ${u.reason}`, 'error', analysisLog));
+      if (rawChunks.length === 0) throw new Error("No COBOL programs or copybooks found in input.");
+
+      const chunks: CodeChunk[] = rawChunks.map((c, idx) => {
+        const metrics = analyzeComplexity(c.code);
+        const score = riskScore(metrics);
+        return {
+          id: `chunk-${idx}`,
+          name: c.name,
+          cobolSource: c.code,
+          sourceFile: c.sourceFile,
+          artifactType: c.artifactType,
+          sourceRange: { startLine: c.startLine, endLine: c.endLine },
+          nestedPrograms: c.nestedPrograms,
+          status: 'PENDING',
+          complexity: metrics.cyclomatic,
+          metrics,
+          riskScore: score,
+          riskLevel: riskLevel(score)
+        };
+      });
+      const highRisk = chunks.filter(c => c.riskLevel === 'HIGH' || c.riskLevel === 'CRITICAL');
+      if (highRisk.length) addLog(`Risk scan: ${highRisk.length} high-risk modules (${highRisk.map(c => c.name).join(', ')}) will get extended thinking budgets.`, 'info', analysisLog);
+      const resolveCopy = buildCopyResolver(chunks);
+      chunks.forEach(chunk => {
+        const layout = parseDataLayout(chunk.cobolSource, resolveCopy);
+        chunk.dataLayout = layout.fields;
+        chunk.layoutWarnings = layout.warnings;
+        chunk.deadCode = analyzeDeadCode(chunk);
+        chunk.cicsInventory = buildCicsInventory(chunk.cobolSource, layout.fields);
+        chunk.sqlInventory = buildSqlInventory(chunk.cobolSource, layout.fields, resolveCopy);
+      });
+      addLog(`Parsed data layouts: ${chunks.reduce((a, c) => a + (c.dataLayout?.length || 0), 0)} fields.`, 'info', analysisLog);
+      const deadParagraphs = chunks.reduce((a, c) => a + (c.deadCode?.unreachableParagraphs.length || 0), 0);
+      const unusedFields = chunks.reduce((a, c) => a + (c.deadCode?.unusedFields.length || 0), 0);
+      if (deadParagraphs || unusedFields) {
+        addLog(`Dead code scan: ${deadParagraphs} unreachable paragraphs and ${unusedFields} unused WORKING-STORAGE items${providerSettings.excludeDeadCode ? ' will be left out of transform prompts' : ''}.`, 'info', analysisLog);
+      }
+
+      const online = chunks.filter(c => c.cicsInventory);
+      if (online.length) {
+        addLog(`CICS inventory: ${online.reduce((a, c) => a + c.cicsInventory!.commands.length, 0)} EXEC CICS commands in ${online.length} programs; ${online.filter(c => c.cicsInventory!.contract).length} have a COMMAREA contract.`, 'info', analysisLog);
+      }
+      const db2 = chunks.filter(c => c.sqlInventory);
+      if (db2.length) {
+        const tables = new Set(db2.flatMap(c => c.sqlInventory!.tables.map(t => t.name)));
+        addLog(`Embedded SQL: ${db2.reduce((a, c) => a + c.sqlInventory!.statements.length, 0)} EXEC SQL statements in ${db2.length} programs across ${tables.size} tables; ${db2.reduce((a, c) => a + c.sqlInventory!.sqlCodeChecks.length, 0)} SQLCODE checks.`, 'info', analysisLog);
+      }
+
+      const dependencyGraph = buildDependencyGraph(chunks);
+      const unresolved = dependencyGraph.edges.filter(e => !e.resolved);
+      addLog(`Dependency graph: ${dependencyGraph.edges.length} links across ${dependencyGraph.migrationWaves.length} migration waves.`, 'success', analysisLog);
+      if (unresolved.length) addLog(`${unresolved.length} unresolved calls or missing copybooks flagged in topology.`, 'error', analysisLog);
+
+      const jclJobs = parseJclMembers(jclMembers, chunks);
+      if (jclJobs.length) {
+        const steps = jclJobs.flatMap(j => j.steps);
+        addLog(`JCL: ${jclJobs.length} jobs with ${steps.length} steps; ${steps.filter(s => s.chunkId).length} steps run uploaded programs.`, 'success', analysisLog);
+        jclJobs.forEach(job => job.warnings.forEach(w => addLog(`JCL ${job.name}: ${w}`, 'error', analysisLog)));
+      }
 
       setMigrationState(prev => ({
         ...prev,
         status: MigrationStatus.PROCESSING,
         chunks,
         overallPlan: analysis,
+        unclassifiedSources: unclassified,
+        dependencyGraph,
+        jclJobs,
         currentChunkIndex: 0
       }));
     } catch (error) {
-      addLog(`Critical Audit Error: ${error}`, 'error');
+      if (controller.signal.aborted) return;
+      addLog(`Critical Audit Error: ${error}`, 'error', { ...analysisLog, error: errorDetails(error) });
       setMigrationState(prev => ({ ...prev, status: MigrationStatus.FAILED }));
     } finally {
       setIsThinking(false);
     }
   };
 
-  const processNextChunk = useCallback(async () => {
-    const { chunks, currentChunkIndex, status } = migrationState;
-    if (status !== MigrationStatus.PROCESSING || currentChunkIndex >= chunks.length || currentChunkIndex === -1) return;
-
-    const chunk = chunks[currentChunkIndex];
-    if (chunk.status !== 'PENDING') return;
-
-    setIsThinking(true);
-    addLog(`Recovering logic for ${chunk.name}...`, 'thinking');
-
+  const processChunk = useCallback(async (chunk: CodeChunk, signal: AbortSignal) => {
+    inFlightChunks.current.add(chunk.id);
+    setActiveChunkIds([...inFlightChunks.current]);
+    addLog(`Recovering logic for ${chunk.name}...`, 'thinking', { chunkId: chunk.id });
     try {
-      const { research, sources } = await gemini.researchModernEquivalents(chunk.name);
-      const result = await gemini.processModuleLogic(chunk, research);
-      const testResult = await gemini.generateTests(result.pythonSource, chunk.cobolSource);
-      
-      setMigrationState(prev => {
-        const newChunks = [...prev.chunks];
-        newChunks[currentChunkIndex] = {
-          ...chunk,
-          ...result,
-          unitTest: testResult.testCode,
-          coverage: testResult.coverageEstimate,
-          groundingSources: sources,
-          status: 'DONE'
-        };
-        const isLast = currentChunkIndex === newChunks.length - 1;
-        return {
-          ...prev,
-          chunks: newChunks,
-          processedLines: prev.processedLines + chunk.cobolSource.split('\n').length,
-          currentChunkIndex: isLast ? currentChunkIndex : currentChunkIndex + 1,
-          status: isLast ? MigrationStatus.COMPLETED : MigrationStatus.PROCESSING
-        };
-      });
-      addLog(`${chunk.name} recovered and verified.`, 'success');
-    } catch (error) {
-      addLog(`Fault in ${chunk.name}: ${error}`, 'error');
-      setMigrationState(prev => ({
-        ...prev,
-        currentChunkIndex: prev.currentChunkIndex + 1
-      }));
+      const result = await runStages(chunk, remainingStages(chunk), signal);
+      if (result.status === 'DONE') addLog(`${chunk.name} recovered and verified.`, 'success', { chunkId: chunk.id });
     } finally {
-      setIsThinking(false);
+      inFlightChunks.current.delete(chunk.id);
+      setActiveChunkIds([...inFlightChunks.current]);
     }
-  }, [migrationState, addLog]);
+  }, [addLog, runStages]);
 
   const downloadModule = (chunk: CodeChunk) => {
-    if (!chunk.pythonSource) return;
-    const content = `# MODULE: ${chunk.name}\n# GENERATED BY LOGIC LIFT AI\n\n${chunk.pythonSource}`;
+    if (!chunk.targetSource) return;
+    const comment = chunkLanguage(chunk) === 'python' ? '#' : '//';
+    const content = `${comment} MODULE: ${chunk.name}\n${comment} GENERATED BY LOGIC LIFT AI\n\n${chunk.targetSource}`;
     const blob = new Blob([content], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${chunk.name.replace(/\.[^/.]+$/, "")}.py`;
+    a.download = sourceFileName(chunk);
     a.click();
-    addLog(`Exported ${a.download}`, 'info');
+    addLog(`Exported ${a.download}`, 'info', { chunkId: chunk.id });
   };
 
   const downloadMarkdown = (chunk: CodeChunk) => {
-    if (!chunk.pythonSource) return;
-    let md = `# Archaeology Report: ${chunk.name}\n\n`;
-    md += `## Business Rules\n${chunk.businessRules}\n\n`;
-    md += `## Data Mapping\n| Legacy Field | Modern Type | Integrity Rule |\n|---|---|---|\n`;
-    chunk.copybookStructure?.forEach(f => {
-      md += `| ${f.originalField} | ${f.dataType} | ${f.description} |\n`;
-    });
-    md += `\n## Modern Implementation\n\`\`\`python\n${chunk.pythonSource}\n\`\`\`\n\n`;
-    md += `## Parity Tests\n\`\`\`python\n${chunk.unitTest}\n\`\`\`\n`;
+    if (!chunk.targetSource) return;
+    const md = buildMarkdownReport(chunk);
 
     const blob = new Blob([md], { type: 'text/markdown' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${chunk.name.replace(/\.[^/.]+$/, "")}_report.md`;
+    a.download = reportFileName(chunk);
+    a.click();
+    addLog(`Exported Markdown report: ${a.download}`, 'info', { chunkId: chunk.id });
+  };
+
+  const downloadOpenApi = (chunk: CodeChunk) => {
+    const spec = buildOpenApiSpec(chunk);
+    if (!spec) return;
+    const blob = new Blob([JSON.stringify(spec, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = openApiFileName(chunk);
     a.click();
-    addLog(`Exported Markdown report: ${a.download}`, 'info');
+    addLog(`Exported OpenAPI contract: ${a.download}`, 'info', { chunkId: chunk.id });
   };
 
   const bulkExport = () => {
-    const done = migrationState.chunks.filter(c => c.status === 'DONE');
-    if (!done.length) return;
-    const combined = done.map(c => `\n# MODULE: ${c.name}\n${c.pythonSource}`).join('\n\n');
-    const blob = new Blob([combined], { type: 'text/plain' });
+    if (!migrationState.chunks.some(c => c.status === 'DONE')) return;
+    const { packageName, files, manifest } = buildTargetPackage(migrationState.chunks, projectName, providerSettings.targetLanguage, migrationState.jclJobs);
+    const blob = new Blob([createZip(files)], { type: 'application/zip' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `system_recovery_queue.py`;
+    a.download = `${packageName}.zip`;
     a.click();
+    const modules = manifest.files.filter(f => f.kind === 'module').length;
+    addLog(`Exported package ${a.download}: ${modules} modules, ${manifest.files.filter(f => f.kind === 'test').length} test suites, ${manifest.skipped.length} chunks left out (not recovered or in another target language).`, 'info');
   };
 
+  // Worker pool: keeps up to `workers` chunks in flight, copybooks ahead of the programs
+  // that COPY them. Request pacing and per-provider caps are enforced in the rate limiter.
   useEffect(() => {
-    if (migrationState.status === MigrationStatus.PROCESSING) {
-      const currentChunk = migrationState.chunks[migrationState.currentChunkIndex];
-      if (currentChunk && currentChunk.status === 'PENDING') {
-        processNextChunk();
-      }
+    if (migrationState.status !== MigrationStatus.PROCESSING || resumePending) return;
+    const { chunks, dependencyGraph, currentChunkIndex } = migrationState;
+    const inFlight = inFlightChunks.current;
+    const firstOpen = chunks.findIndex(c => c.status === 'PENDING');
+    if (firstOpen === -1) {
+      if (inFlight.size === 0) setMigrationState(prev => ({ ...prev, status: MigrationStatus.COMPLETED }));
+      return;
     }
-  }, [migrationState.status, migrationState.currentChunkIndex, processNextChunk]);
+    if (firstOpen !== currentChunkIndex) setMigrationState(prev => ({ ...prev, currentChunkIndex: firstOpen }));
+    const ready = pickReadyChunks(chunks, dependencyGraph, inFlight, providerSettings.scheduler.workers - inFlight.size);
+    if (!ready.length) return;
+    if (!runController.current) runController.current = new AbortController();
+    const { signal } = runController.current;
+    ready.forEach(chunk => processChunk(chunk, signal));
+  }, [migrationState, resumePending, activeChunkIds, providerSettings.scheduler.workers, processChunk]);
 
   const selectedChunk = migrationState.chunks.find(c => c.id === selectedChunkId) || 
                           migrationState.chunks[migrationState.currentChunkIndex];
 
+  const queueChunks = useMemo(() => {
+    const visible = migrationState.chunks.filter(c => riskFilter === 'ALL' || c.riskLevel === riskFilter);
+    return queueSort === 'risk' ? [...visible].sort((a, b) => (b.riskScore ?? 0) - (a.riskScore ?? 0)) : visible;
+  }, [migrationState.chunks, queueSort, riskFilter]);
+
+  const canIngest = migrationState.status === MigrationStatus.IDLE || migrationState.status === MigrationStatus.CANCELLED;
+  const stageControlsLocked = isThinking || isRunningTests || (migrationState.status === MigrationStatus.PROCESSING && !resumePending);
+
+  // Chunks not yet transformed will be generated in the project's current target.
+  const selectedLanguage = selectedChunk?.targetSource ? chunkLanguage(selectedChunk) : providerSettings.targetLanguage;
+
+  const layoutRows = useMemo(() => {
+    if (!selectedChunk) return [];
+    if (!selectedChunk.dataLayout?.length) {
+      return (selectedChunk.copybookStructure || []).map(model => ({ model, differences: [] as string[] }));
+    }
+    return compareLayout(selectedChunk.dataLayout, selectedChunk.copybookStructure);
+  }, [selectedChunk]);
+
   return (
     <div className="min-h-screen flex flex-col bg-[#020617] text-slate-100 font-sans selection:bg-blue-500/30">
       <input type="file" ref={fileInputRef} className="hidden" multiple onChange={handleFileUpload} />
+      <input type="file" ref={bundleInputRef} className="hidden" accept=".json,application/json" onChange={handleBundleUpload} />
 
       <header className="p-4 border-b border-slate-800 bg-slate-900/80 backdrop-blur-md sticky top-0 z-50">
         <div className="max-w-screen-2xl mx-auto flex items-center justify-between">
@@ -358,12 +823,60 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center space-x-4">
-             {isThinking && (
+             <ProjectSwitcher
+               projects={projects}
+               currentId={projectId}
+               currentName={projectName}
+               onSelect={switchProject}
+               onCreate={startNewProject}
+               onRename={setProjectName}
+               onDelete={removeProject}
+               onExport={downloadBundle}
+               onImport={() => bundleInputRef.current?.click()}
+               disabled={!resumePending && (migrationState.status === MigrationStatus.ANALYZING || migrationState.status === MigrationStatus.PROCESSING)}
+             />
+             {(isThinking || activeChunkIds.length > 0) && (
                <div className="flex items-center space-x-2 bg-blue-500/10 border border-blue-500/20 px-3 py-1.5 rounded-full animate-pulse">
                  <BrainCircuit className="w-3.5 h-3.5 text-blue-400" />
-                 <span className="text-[10px] font-bold text-blue-300 uppercase tracking-tighter">Thinking active</span>
+                 <span className="text-[10px] font-bold text-blue-300 uppercase tracking-tighter">
+                   Thinking active{activeChunkIds.length > 0 && ` • ${activeChunkIds.length}/${providerSettings.scheduler.workers} workers`}
+                 </span>
+               </div>
+             )}
+             {(migrationState.status === MigrationStatus.PAUSED || migrationState.status === MigrationStatus.CANCELLED) && (
+               <div className={`flex items-center space-x-2 px-3 py-1.5 rounded-full border ${
+                 migrationState.status === MigrationStatus.PAUSED ? 'bg-amber-500/10 border-amber-500/20 text-amber-300' : 'bg-rose-500/10 border-rose-500/20 text-rose-300'
+               }`}>
+                 {migrationState.status === MigrationStatus.PAUSED ? <Pause className="w-3.5 h-3.5" /> : <Square className="w-3.5 h-3.5" />}
+                 <span className="text-[10px] font-bold uppercase tracking-tighter">Run {migrationState.status.toLowerCase()}</span>
+               </div>
+             )}
+             {cassetteMode !== 'off' && (
+               <div className={`flex items-center space-x-2 px-3 py-1.5 rounded-full border ${
+                 cassetteMode === 'record' ? 'bg-rose-500/10 border-rose-500/20 text-rose-300' : 'bg-emerald-500/10 border-emerald-500/20 text-emerald-300'
+               }`}>
+                 <Disc className={`w-3.5 h-3.5 ${cassetteMode === 'record' ? 'animate-pulse' : ''}`} />
+                 <span className="text-[10px] font-bold uppercase tracking-tighter">{cassetteMode === 'record' ? 'Recording' : 'Replaying'}</span>
                </div>
              )}
+             <button 
+               onClick={() => setShowSettings(v => !v)}
+               className={`px-4 py-2 rounded-xl border transition-all text-[10px] font-black uppercase tracking-widest flex items-center space-x-2 ${
+                 showSettings ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300'
+               }`}
+             >
+               <Settings className="w-4 h-4" />
+               <span className="hidden md:inline">Models</span>
+             </button>
+             <button 
+               onClick={() => setShowAudit(v => !v)}
+               className={`px-4 py-2 rounded-xl border transition-all text-[10px] font-black uppercase tracking-widest flex items-center space-x-2 ${
+                 showAudit ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300'
+               }`}
+             >
+               <ShieldCheck className="w-4 h-4" />
+               <span className="hidden md:inline">Audit</span>
+             </button>
              <button 
                onClick={bulkExport}
                disabled={migrationState.chunks.filter(c => c.status === 'DONE').length === 0}
@@ -377,6 +890,39 @@ const App: React.FC = () => {
       </header>
 
       <main className="flex-1 max-w-screen-2xl mx-auto w-full p-4 flex flex-col space-y-4">
+        {resumePending && (
+          <div className="bg-amber-500/10 border border-amber-500/20 rounded-2xl p-4 flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <AlertCircle className="w-4 h-4 text-amber-400" />
+              <p className="text-[10px] font-black uppercase tracking-widest text-amber-300">
+                Interrupted run: {doneCount} / {migrationState.chunks.length} modules verified
+              </p>
+            </div>
+            <button
+              onClick={resumeMigration}
+              className="bg-amber-500 hover:bg-amber-400 text-slate-950 px-4 py-2 rounded-lg font-black text-[10px] uppercase tracking-widest flex items-center space-x-2"
+            >
+              <FastForward className="w-3.5 h-3.5" />
+              <span>Resume from {migrationState.chunks[migrationState.currentChunkIndex]?.name}</span>
+            </button>
+          </div>
+        )}
+        {showSettings && (
+          <ModelSettingsPanel
+            settings={providerSettings}
+            onChange={setProviderSettings}
+            onClose={() => setShowSettings(false)}
+            onLog={addLog}
+            locked={migrationState.status === MigrationStatus.ANALYZING || migrationState.status === MigrationStatus.PROCESSING}
+          />
+        )}
+        {showAudit && (
+          <AuditTrailPanel
+            projectId={projectId}
+            onExport={downloadEvidencePack}
+            onClose={() => setShowAudit(false)}
+          />
+        )}
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-4 flex-1">
           {/* Left column: Source and System Stream */}
           <div className="lg:col-span-4 flex flex-col space-y-4">
@@ -388,7 +934,7 @@ const App: React.FC = () => {
                 </span>
                 <button 
                   onClick={() => fileInputRef.current?.click()}
-                  disabled={migrationState.status !== MigrationStatus.IDLE}
+                  disabled={!canIngest}
                   className="text-[9px] font-black bg-blue-600 text-white px-3 py-1.5 rounded-lg uppercase hover:bg-blue-500 transition-all"
                 >
                   Upload
@@ -399,46 +945,57 @@ const App: React.FC = () => {
                 onChange={(e) => setInputCode(e.target.value)}
                 className="flex-1 p-4 code-font text-[11px] bg-transparent text-blue-200 focus:outline-none resize-none leading-relaxed custom-scrollbar"
                 placeholder="Paste COBOL programs or copybooks..."
-                disabled={migrationState.status !== MigrationStatus.IDLE}
+                disabled={!canIngest}
               />
               <div className="p-4 border-t border-slate-800 bg-slate-800/10">
                 <button 
                   onClick={handleStartMigration}
-                  disabled={migrationState.status !== MigrationStatus.IDLE || !inputCode}
+                  disabled={!canIngest || !inputCode}
                   className="w-full py-3.5 rounded-xl bg-blue-600 text-white font-black flex items-center justify-center space-x-2 shadow-lg hover:bg-blue-500 transition-all disabled:opacity-20"
                 >
                   <Play className="w-4 h-4 fill-current" />
                   <span className="uppercase tracking-widest text-[11px]">Deploy Modernization Core</span>
                 </button>
+                {(migrationState.status === MigrationStatus.ANALYZING || migrationState.status === MigrationStatus.PROCESSING || migrationState.status === MigrationStatus.PAUSED) && (
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    {migrationState.status === MigrationStatus.PAUSED || resumePending ? (
+                      <button
+                        onClick={resumeMigration}
+                        disabled={isThinking || isRunningTests}
+                        className="py-2.5 rounded-xl bg-emerald-600/20 border border-emerald-500/30 text-emerald-300 font-black flex items-center justify-center space-x-2 hover:bg-emerald-600/30 transition-all disabled:opacity-20"
+                      >
+                        <Play className="w-3.5 h-3.5" />
+                        <span className="uppercase tracking-widest text-[10px]">Resume</span>
+                      </button>
+                    ) : (
+                      <button
+                        onClick={pauseMigration}
+                        disabled={migrationState.status !== MigrationStatus.PROCESSING}
+                        className="py-2.5 rounded-xl bg-amber-500/10 border border-amber-500/30 text-amber-300 font-black flex items-center justify-center space-x-2 hover:bg-amber-500/20 transition-all disabled:opacity-20"
+                      >
+                        <Pause className="w-3.5 h-3.5" />
+                        <span className="uppercase tracking-widest text-[10px]">Pause</span>
+                      </button>
+                    )}
+                    <button
+                      onClick={cancelMigration}
+                      className="py-2.5 rounded-xl bg-rose-500/10 border border-rose-500/30 text-rose-300 font-black flex items-center justify-center space-x-2 hover:bg-rose-500/20 transition-all"
+                    >
+                      <Square className="w-3.5 h-3.5" />
+                      <span className="uppercase tracking-widest text-[10px]">Cancel</span>
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
 
-            <div className="bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden flex-1 flex flex-col shadow-xl min-h-[300px]">
-               <div className="p-3 border-b border-slate-800 flex items-center space-x-2 bg-slate-800/20">
-                 <Terminal className="w-3.5 h-3.5 text-emerald-400" />
-                 <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">System Stream</span>
-               </div>
-               <div className="p-4 space-y-2.5 overflow-y-auto flex-1 font-mono text-[10px] bg-black/40 custom-scrollbar">
-                 {logs.length === 0 && <p className="text-slate-600 italic">Waiting for input signal...</p>}
-                 {logs.map((log, i) => (
-                   <div key={i} className="flex items-start space-x-2">
-                     <div className={`mt-1.5 w-1 h-2 rounded-full shrink-0 ${
-                       log.type === 'error' ? 'bg-rose-500' : 
-                       log.type === 'success' ? 'bg-emerald-500' : 
-                       log.type === 'thinking' ? 'bg-blue-500 animate-pulse' : 'bg-slate-700'
-                     }`} />
-                     <span className={`leading-relaxed ${
-                       log.type === 'error' ? 'text-rose-400' : 
-                       log.type === 'success' ? 'text-emerald-300' : 
-                       log.type === 'thinking' ? 'text-blue-300' : 'text-slate-400'
-                     }`}>
-                       {log.msg}
-                     </span>
-                   </div>
-                 ))}
-                 <div ref={logEndRef} className="h-4" />
-               </div>
-            </div>
+            <SystemStreamPanel
+              logs={logs}
+              chunks={migrationState.chunks}
+              projectName={projectName}
+              onSelectChunk={setSelectedChunkId}
+              onLog={addLog}
+            />
           </div>
 
           {/* Right column: Details and Output */}
@@ -465,9 +1022,32 @@ const App: React.FC = () => {
               <div className="md:col-span-4 bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden flex flex-col shadow-xl">
                 <div className="p-3 border-b border-slate-800 bg-slate-800/20 flex justify-between items-center">
                   <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Recovery Queue</span>
+                  <div className="flex items-center space-x-1">
+                    <select
+                      value={riskFilter}
+                      onChange={(e) => setRiskFilter(e.target.value as RiskLevel | 'ALL')}
+                      className="bg-black/30 border border-slate-700 rounded-lg px-1.5 py-1 text-[8px] font-black uppercase text-slate-400 focus:outline-none"
+                      aria-label="Filter by risk"
+                    >
+                      <option value="ALL">All risk</option>
+                      {RISK_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                    </select>
+                    <select
+                      value={queueSort}
+                      onChange={(e) => setQueueSort(e.target.value as 'queue' | 'risk')}
+                      className="bg-black/30 border border-slate-700 rounded-lg px-1.5 py-1 text-[8px] font-black uppercase text-slate-400 focus:outline-none"
+                      aria-label="Sort queue"
+                    >
+                      <option value="queue">Queue order</option>
+                      <option value="risk">Highest risk</option>
+                    </select>
+                  </div>
                 </div>
                 <div className="overflow-y-auto flex-1 custom-scrollbar">
-                  {migrationState.chunks.map((chunk) => (
+                  {queueChunks.length === 0 && migrationState.chunks.length > 0 && (
+                    <p className="p-4 text-[9px] text-slate-600 italic">No modules at {riskFilter} risk.</p>
+                  )}
+                  {queueChunks.map((chunk) => (
                     <button 
                       key={chunk.id}
                       onClick={() => setSelectedChunkId(chunk.id)}
@@ -475,16 +1055,89 @@ const App: React.FC = () => {
                         ${selectedChunkId === chunk.id ? 'bg-blue-600/10 border-l-4 border-l-blue-600' : 'hover:bg-slate-800/40'}`}
                     >
                       <div className="flex items-center space-x-3 overflow-hidden">
-                        <div className={`w-2 h-2 rounded-full shrink-0 ${chunk.status === 'DONE' ? 'bg-emerald-500' : 'bg-slate-700 animate-pulse'}`} />
+                        <div className={`w-2 h-2 rounded-full shrink-0 ${chunk.status === 'DONE' ? 'bg-emerald-500' : chunk.status === 'ERROR' ? 'bg-rose-500' : chunk.status === 'SKIPPED' ? 'bg-slate-800' : 'bg-slate-700 animate-pulse'}`} />
                         <div className="min-w-0">
-                          <p className="text-[10px] font-black text-slate-200 uppercase truncate">{chunk.name}</p>
-                          <p className="text-[8px] font-bold text-slate-500 mt-0.5">{chunk.status === 'DONE' ? 'VERIFIED' : 'PENDING'}</p>
+                          <p className={`text-[10px] font-black uppercase truncate ${chunk.status === 'SKIPPED' ? 'text-slate-600 line-through' : 'text-slate-200'}`}>{chunk.name}</p>
+                          <p className={`text-[8px] font-bold mt-0.5 ${chunk.status === 'ERROR' ? 'text-rose-400' : 'text-slate-500'}`}>
+                            {chunk.status === 'DONE' ? 'VERIFIED' : chunk.status === 'ERROR' ? `ERROR • ${chunk.failedStage?.toUpperCase()}` : chunk.status}
+                            {chunk.artifactType && ` • ${chunk.artifactType}`}
+                            {chunk.sourceRange && ` • L${chunk.sourceRange.startLine}-${chunk.sourceRange.endLine}`}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 shrink-0">
+                        {chunk.riskLevel && (
+                          <span className={`text-[8px] font-black px-1.5 py-0.5 rounded border ${RISK_STYLES[chunk.riskLevel]}`} title={`Risk score ${chunk.riskScore}/100`}>
+                            {chunk.riskScore}
+                          </span>
+                        )}
+                        <div className="flex space-x-0.5">
+                          {CHUNK_STAGES.map(stage => (
+                            <span key={stage} className={`w-1.5 h-3 rounded-sm ${STAGE_STYLES[stageState(chunk, stage)]}`} title={`${STAGE_LABELS[stage]}: ${stageState(chunk, stage)}`} />
+                          ))}
                         </div>
+                        <ChevronRight className={`w-3.5 h-3.5 shrink-0 transition-transform ${selectedChunkId === chunk.id ? 'translate-x-1 text-blue-400' : 'text-slate-700'}`} />
                       </div>
-                      <ChevronRight className={`w-3.5 h-3.5 shrink-0 transition-transform ${selectedChunkId === chunk.id ? 'translate-x-1 text-blue-400' : 'text-slate-700'}`} />
                     </button>
                   ))}
                 </div>
+                {selectedChunk && (
+                  <div className="border-t border-slate-800 bg-black/20 p-3 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 truncate">Pipeline • {selectedChunk.name}</span>
+                      {selectedChunk.status === 'SKIPPED' ? (
+                        <button
+                          onClick={() => retryChunk(selectedChunk)}
+                          disabled={stageControlsLocked}
+                          className="flex items-center space-x-1 text-[8px] font-black uppercase text-blue-400 hover:text-blue-300 disabled:opacity-20"
+                        >
+                          <Play className="w-3 h-3" />
+                          <span>Requeue</span>
+                        </button>
+                      ) : selectedChunk.status !== 'DONE' && (
+                        <button
+                          onClick={() => skipChunk(selectedChunk)}
+                          disabled={stageControlsLocked}
+                          className="flex items-center space-x-1 text-[8px] font-black uppercase text-slate-400 hover:text-amber-400 disabled:opacity-20"
+                        >
+                          <FastForward className="w-3 h-3" />
+                          <span>Skip Module</span>
+                        </button>
+                      )}
+                    </div>
+                    {CHUNK_STAGES.map(stage => {
+                      const state = stageState(selectedChunk, stage);
+                      const action = state === 'ERROR' ? 'Retry'
+                        : state === 'DONE' || state === 'STALE' ? 'Regenerate'
+                        : stage === 'validation' && state === 'PENDING' && selectedChunk.unitTest ? 'Run'
+                        : null;
+                      return (
+                        <div key={stage} className="flex items-center justify-between">
+                          <div className="flex items-center space-x-2">
+                            <span className={`w-2 h-2 rounded-full ${STAGE_STYLES[state]}`} />
+                            <span className="text-[9px] font-bold uppercase text-slate-300">{STAGE_LABELS[stage]}</span>
+                            <span className="text-[8px] font-mono text-slate-500">{state}</span>
+                          </div>
+                          {action && (
+                            <button
+                              onClick={() => action === 'Retry' ? retryChunk(selectedChunk) : regenerateStage(selectedChunk, stage)}
+                              disabled={stageControlsLocked}
+                              className="flex items-center space-x-1 text-[8px] font-black uppercase text-blue-400 hover:text-blue-300 disabled:opacity-20"
+                            >
+                              <RefreshCw className="w-3 h-3" />
+                              <span>{action}</span>
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })}
+                    {selectedChunk.error && (
+                      <p className="text-[9px] font-mono text-rose-400 bg-rose-500/5 border border-rose-500/20 rounded-lg p-2 break-words">
+                        {selectedChunk.failedStage && `${STAGE_LABELS[selectedChunk.failedStage]}: `}{selectedChunk.error}
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* View Port */}
@@ -496,7 +1149,8 @@ const App: React.FC = () => {
                         {[
                           { id: 'functional', label: 'Archaeology', icon: BookOpen },
                           { id: 'technical', label: 'Source', icon: Cpu },
-                          { id: 'validation', label: 'Tests', icon: FlaskConical }
+                          { id: 'validation', label: 'Tests', icon: FlaskConical },
+                          { id: 'data', label: 'Data', icon: Database }
                         ].map(mode => (
                           <button 
                             key={mode.id}
@@ -513,7 +1167,7 @@ const App: React.FC = () => {
                       <div className="flex items-center space-x-2">
                         <button 
                           onClick={() => downloadMarkdown(selectedChunk)}
-                          disabled={!selectedChunk.pythonSource}
+                          disabled={!selectedChunk.targetSource}
                           className="flex items-center space-x-2 text-[9px] font-black uppercase bg-slate-800 hover:bg-slate-700 text-blue-400 px-3 py-2.5 rounded-xl border border-slate-700 transition-all disabled:opacity-20"
                           title="Export Report (Markdown)"
                         >
@@ -521,11 +1175,11 @@ const App: React.FC = () => {
                         </button>
                         <button 
                           onClick={() => downloadModule(selectedChunk)}
-                          disabled={!selectedChunk.pythonSource}
+                          disabled={!selectedChunk.targetSource}
                           className="flex items-center space-x-2 text-[9px] font-black uppercase bg-slate-800 hover:bg-slate-700 text-slate-200 px-4 py-2.5 rounded-xl border border-slate-700 transition-all disabled:opacity-20 shadow-xl"
                         >
                           <Download className="w-3.5 h-3.5" />
-                          <span className="hidden sm:inline">Export Python</span>
+                          <span className="hidden sm:inline">Export {TARGETS[selectedLanguage].label}</span>
                         </button>
                       </div>
                     </div>
@@ -533,15 +1187,79 @@ const App: React.FC = () => {
                     <div className="flex-1 overflow-y-auto p-5 custom-scrollbar bg-slate-900/40">
                       {viewMode === 'functional' && (
                         <div className="space-y-6">
+                          {selectedChunk.metrics && selectedChunk.riskLevel && (
+                            <div className="space-y-3">
+                              <div className="flex items-center justify-between">
+                                <h4 className="text-[10px] font-black uppercase text-amber-400 tracking-widest flex items-center space-x-2">
+                                  <ShieldAlert className="w-3 h-3" />
+                                  <span>Static Complexity</span>
+                                </h4>
+                                <span className={`text-[9px] font-black uppercase px-2 py-1 rounded-lg border ${RISK_STYLES[selectedChunk.riskLevel]}`}>
+                                  {selectedChunk.riskLevel} risk • {selectedChunk.riskScore}/100
+                                </span>
+                              </div>
+                              <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                                {[
+                                  { label: 'Cyclomatic', value: selectedChunk.metrics.cyclomatic },
+                                  { label: 'Paras / Sections', value: `${selectedChunk.metrics.paragraphs} / ${selectedChunk.metrics.sections}` },
+                                  { label: 'GO TO / ALTER', value: `${selectedChunk.metrics.goTo} / ${selectedChunk.metrics.alter}` },
+                                  { label: 'File I/O', value: selectedChunk.metrics.fileIo },
+                                  { label: 'EXEC CICS', value: selectedChunk.metrics.execCics },
+                                  { label: 'EXEC SQL', value: selectedChunk.metrics.execSql }
+                                ].map(metric => (
+                                  <div key={metric.label} className="bg-white/5 border border-white/5 rounded-xl p-3">
+                                    <p className="text-[8px] font-black uppercase text-slate-500">{metric.label}</p>
+                                    <p className="text-sm font-black text-slate-200 font-mono">{metric.value}</p>
+                                  </div>
+                                ))}
+                              </div>
+                              <p className="text-[9px] text-slate-500 font-mono">
+                                {selectedChunk.metrics.ifStatements} IF • {selectedChunk.metrics.whenBranches} WHEN • {selectedChunk.metrics.performUntil} PERFORM UNTIL • {selectedChunk.metrics.procedureLines} procedure lines
+                              </p>
+                            </div>
+                          )}
+                          {selectedChunk.deadCode && (selectedChunk.deadCode.unreachableParagraphs.length > 0 || selectedChunk.deadCode.unusedFields.length > 0) && (
+                            <div className="space-y-3">
+                              <div className="flex items-center justify-between">
+                                <h4 className="text-[10px] font-black uppercase text-slate-400 tracking-widest flex items-center space-x-2">
+                                  <ZapOff className="w-3 h-3" />
+                                  <span>Dead Code</span>
+                                </h4>
+                                <span className="text-[9px] font-black uppercase text-slate-500">
+                                  {selectedChunk.deadCode.deadLines} lines • {providerSettings.excludeDeadCode ? 'excluded from transform' : 'sent to transform'}
+                                </span>
+                              </div>
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                {[
+                                  { title: 'Unreachable Paragraphs', items: selectedChunk.deadCode.unreachableParagraphs.map(p => ({ label: `${p.name}${p.section ? ' SECTION' : ''}`, startLine: p.startLine, endLine: p.endLine })) },
+                                  { title: 'Unused Working-Storage', items: selectedChunk.deadCode.unusedFields.map(f => ({ label: `${String(f.level).padStart(2, '0')} ${f.path}`, startLine: f.startLine, endLine: f.endLine })) }
+                                ].map(group => (
+                                  <div key={group.title} className="bg-white/5 border border-white/5 rounded-xl p-3 space-y-1.5">
+                                    <p className="text-[8px] font-black uppercase text-slate-500">{group.title} ({group.items.length})</p>
+                                    {group.items.length === 0 && <p className="text-[9px] text-slate-600 italic">None found</p>}
+                                    {group.items.map(item => (
+                                      <div key={`${item.label}-${item.startLine}`} className="flex items-center justify-between text-[9px] font-mono">
+                                        <span className="text-slate-300 truncate">{item.label}</span>
+                                        <span className="text-slate-600 shrink-0 ml-2">
+                                          L{item.startLine + (selectedChunk.sourceRange?.startLine ?? 1) - 1}-{item.endLine + (selectedChunk.sourceRange?.startLine ?? 1) - 1}
+                                        </span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+
                           <div className="space-y-3">
                              <div className="flex items-center justify-between">
                                <h4 className="text-[10px] font-black uppercase text-blue-400 tracking-widest flex items-center space-x-2">
                                  <Activity className="w-3 h-3" />
                                  <span>Business Rule Extraction</span>
                                </h4>
-                               {selectedChunk.businessRules && (
+                               {selectedChunk.businessRules && selectedChunk.businessRules.length > 0 && (
                                  <button 
-                                   onClick={() => copyToClipboard(selectedChunk.businessRules || '', 'rules-copy')}
+                                   onClick={() => copyToClipboard(selectedChunk.businessRules.map((r: BusinessRule) => `${r.id} [${r.category}] ${r.description}`).join('\n'), 'rules-copy')}
                                    className="text-[9px] text-slate-500 hover:text-slate-300 flex items-center space-x-1"
                                  >
                                    <Copy className="w-3 h-3" />
@@ -549,37 +1267,178 @@ const App: React.FC = () => {
                                  </button>
                                )}
                              </div>
-                             <div className="text-slate-300 text-xs leading-relaxed whitespace-pre-wrap bg-white/5 p-5 rounded-xl border border-white/5 font-mono shadow-inner">
-                               {selectedChunk.businessRules || 'Synthesizing module behavior...'}
-                             </div>
+                             {selectedChunk.businessRules ? (
+                               <BusinessRulesMatrix chunk={selectedChunk} />
+                             ) : (
+                               <div className="text-slate-300 text-xs leading-relaxed whitespace-pre-wrap bg-white/5 p-5 rounded-xl border border-white/5 font-mono shadow-inner">
+                                 Synthesizing module behavior...
+                               </div>
+                             )}
                           </div>
 
-                          {selectedChunk.copybookStructure && (
+                          {(selectedChunk.copybookStructure || selectedChunk.dataLayout?.length) && (
                              <div className="space-y-3">
-                                <h4 className="text-[10px] font-black uppercase text-indigo-400 tracking-widest">Persistence Data Mapping</h4>
+                                <div className="flex items-center justify-between">
+                                  <h4 className="text-[10px] font-black uppercase text-indigo-400 tracking-widest">Persistence Data Mapping</h4>
+                                  {layoutRows.some(r => r.differences.length) && (
+                                    <span className="text-[9px] font-black uppercase text-amber-400">
+                                      {layoutRows.filter(r => r.differences.length).length} differences vs parsed layout
+                                    </span>
+                                  )}
+                                </div>
                                 <div className="overflow-x-auto rounded-xl border border-slate-800 bg-black/20">
                                   <table className="w-full text-[10px] text-left">
                                     <thead className="bg-slate-800 text-slate-500 font-black uppercase">
                                       <tr>
                                         <th className="p-3">Legacy Field</th>
+                                        <th className="p-3">PIC / Usage</th>
+                                        <th className="p-3">Offset</th>
+                                        <th className="p-3">Bytes</th>
                                         <th className="p-3">Modern Type</th>
+                                        <th className="p-3">Model Mapping</th>
                                         <th className="p-3">Integrity Rule</th>
                                       </tr>
                                     </thead>
                                     <tbody className="divide-y divide-slate-800">
-                                      {selectedChunk.copybookStructure.map((field, i) => (
-                                        <tr key={i} className="hover:bg-white/5 transition-colors">
-                                          <td className="p-3 font-mono text-blue-300">{field.originalField}</td>
-                                          <td className="p-3 font-mono text-emerald-400 font-bold">{field.dataType}</td>
-                                          <td className="p-3 text-slate-400">{field.description}</td>
+                                      {layoutRows.map((row, i) => (
+                                        <tr key={i} className={`transition-colors ${row.differences.length ? 'bg-amber-500/5 hover:bg-amber-500/10' : 'hover:bg-white/5'}`}>
+                                          <td className="p-3 font-mono text-blue-300 whitespace-nowrap">
+                                            {row.parsed ? `${String(row.parsed.level).padStart(2, '0')} ${row.parsed.name}` : row.model?.originalField}
+                                          </td>
+                                          <td className="p-3 font-mono text-slate-400 whitespace-nowrap">
+                                            {row.parsed ? [row.parsed.picture, row.parsed.usage !== 'DISPLAY' ? row.parsed.usage : '', row.parsed.occurs ? `x${row.parsed.occurs.max}` : ''].filter(Boolean).join(' ') : '—'}
+                                          </td>
+                                          <td className="p-3 font-mono text-slate-500">{row.parsed && row.parsed.level !== 88 ? row.parsed.offset : '—'}</td>
+                                          <td className="p-3 font-mono text-slate-500">{row.parsed && row.parsed.level !== 88 ? row.parsed.length : '—'}</td>
+                                          <td className="p-3 font-mono text-emerald-400 font-bold">{row.parsed ? targetType(row.parsed, selectedLanguage) : '—'}</td>
+                                          <td className={`p-3 font-mono ${row.differences.length ? 'text-amber-300' : 'text-slate-300'}`}>
+                                            {row.model ? row.model.dataType : '—'}
+                                          </td>
+                                          <td className="p-3 text-slate-400">
+                                            {row.model?.description}
+                                            {row.differences.map((d, j) => (
+                                              <p key={j} className="text-amber-400/80 text-[9px] mt-0.5">{d}</p>
+                                            ))}
+                                          </td>
                                         </tr>
                                       ))}
                                     </tbody>
                                   </table>
                                 </div>
+                                {selectedChunk.layoutWarnings?.map((w, i) => (
+                                  <p key={i} className="text-[9px] text-amber-400/80 font-mono">{w}</p>
+                                ))}
                              </div>
                           )}
 
+                          {selectedChunk.cicsInventory && selectedChunk.cicsInventory.commands.length > 0 && (
+                            <div className="space-y-3">
+                              <div className="flex items-center justify-between">
+                                <h4 className="text-[10px] font-black uppercase text-amber-400 tracking-widest flex items-center space-x-2">
+                                  <Terminal className="w-3 h-3" />
+                                  <span>CICS Inventory</span>
+                                </h4>
+                                {selectedChunk.cicsInventory.contract && (
+                                  <button
+                                    onClick={() => downloadOpenApi(selectedChunk)}
+                                    className="text-[9px] font-black text-slate-500 hover:text-slate-300 transition-colors uppercase flex items-center space-x-1"
+                                  >
+                                    <Download className="w-3 h-3" />
+                                    <span>OpenAPI Contract</span>
+                                  </button>
+                                )}
+                              </div>
+                              {(selectedChunk.cicsInventory.transactionIds.length > 0 || selectedChunk.cicsInventory.contract) && (
+                                <p className="text-[10px] font-mono text-slate-400">
+                                  {selectedChunk.cicsInventory.transactionIds.length > 0 && <span>Transactions <span className="text-amber-300">{selectedChunk.cicsInventory.transactionIds.join(', ')}</span></span>}
+                                  {selectedChunk.cicsInventory.contract && (
+                                    <span className="ml-3">COMMAREA <span className="text-blue-300">{selectedChunk.cicsInventory.contract.request}</span> → <span className="text-blue-300">{selectedChunk.cicsInventory.contract.response}</span></span>
+                                  )}
+                                </p>
+                              )}
+                              <div className="overflow-x-auto max-h-64 rounded-xl border border-slate-800 bg-black/20 custom-scrollbar">
+                                <table className="w-full text-[10px] text-left">
+                                  <thead className="bg-slate-800 text-slate-500 font-black uppercase sticky top-0">
+                                    <tr>
+                                      <th className="p-3">Line</th>
+                                      <th className="p-3">Command</th>
+                                      <th className="p-3">Target</th>
+                                      <th className="p-3">Options</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody className="divide-y divide-slate-800 font-mono">
+                                    {selectedChunk.cicsInventory.commands.map((c, i) => (
+                                      <tr key={i} className="hover:bg-white/5 transition-colors">
+                                        <td className="p-3 text-slate-500">{c.line + (selectedChunk.sourceRange?.startLine ?? 1) - 1}</td>
+                                        <td className="p-3 text-amber-300 whitespace-nowrap">{c.command}</td>
+                                        <td className="p-3 text-slate-300">{c.target}{c.dynamicTarget && <span className="ml-1 text-[8px] text-slate-600 uppercase">data item</span>}</td>
+                                        <td className="p-3 text-slate-500">{Object.entries(c.options).map(([k, v]) => v ? `${k}(${v})` : k).join(' ')}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              </div>
+                            </div>
+                          )}
+
+                          {selectedChunk.sqlInventory && (
+                            <SqlInventoryPanel chunk={selectedChunk} chunks={migrationState.chunks} projectName={projectName} />
+                          )}
+
+                          {selectedChunk.cloudTargetArchitecture && selectedChunk.cloudTargetArchitecture.length > 0 && (
+                            <div className="space-y-3">
+                              <h4 className="text-[10px] font-black uppercase text-cyan-400 tracking-widest flex items-center space-x-2">
+                                <Cloud className="w-3 h-3" />
+                                <span>Target Cloud Architecture</span>
+                              </h4>
+                              <div className="overflow-x-auto rounded-xl border border-slate-800 bg-black/20">
+                                <table className="w-full text-[10px] text-left">
+                                  <thead className="bg-slate-800 text-slate-500 font-black uppercase">
+                                    <tr>
+                                      <th className="p-3">Legacy Component</th>
+                                      <th className="p-3">Cloud</th>
+                                      <th className="p-3">Service</th>
+                                      <th className="p-3">Rationale</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody className="divide-y divide-slate-800">
+                                    {selectedChunk.cloudTargetArchitecture.map((m, i) => (
+                                      <tr key={i} className="hover:bg-white/5 transition-colors">
+                                        <td className="p-3 font-mono text-blue-300">{m.legacyComponent}</td>
+                                        <td className="p-3 text-slate-400 whitespace-nowrap">{CLOUD_PROVIDERS[m.provider]?.short || m.provider}</td>
+                                        <td className="p-3 font-bold text-cyan-300">
+                                          {m.service}
+                                          <span className={`ml-2 text-[8px] font-black uppercase ${m.workload ? 'text-emerald-500' : 'text-amber-400'}`}>
+                                            {m.workload ? `catalog • ${m.workload}` : 'model'}
+                                          </span>
+                                        </td>
+                                        <td className="p-3 text-slate-400">{m.rationale}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              </div>
+                            </div>
+                          )}
+
+                          {jobStepsForChunk(migrationState.jclJobs, selectedChunk.id).length > 0 && (
+                            <div className="space-y-3">
+                              <h4 className="text-[10px] font-black uppercase text-indigo-400 tracking-widest flex items-center space-x-2">
+                                <Workflow className="w-3 h-3" />
+                                <span>Scheduled In</span>
+                              </h4>
+                              <div className="space-y-1">
+                                {jobStepsForChunk(migrationState.jclJobs, selectedChunk.id).map(({ job, step }) => (
+                                  <p key={`${job.name}-${step.id}`} className="text-[10px] font-mono text-slate-400">
+                                    <span className="text-indigo-300">{job.name}</span> step <span className="text-slate-200">{step.id}</span>
+                                    {step.program && <span className="text-slate-500"> PGM={step.program}</span>}
+                                    {step.condition && <span className="text-slate-500"> — {step.condition}</span>}
+                                  </p>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+
                           {selectedChunk.groundingSources && selectedChunk.groundingSources.length > 0 && (
                             <div className="space-y-3 pt-4 border-t border-slate-800/50">
                                <h4 className="text-[10px] font-black uppercase text-sky-400 tracking-widest flex items-center space-x-2">
@@ -611,21 +1470,32 @@ const App: React.FC = () => {
                       {viewMode === 'technical' && (
                         <div className="space-y-4">
                            <div className="flex items-center justify-between">
-                              <h4 className="text-[10px] font-black uppercase text-blue-400 tracking-widest">Modern Python Implementation</h4>
+                              <h4 className="text-[10px] font-black uppercase text-blue-400 tracking-widest">COBOL ↔ {TARGETS[selectedLanguage].label} Traceability</h4>
                               <button 
-                                onClick={() => copyToClipboard(selectedChunk.pythonSource || '', 'py-copy')}
+                                onClick={() => copyToClipboard(selectedChunk.targetSource || '', 'py-copy')}
                                 className="flex items-center space-x-2 text-[9px] font-black uppercase bg-slate-800 px-3 py-1.5 rounded-lg border border-slate-700 text-slate-400 hover:text-slate-200"
                               >
                                 {copiedId === 'py-copy' ? <ClipboardCheck className="w-3.5 h-3.5 text-emerald-400" /> : <Copy className="w-3.5 h-3.5" />}
                                 <span>{copiedId === 'py-copy' ? 'Copied' : 'Copy'}</span>
                               </button>
                            </div>
-                           <div className="bg-[#050914] rounded-xl p-5 border border-slate-800 shadow-inner overflow-x-auto min-h-[300px]">
-                             <ProgressiveCodeBlock 
-                               code={selectedChunk.pythonSource} 
-                               className="code-font text-[11px] text-blue-100 leading-relaxed" 
-                             />
-                           </div>
+                           {selectedChunk.targetSource ? (
+                             <TraceabilityView chunk={selectedChunk} />
+                           ) : (
+                             <div className="bg-[#050914] rounded-xl p-5 border border-slate-800 shadow-inner overflow-x-auto min-h-[300px]">
+                               <ProgressiveCodeBlock 
+                                 code={selectedChunk.targetSource} 
+                                 className="code-font text-[11px] text-blue-100 leading-relaxed" 
+                               />
+                             </div>
+                           )}
+                        </div>
+                      )}
+
+                      {viewMode === 'data' && (
+                        <div className="space-y-4">
+                          <h4 className="text-[10px] font-black uppercase text-indigo-400 tracking-widest">Legacy Record Preview</h4>
+                          <RecordDecoderPanel chunks={migrationState.chunks} selectedChunk={selectedChunk} />
                         </div>
                       )}
 
@@ -635,7 +1505,7 @@ const App: React.FC = () => {
                              <h4 className="text-[10px] font-black uppercase text-emerald-400 tracking-widest">Verification Artifacts</h4>
                              <button 
                                onClick={() => runParityCycle(selectedChunk)}
-                               disabled={!selectedChunk.pythonSource || isRunningTests}
+                               disabled={!selectedChunk.targetSource || stageControlsLocked}
                                className="bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-2 rounded-lg font-black text-[10px] uppercase tracking-widest flex items-center space-x-2 shadow-lg disabled:opacity-20 transition-all"
                              >
                                {isRunningTests ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5 fill-current" />}
@@ -648,21 +1518,44 @@ const App: React.FC = () => {
                                <div className="p-3 bg-slate-800/30 border-b border-slate-800 flex justify-between items-center">
                                  <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Logic Trace Report</span>
                                  <div className="flex items-center space-x-3">
-                                   <span className={`text-[10px] font-black px-2 py-0.5 rounded ${selectedChunk.testResults.every(r => r.status === 'PASSED') ? 'bg-emerald-500/20 text-emerald-400' : 'bg-rose-500/20 text-rose-400'}`}>
+                                   {selectedChunk.testResults.some(r => r.origin === 'EXECUTED') ? (
+                                     <span className="text-[9px] font-black px-2 py-0.5 rounded bg-blue-500/20 text-blue-300 uppercase tracking-widest flex items-center space-x-1">
+                                       <BadgeCheck className="w-3 h-3" />
+                                       <span>Executed • pytest sandbox</span>
+                                     </span>
+                                   ) : (
+                                     <span className="text-[9px] font-black px-2 py-0.5 rounded bg-amber-500/20 text-amber-300 uppercase tracking-widest flex items-center space-x-1">
+                                       <AlertCircle className="w-3 h-3" />
+                                       <span>Simulated by model • not executed</span>
+                                     </span>
+                                   )}
+                                   <span className={`text-[10px] font-black px-2 py-0.5 rounded ${selectedChunk.testResults.every(r => r.status !== 'FAILED') ? 'bg-emerald-500/20 text-emerald-400' : 'bg-rose-500/20 text-rose-400'}`}>
                                      {selectedChunk.testResults.filter(r => r.status === 'PASSED').length} / {selectedChunk.testResults.length} PASSED
                                    </span>
                                  </div>
                                </div>
                                <div className="divide-y divide-slate-800 font-mono text-[10px]">
                                  {selectedChunk.testResults.map((res, i) => (
-                                   <div key={i} className="p-4 flex items-center space-x-4 hover:bg-white/5 transition-colors">
-                                     <div className={`w-2 h-2 rounded-full ${res.status === 'PASSED' ? 'bg-emerald-400 shadow-[0_0_8px_rgba(52,211,153,0.5)]' : 'bg-rose-500 shadow-[0_0_8px_rgba(244,63,94,0.5)]'}`} />
-                                     <span className="text-slate-500 w-16">{res.duration}</span>
-                                     <div className="flex-1 min-w-0">
-                                        <p className="text-slate-200 font-bold truncate">{res.name}</p>
-                                        {res.status === 'FAILED' && <p className="text-rose-400/70 text-[9px] mt-0.5">{res.message || 'Assertion Fault: Modern logic deviates from legacy trace.'}</p>}
+                                   <div key={i} className="p-4 hover:bg-white/5 transition-colors">
+                                     <div className="flex items-center space-x-4">
+                                       <div className={`w-2 h-2 rounded-full ${res.status === 'PASSED' ? 'bg-emerald-400 shadow-[0_0_8px_rgba(52,211,153,0.5)]' : res.status === 'SKIPPED' ? 'bg-slate-500' : 'bg-rose-500 shadow-[0_0_8px_rgba(244,63,94,0.5)]'}`} />
+                                       <span className="text-slate-500 w-16">{res.duration}</span>
+                                       <div className="flex-1 min-w-0">
+                                          <p className="text-slate-200 font-bold truncate">{res.name}</p>
+                                          {res.status === 'FAILED' && <p className="text-rose-400/70 text-[9px] mt-0.5">{res.message || 'Assertion Fault: Modern logic deviates from legacy trace.'}</p>}
+                                          {res.status === 'SKIPPED' && <p className="text-slate-500 text-[9px] mt-0.5">{res.message}</p>}
+                                       </div>
+                                       {res.status === 'FAILED' && <AlertCircle className="w-4 h-4 text-rose-500 shrink-0" />}
                                      </div>
-                                     {res.status === 'FAILED' && <AlertCircle className="w-4 h-4 text-rose-500 shrink-0" />}
+                                     {(res.traceback || res.stdout) && (
+                                       <details className="mt-2 ml-6">
+                                         <summary className="text-[9px] text-slate-500 cursor-pointer hover:text-slate-300 uppercase font-black tracking-widest">
+                                           {res.traceback ? 'Traceback' : 'Captured stdout'}
+                                         </summary>
+                                         {res.traceback && <pre className="mt-2 text-[9px] text-rose-300/80 whitespace-pre-wrap bg-black/40 p-3 rounded-lg">{res.traceback}</pre>}
+                                         {res.stdout && <pre className="mt-2 text-[9px] text-slate-400 whitespace-pre-wrap bg-black/40 p-3 rounded-lg">{res.stdout}</pre>}
+                                       </details>
+                                     )}
                                    </div>
                                  ))}
                                </div>
@@ -676,6 +1569,16 @@ const App: React.FC = () => {
                               />
                             </div>
                           )}
+
+                          <GoldenDatasetPanel
+                            chunk={selectedChunk}
+                            locked={isRunningTests}
+                            onChange={(datasets) => updateChunk(selectedChunk.id, c => ({
+                              ...c,
+                              goldenDatasets: datasets,
+                              goldenResults: c.goldenResults?.filter(r => datasets.some(d => d.id === r.datasetId))
+                            }))}
+                          />
                         </div>
                       )}
                     </div>
@@ -706,11 +1609,40 @@ const App: React.FC = () => {
                    </button>
                  )}
               </div>
+              {migrationState.dependencyGraph && migrationState.dependencyGraph.nodes.length > 0 && (
+                <div className="mb-4">
+                  <DependencyGraphView
+                    graph={migrationState.dependencyGraph}
+                    selectedChunkId={selectedChunk?.id}
+                    onSelectChunk={setSelectedChunkId}
+                  />
+                </div>
+              )}
+              {migrationState.jclJobs && migrationState.jclJobs.length > 0 && (
+                <div className="mb-4">
+                  <JclJobsPanel
+                    jobs={migrationState.jclJobs}
+                    chunks={migrationState.chunks}
+                    projectName={projectName}
+                    selectedChunkId={selectedChunk?.id}
+                    onSelectChunk={setSelectedChunkId}
+                  />
+                </div>
+              )}
+              {migrationState.chunks.some(c => c.businessRules?.length) && (
+                <div className="mb-4">
+                  <BusinessRuleCatalog
+                    chunks={migrationState.chunks}
+                    selectedChunkId={selectedChunk?.id}
+                    onSelectChunk={setSelectedChunkId}
+                  />
+                </div>
+              )}
               {migrationState.overallPlan ? (
                 <div className="text-slate-400 text-[11px] whitespace-pre-wrap leading-relaxed max-h-48 overflow-y-auto pr-2 custom-scrollbar font-mono bg-black/20 p-4 rounded-xl border border-white/5">
                   {migrationState.overallPlan}
                 </div>
-              ) : (
+              ) : !migrationState.dependencyGraph && (
                 <div className="h-24 flex items-center justify-center text-slate-700 border border-slate-800 border-dashed rounded-xl">
                   <p className="text-[10px] font-black uppercase tracking-widest">Awaiting system audit results...</p>
                 </div>
@@ -734,7 +1666,7 @@ const App: React.FC = () => {
               <span>Run System Diagnostics</span>
             </button>
          </div>
-         <div className="opacity-40 font-mono">GEMINI-3 PRO • ENTERPRISE CORE v1.15</div>
+         <div className="opacity-40 font-mono">{providerSettings.stages.transform.model.toUpperCase()} • ENTERPRISE CORE v1.15</div>
       </footer>
     </div>
   );
@@ -0,0 +1,143 @@
+
+import React, { useEffect, useState } from 'react';
+import { Download, ShieldAlert, ShieldCheck, X } from 'lucide-react';
+import { AuditEntry, AuditVerification } from '../types';
+import { PROVIDER_LABELS } from '../services/providers';
+import { getAuditOperator, loadAuditTrail, setAuditOperator, subscribeAudit, verifyAuditChain } from '../services/auditLog';
+
+const AuditTrailPanel: React.FC<{
+  projectId: string | null;
+  onExport: () => void;
+  onClose: () => void;
+}> = ({ projectId, onExport, onClose }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [operator, setOperator] = useState(getAuditOperator());
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!projectId) return;
+    let cancelled = false;
+    const refresh = async () => {
+      const trail = await loadAuditTrail(projectId);
+      const result = await verifyAuditChain(trail);
+      if (cancelled) return;
+      setEntries(trail);
+      setVerification(result);
+    };
+    refresh().catch(() => setVerification(null));
+    const unsubscribe = subscribeAudit(() => { refresh().catch(() => setVerification(null)); });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [projectId]);
+
+  return (
+    <div className="bg-slate-900 rounded-2xl border border-slate-800 shadow-xl p-5 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center space-x-2">
+          {verification && !verification.valid ? <ShieldAlert className="w-3.5 h-3.5 text-rose-400" /> : <ShieldCheck className="w-3.5 h-3.5 text-emerald-400" />}
+          <span>Audit Trail</span>
+          <span className="text-slate-600">{entries.length} model calls</span>
+        </span>
+        <div className="flex items-center space-x-2">
+          <input
+            value={operator}
+            onChange={e => {
+              setOperator(e.target.value);
+              setAuditOperator(e.target.value.trim());
+            }}
+            placeholder="Operator name"
+            title="Recorded as the actor on every model call made from this browser"
+            className="bg-black/40 border border-slate-700 rounded-lg px-3 py-1.5 text-[10px] font-mono text-slate-200 w-40 focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={onExport}
+            disabled={!projectId}
+            className="text-[9px] font-black uppercase bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg border border-slate-700 transition-all disabled:opacity-20 flex items-center space-x-1"
+          >
+            <Download className="w-3 h-3" />
+            <span>Evidence Pack</span>
+          </button>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-300 p-1">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {verification && (
+        <p className={`text-[10px] font-mono ${verification.valid ? 'text-emerald-400' : 'text-rose-400'}`}>
+          {verification.valid
+            ? `Chain verified. Head ${verification.headHash.substring(0, 16)}…`
+            : `Chain broken at entry ${verification.brokenAt}: ${verification.reason}.`}
+        </p>
+      )}
+
+      <div className="overflow-x-auto max-h-72 rounded-xl border border-slate-800 bg-black/20 custom-scrollbar">
+        <table className="w-full text-[10px] text-left">
+          <thead className="bg-slate-800 text-slate-500 font-black uppercase sticky top-0">
+            <tr>
+              <th className="p-3">#</th>
+              <th className="p-3">Started</th>
+              <th className="p-3">Stage</th>
+              <th className="p-3">Subject</th>
+              <th className="p-3">Model</th>
+              <th className="p-3">Settings</th>
+              <th className="p-3">Actor</th>
+              <th className="p-3">Hash</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800 font-mono">
+            {[...entries].reverse().map(entry => (
+              <React.Fragment key={entry.sequence}>
+                <tr
+                  onClick={() => setExpanded(expanded === entry.sequence ? null : entry.sequence)}
+                  className={`cursor-pointer transition-colors ${entry.error ? 'bg-rose-500/5 hover:bg-rose-500/10' : 'hover:bg-white/5'}`}
+                >
+                  <td className="p-3 text-slate-500">{entry.sequence}</td>
+                  <td className="p-3 text-slate-400 whitespace-nowrap">{new Date(entry.startedAt).toLocaleString()}</td>
+                  <td className="p-3 text-blue-300 uppercase">{entry.stage}</td>
+                  <td className="p-3 text-slate-300">{entry.subject || '—'}</td>
+                  <td className="p-3 text-slate-300 whitespace-nowrap">
+                    {entry.model}
+                    <span className="ml-1 text-slate-600">{PROVIDER_LABELS[entry.provider]}</span>
+                    {entry.replayed && <span className="ml-1 text-[8px] font-black uppercase text-emerald-400">replayed</span>}
+                  </td>
+                  <td className="p-3 text-slate-500 whitespace-nowrap">
+                    {[
+                      entry.temperature !== undefined && `temp ${entry.temperature}`,
+                      entry.thinkingBudget !== undefined && `think ${entry.thinkingBudget}`,
+                      entry.useSearch && 'search'
+                    ].filter(Boolean).join(' · ') || 'defaults'}
+                  </td>
+                  <td className="p-3 text-slate-400">{entry.actor}</td>
+                  <td className="p-3 text-slate-600" title={entry.hash}>{entry.hash.substring(0, 10)}</td>
+                </tr>
+                {expanded === entry.sequence && (
+                  <tr>
+                    <td colSpan={8} className="p-3 space-y-2 bg-black/30">
+                      <p className="text-[9px] font-black uppercase text-slate-500">Prompt</p>
+                      <pre className="text-slate-400 whitespace-pre-wrap max-h-40 overflow-y-auto custom-scrollbar">{entry.prompt}</pre>
+                      <p className="text-[9px] font-black uppercase text-slate-500">{entry.error ? 'Error' : 'Response'}</p>
+                      <pre className={`whitespace-pre-wrap max-h-40 overflow-y-auto custom-scrollbar ${entry.error ? 'text-rose-300' : 'text-slate-300'}`}>
+                        {entry.error || entry.response?.text}
+                      </pre>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+            {!entries.length && (
+              <tr>
+                <td colSpan={8} className="p-4 text-center text-slate-600">No model calls recorded for this project yet.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AuditTrailPanel;
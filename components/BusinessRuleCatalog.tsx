@@ -0,0 +1,102 @@
+
+import React, { useMemo, useState } from 'react';
+import { BookOpen, FileCode, Search } from 'lucide-react';
+import { BusinessRuleCategory, CodeChunk } from '../types';
+import { RULE_CATEGORIES, matchesRuleQuery, ruleCoverage } from '../services/businessRules';
+import { CATEGORY_STYLES } from './BusinessRulesMatrix';
+
+const BusinessRuleCatalog: React.FC<{
+  chunks: CodeChunk[];
+  selectedChunkId?: string | null;
+  onSelectChunk?: (chunkId: string) => void;
+}> = ({ chunks, selectedChunkId, onSelectChunk }) => {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<BusinessRuleCategory | 'ALL'>('ALL');
+  const [untestedOnly, setUntestedOnly] = useState(false);
+
+  const entries = useMemo(
+    () => chunks.flatMap(chunk => ruleCoverage(chunk).map(coverage => ({ chunk, ...coverage }))),
+    [chunks]
+  );
+  const visible = entries.filter(e =>
+    (category === 'ALL' || e.rule.category === category) &&
+    (!untestedOnly || !e.tests.length) &&
+    matchesRuleQuery(e.rule, e.chunk, query)
+  );
+  if (!entries.length) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <BookOpen className="w-3.5 h-3.5 text-blue-400" />
+        <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Business Rule Catalog</span>
+        <span className="text-[9px] text-slate-600 font-black uppercase">
+          {entries.length} rules · {entries.filter(e => !e.tests.length).length} untested
+        </span>
+        <div className="flex-1" />
+        <div className="relative">
+          <Search className="w-3 h-3 text-slate-500 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search rules, paragraphs, symbols..."
+            className="bg-black/40 border border-slate-700 rounded-lg pl-6 pr-2 py-1 text-[10px] font-mono text-slate-200 w-56 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <select
+          value={category}
+          onChange={e => setCategory(e.target.value as BusinessRuleCategory | 'ALL')}
+          className="bg-black/40 border border-slate-700 rounded-lg px-2 py-1 text-[10px] font-mono text-slate-200 focus:outline-none focus:border-blue-500"
+        >
+          <option value="ALL">All categories</option>
+          {RULE_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <label className="flex items-center space-x-1 text-[9px] font-black uppercase text-slate-500">
+          <input type="checkbox" checked={untestedOnly} onChange={e => setUntestedOnly(e.target.checked)} />
+          <span>Untested only</span>
+        </label>
+      </div>
+
+      <div className="overflow-auto max-h-64 rounded-lg border border-slate-800 custom-scrollbar">
+        <table className="w-full text-[10px] text-left">
+          <thead className="bg-slate-800 text-slate-500 font-black uppercase sticky top-0">
+            <tr>
+              <th className="p-2">Rule</th>
+              <th className="p-2">Description</th>
+              <th className="p-2">Module</th>
+              <th className="p-2">Tests</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {visible.map(({ chunk, rule, tests }) => (
+              <tr key={`${chunk.id}-${rule.id}`} className={`hover:bg-white/5 ${chunk.id === selectedChunkId ? 'bg-blue-600/10' : ''}`}>
+                <td className="p-2 font-mono whitespace-nowrap">
+                  <span className="text-slate-200">{rule.id}</span>
+                  <span className={`ml-2 px-1.5 py-0.5 rounded text-[8px] font-black uppercase ${CATEGORY_STYLES[rule.category]}`}>{rule.category}</span>
+                </td>
+                <td className="p-2 text-slate-300">{rule.description}</td>
+                <td className="p-2">
+                  <button onClick={() => onSelectChunk?.(chunk.id)} className="flex items-center space-x-1 text-blue-400 hover:text-blue-300 font-mono">
+                    <FileCode className="w-3 h-3" />
+                    <span>{chunk.name}</span>
+                  </button>
+                  {rule.cobolParagraph && <div className="text-slate-600 font-mono">{rule.cobolParagraph}</div>}
+                </td>
+                <td className={`p-2 font-mono whitespace-nowrap ${tests.length ? 'text-emerald-400' : 'text-rose-400'}`}>
+                  {tests.length ? `${tests.length} test${tests.length > 1 ? 's' : ''}` : 'untested'}
+                </td>
+              </tr>
+            ))}
+            {!visible.length && (
+              <tr>
+                <td colSpan={4} className="p-4 text-center text-slate-600 font-mono">No rules match.</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BusinessRuleCatalog;
@@ -0,0 +1,96 @@
+
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { BusinessRuleCategory, CodeChunk, TestResult } from '../types';
+import { ruleCoverage } from '../services/businessRules';
+
+export const CATEGORY_STYLES: Record<BusinessRuleCategory, string> = {
+  CALCULATION: 'text-cyan-300 bg-cyan-500/10',
+  VALIDATION: 'text-amber-300 bg-amber-500/10',
+  ROUTING: 'text-violet-300 bg-violet-500/10'
+};
+
+const STATUS_STYLES: Record<TestResult['status'], string> = {
+  PASSED: 'bg-emerald-500',
+  FAILED: 'bg-rose-500',
+  SKIPPED: 'bg-slate-500'
+};
+
+const span = (start?: number, end?: number, offset = 0) => start === undefined ? undefined : `L${start + offset}-${end! + offset}`;
+
+const BusinessRulesMatrix: React.FC<{ chunk: CodeChunk }> = ({ chunk }) => {
+  const coverage = ruleCoverage(chunk);
+  if (!coverage.length) {
+    return <p className="text-[10px] text-slate-500 font-mono">No business rules were extracted for this module.</p>;
+  }
+  const tests = [...new Set(coverage.flatMap(c => c.tests.map(t => t.name)))];
+  const untested = coverage.filter(c => !c.tests.length).length;
+  const cobolOffset = (chunk.sourceRange?.startLine ?? 1) - 1;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-[10px] font-mono text-slate-400">
+        {coverage.length} rules · {tests.length} covering tests
+        {untested > 0 && <span className="ml-2 text-rose-400">{untested} untested</span>}
+        {!chunk.unitTest && <span className="ml-2 text-slate-600">no test suite yet</span>}
+      </p>
+      <div className="overflow-x-auto max-h-80 rounded-xl border border-slate-800 bg-black/20 custom-scrollbar">
+        <table className="w-full text-[10px] text-left">
+          <thead className="bg-slate-800 text-slate-500 font-black uppercase sticky top-0">
+            <tr>
+              <th className="p-3">Rule</th>
+              <th className="p-3">Description</th>
+              <th className="p-3">COBOL</th>
+              <th className="p-3">Implemented By</th>
+              {tests.map((name, i) => (
+                <th key={name} className="p-2 text-center" title={name}>T{i + 1}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {coverage.map(({ rule, tests: covering }) => (
+              <tr key={rule.id} className={`transition-colors ${covering.length ? 'hover:bg-white/5' : 'bg-rose-500/5 hover:bg-rose-500/10'}`}>
+                <td className="p-3 font-mono whitespace-nowrap">
+                  <div className="text-slate-200">{rule.id}</div>
+                  <span className={`inline-block mt-1 px-1.5 py-0.5 rounded text-[8px] font-black uppercase ${CATEGORY_STYLES[rule.category]}`}>{rule.category}</span>
+                </td>
+                <td className="p-3 text-slate-300">
+                  {rule.description}
+                  {!covering.length && (
+                    <span className="ml-2 inline-flex items-center space-x-1 text-[8px] font-black uppercase text-rose-400">
+                      <AlertCircle className="w-3 h-3" />
+                      <span>untested</span>
+                    </span>
+                  )}
+                </td>
+                <td className="p-3 font-mono text-slate-400 whitespace-nowrap">
+                  {rule.cobolParagraph || '—'}
+                  {span(rule.cobolStartLine, rule.cobolEndLine, cobolOffset) && <div className="text-slate-600">{span(rule.cobolStartLine, rule.cobolEndLine, cobolOffset)}</div>}
+                </td>
+                <td className="p-3 font-mono text-blue-300 whitespace-nowrap">
+                  {rule.targetSymbol || <span className="text-slate-600">—</span>}
+                  {rule.targetSymbol && <div className="text-slate-600">{span(rule.targetStartLine, rule.targetEndLine) || 'not found'}</div>}
+                </td>
+                {tests.map(name => {
+                  const test = covering.find(t => t.name === name);
+                  return (
+                    <td key={name} className="p-2 text-center" title={test ? `${name}${test.status ? ` — ${test.status}` : ''}` : undefined}>
+                      {test && <span className={`inline-block w-2 h-2 rounded-full ${test.status ? STATUS_STYLES[test.status] : 'bg-blue-400'}`} />}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {tests.length > 0 && (
+        <p className="text-[9px] font-mono text-slate-600">
+          {tests.map((name, i) => `T${i + 1} ${name}`).join(' · ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BusinessRulesMatrix;
@@ -0,0 +1,171 @@
+
+import React, { useMemo } from 'react';
+import { AlertCircle, Layers } from 'lucide-react';
+import { DependencyGraph, DependencyKind, DependencyNode } from '../types';
+
+const NODE_WIDTH = 150;
+const NODE_HEIGHT = 30;
+const COLUMN_GAP = 70;
+const ROW_GAP = 14;
+const PADDING = 16;
+
+const EDGE_COLORS: Record<DependencyKind, string> = {
+  CALL: '#60a5fa',
+  DYNAMIC_CALL: '#a78bfa',
+  CICS: '#f59e0b',
+  COPY: '#475569'
+};
+
+interface PlacedNode {
+  key: string;
+  label: string;
+  sublabel: string;
+  x: number;
+  y: number;
+  chunkId?: string;
+  missing?: boolean;
+  inCycle?: boolean;
+}
+
+const DependencyGraphView: React.FC<{
+  graph: DependencyGraph;
+  selectedChunkId?: string | null;
+  onSelectChunk?: (chunkId: string) => void;
+}> = ({ graph, selectedChunkId, onSelectChunk }) => {
+  const layout = useMemo(() => {
+    const placed = new Map<string, PlacedNode>();
+    const cyclic = new Set(graph.cycles.flat());
+    const nodeById = new Map<string, DependencyNode>(graph.nodes.map(n => [n.chunkId, n]));
+
+    graph.migrationWaves.forEach((wave, col) => {
+      wave.forEach((chunkId, row) => {
+        const node = nodeById.get(chunkId);
+        if (!node) return;
+        placed.set(chunkId, {
+          key: chunkId,
+          label: node.programId || node.name,
+          sublabel: node.artifactType === 'COPYBOOK' ? 'COPYBOOK' : node.usesCommarea ? 'COMMAREA' : `WAVE ${col + 1}`,
+          x: PADDING + col * (NODE_WIDTH + COLUMN_GAP),
+          y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+          chunkId,
+          inCycle: cyclic.has(chunkId)
+        });
+      });
+    });
+
+    const missingCol = graph.migrationWaves.length;
+    let missingRow = 0;
+    graph.edges.filter(e => !e.resolved).forEach(edge => {
+      const key = `missing:${edge.kind === 'COPY' ? 'COPY' : 'PGM'}:${edge.target}`;
+      if (placed.has(key)) return;
+      placed.set(key, {
+        key,
+        label: edge.target,
+        sublabel: edge.kind === 'COPY' ? 'MISSING COPYBOOK' : edge.kind === 'DYNAMIC_CALL' ? 'UNRESOLVED DYNAMIC' : 'UNRESOLVED CALL',
+        x: PADDING + missingCol * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + missingRow++ * (NODE_HEIGHT + ROW_GAP),
+        missing: true
+      });
+    });
+
+    const links = graph.edges
+      .filter(e => !e.system)
+      .map((edge, i) => {
+        const from = placed.get(edge.from);
+        const to = edge.targetChunkId
+          ? placed.get(edge.targetChunkId)
+          : placed.get(`missing:${edge.kind === 'COPY' ? 'COPY' : 'PGM'}:${edge.target}`);
+        return from && to && from !== to ? { key: `${i}`, from, to, edge } : null;
+      })
+      .filter((l): l is NonNullable<typeof l> => l !== null);
+
+    const nodes = Array.from(placed.values());
+    const width = Math.max(...nodes.map(n => n.x + NODE_WIDTH), 0) + PADDING;
+    const height = Math.max(...nodes.map(n => n.y + NODE_HEIGHT), 0) + PADDING;
+    return { nodes, links, width, height };
+  }, [graph]);
+
+  const unresolved = graph.edges.filter(e => !e.resolved);
+  const nameOf = (chunkId: string) => graph.nodes.find(n => n.chunkId === chunkId)?.name || chunkId;
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto rounded-xl border border-white/5 bg-black/20">
+        <svg width={layout.width} height={layout.height} className="block">
+          {layout.links.map(({ key, from, to, edge }) => {
+            const x1 = from.x;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x + (to.x < from.x ? NODE_WIDTH : 0);
+            const y2 = to.y + NODE_HEIGHT / 2;
+            const mid = (x1 + x2) / 2;
+            return (
+              <path
+                key={key}
+                d={`M ${x1} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${x2} ${y2}`}
+                fill="none"
+                stroke={edge.resolved ? EDGE_COLORS[edge.kind] : '#f43f5e'}
+                strokeWidth={1.2}
+                strokeDasharray={edge.kind === 'COPY' || !edge.resolved ? '4 3' : undefined}
+                opacity={0.7}
+              />
+            );
+          })}
+          {layout.nodes.map(node => (
+            <g
+              key={node.key}
+              transform={`translate(${node.x}, ${node.y})`}
+              onClick={() => node.chunkId && onSelectChunk?.(node.chunkId)}
+              className={node.chunkId ? 'cursor-pointer' : undefined}
+            >
+              <rect
+                width={NODE_WIDTH}
+                height={NODE_HEIGHT}
+                rx={8}
+                fill={node.missing ? 'rgba(244,63,94,0.08)' : node.chunkId === selectedChunkId ? 'rgba(37,99,235,0.25)' : '#0f172a'}
+                stroke={node.missing ? '#f43f5e' : node.inCycle ? '#f59e0b' : node.chunkId === selectedChunkId ? '#3b82f6' : '#334155'}
+                strokeDasharray={node.missing ? '4 3' : undefined}
+              />
+              <text x={10} y={13} fontSize={9} fontWeight={800} fill={node.missing ? '#fda4af' : '#e2e8f0'} className="font-mono">
+                {node.label.length > 22 ? `${node.label.slice(0, 21)}…` : node.label}
+              </text>
+              <text x={10} y={24} fontSize={7} fontWeight={700} fill="#64748b" letterSpacing={1}>
+                {node.sublabel}
+              </text>
+            </g>
+          ))}
+        </svg>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-[9px] font-black uppercase tracking-widest">
+        {graph.migrationWaves.map((wave, i) => (
+          <span key={i} className="flex items-center space-x-1.5 bg-slate-800/60 border border-slate-700 px-2 py-1 rounded-lg text-slate-400">
+            <Layers className="w-3 h-3 text-blue-400" />
+            <span>Wave {i + 1}: {wave.length} {wave.length === 1 ? 'module' : 'modules'}</span>
+          </span>
+        ))}
+      </div>
+
+      {(unresolved.length > 0 || graph.cycles.length > 0) && (
+        <div className="space-y-1.5 font-mono text-[10px]">
+          {graph.cycles.map((cycle, i) => (
+            <p key={`cycle-${i}`} className="flex items-start space-x-2 text-amber-400">
+              <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+              <span>Mutual dependency (migrate together): {cycle.map(nameOf).join(' ⇄ ')}</span>
+            </p>
+          ))}
+          {unresolved.map((edge, i) => (
+            <p key={`unresolved-${i}`} className="flex items-start space-x-2 text-rose-400">
+              <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+              <span>
+                {nameOf(edge.from)} line {edge.line}: {edge.kind === 'COPY' ? `missing copybook ${edge.target}` :
+                  edge.kind === 'DYNAMIC_CALL' ? `dynamic call via ${edge.via} could not be resolved` : `call to unknown program ${edge.target}`}
+              </span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DependencyGraphView;
@@ -0,0 +1,251 @@
+
+import React, { useRef, useState } from 'react';
+import { AlertCircle, BadgeCheck, Database, Paperclip, Plus, Trash2, X } from 'lucide-react';
+import { CodeChunk, CodePage, GoldenDataset, GoldenFile, GoldenOutputFormat, GoldenParityReport, RecordFormat } from '../types';
+import { CODE_PAGES, recordLayouts } from '../services/recordDecoder';
+import { defaultDriver, toGoldenFile } from '../services/goldenParity';
+import { TARGETS, chunkLanguage } from '../services/targets';
+
+const inputClass = "bg-black/40 border border-slate-700 rounded-lg px-3 py-2 text-[10px] font-mono text-slate-200 focus:outline-none focus:border-blue-500 disabled:opacity-30";
+
+const readFiles = (files: FileList | null) =>
+  Promise.all(Array.from(files || []).map(async file => toGoldenFile(file.name, new Uint8Array(await file.arrayBuffer()))));
+
+const formatBytes = (size: number) => size < 1024 ? `${size} B` : size < 1048576 ? `${(size / 1024).toFixed(1)} KB` : `${(size / 1048576).toFixed(1)} MB`;
+
+const ReportView: React.FC<{ report: GoldenParityReport }> = ({ report }) => (
+  <div className="space-y-2">
+    <div className="flex flex-wrap items-center gap-3 text-[9px] font-black uppercase tracking-widest">
+      {report.status === 'MATCH' ? (
+        <span className="px-2 py-0.5 rounded bg-emerald-500/20 text-emerald-400 flex items-center space-x-1">
+          <BadgeCheck className="w-3 h-3" />
+          <span>Output matches mainframe</span>
+        </span>
+      ) : (
+        <span className="px-2 py-0.5 rounded bg-rose-500/20 text-rose-400 flex items-center space-x-1">
+          <AlertCircle className="w-3 h-3" />
+          <span>{report.status === 'ERROR' ? 'Run failed' : 'Output deviates'}</span>
+        </span>
+      )}
+      {report.status !== 'ERROR' && (
+        <>
+          <span className="text-slate-500">{report.matchedRecords} / {report.expectedRecords} records match</span>
+          <span className="text-slate-500">{report.actualRecords} produced</span>
+          <span className="text-slate-500">{report.fieldsCompared} fields compared</span>
+        </>
+      )}
+      <span className="text-slate-600">{new Date(report.ranAt).toLocaleString()}</span>
+    </div>
+    {report.error && <p className="text-[10px] text-rose-400 font-mono">{report.error}</p>}
+    {report.mismatches.length > 0 && (
+      <div className="overflow-auto max-h-64 rounded-lg border border-slate-800 custom-scrollbar">
+        <table className="w-full text-[10px] text-left font-mono">
+          <thead className="bg-slate-800 text-slate-500 font-black uppercase sticky top-0">
+            <tr>
+              <th className="p-2">Record</th>
+              <th className="p-2">Field</th>
+              <th className="p-2">Mainframe</th>
+              <th className="p-2">Python</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {report.mismatches.flatMap(m => m.kind === 'FIELD'
+              ? m.fields.map((f, i) => (
+                  <tr key={`${m.record}-${i}`} className="hover:bg-white/5">
+                    <td className="p-2 text-slate-500">{i === 0 ? m.record : ''}</td>
+                    <td className="p-2 text-blue-300">{f.field}</td>
+                    <td className="p-2 text-slate-300 whitespace-pre">{f.expected}</td>
+                    <td className="p-2 text-rose-300 whitespace-pre">{f.actual}</td>
+                  </tr>
+                ))
+              : [(
+                  <tr key={m.record} className="hover:bg-white/5">
+                    <td className="p-2 text-slate-500">{m.record}</td>
+                    <td colSpan={3} className="p-2 text-rose-300">
+                      {m.kind === 'MISSING' ? 'Record missing from Python output' : 'Extra record in Python output'}
+                    </td>
+                  </tr>
+                )]
+            )}
+          </tbody>
+        </table>
+      </div>
+    )}
+    {report.truncated && <p className="text-[9px] text-slate-500 font-mono">Only the first {report.mismatches.length} deviating records are listed.</p>}
+    {report.stdout && (
+      <details>
+        <summary className="text-[9px] text-slate-500 cursor-pointer hover:text-slate-300 uppercase font-black tracking-widest">Driver output</summary>
+        <pre className="mt-2 text-[9px] text-slate-400 whitespace-pre-wrap bg-black/40 p-3 rounded-lg">{report.stdout}</pre>
+      </details>
+    )}
+  </div>
+);
+
+const GoldenDatasetPanel: React.FC<{
+  chunk: CodeChunk;
+  locked: boolean;
+  onChange: (datasets: GoldenDataset[]) => void;
+}> = ({ chunk, locked, onChange }) => {
+  const layouts = recordLayouts(chunk.dataLayout || []);
+  const inputsRef = useRef<HTMLInputElement>(null);
+  const expectedRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<Omit<GoldenDataset, 'id' | 'createdAt' | 'expected'> & { expected?: GoldenFile } | null>(null);
+  const datasets = chunk.goldenDatasets || [];
+  // Golden runs execute in the Python parity runner.
+  const language = chunkLanguage(chunk);
+
+  const startDraft = () => setDraft({
+    name: `Golden set ${datasets.length + 1}`,
+    inputs: [],
+    recordPath: (layouts.find(l => l.section === 'FILE') || layouts[0])?.path || '',
+    codePage: 'CP037',
+    recordFormat: 'FIXED',
+    outputFormat: 'EBCDIC',
+    driver: defaultDriver(chunk)
+  });
+
+  const saveDraft = () => {
+    if (!draft?.expected || !draft.recordPath) return;
+    const id = `golden-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 6)}`;
+    onChange([...datasets, { ...draft, expected: draft.expected, id, createdAt: new Date().toISOString() }]);
+    setDraft(null);
+  };
+
+  const updateDataset = (id: string, patch: Partial<GoldenDataset>) =>
+    onChange(datasets.map(d => d.id === id ? { ...d, ...patch } : d));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-[10px] font-black uppercase text-emerald-400 tracking-widest flex items-center space-x-2">
+          <Database className="w-3 h-3" />
+          <span>Golden Datasets</span>
+        </h4>
+        {!draft && (
+          <button
+            onClick={startDraft}
+            disabled={locked || !layouts.length || language !== 'python'}
+            title={language !== 'python' ? 'Golden runs need a Python target' : layouts.length ? 'Attach captured mainframe input and output files' : 'This module has no parsed record layout'}
+            className="flex items-center space-x-2 text-[9px] font-black uppercase bg-slate-800 hover:bg-slate-700 px-3 py-1.5 rounded-lg border border-slate-700 text-slate-300 disabled:opacity-20"
+          >
+            <Plus className="w-3 h-3" />
+            <span>Attach</span>
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="bg-black/30 border border-slate-800 rounded-xl p-4 space-y-3">
+          <input type="file" multiple ref={inputsRef} className="hidden" onChange={async (e) => {
+            const files = await readFiles(e.target.files);
+            e.target.value = '';
+            setDraft(d => d && { ...d, inputs: [...d.inputs, ...files] });
+          }} />
+          <input type="file" ref={expectedRef} className="hidden" onChange={async (e) => {
+            const [file] = await readFiles(e.target.files);
+            e.target.value = '';
+            if (file) setDraft(d => d && { ...d, expected: file });
+          }} />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} placeholder="Dataset name" />
+            <select value={draft.recordPath} onChange={(e) => setDraft({ ...draft, recordPath: e.target.value })} className={inputClass}>
+              {layouts.map(l => <option key={`${l.path}-${l.line}`} value={l.path}>{l.name} ({l.length} bytes)</option>)}
+            </select>
+            <button onClick={() => inputsRef.current?.click()} className={`${inputClass} flex items-center space-x-2 text-left`}>
+              <Paperclip className="w-3 h-3 shrink-0" />
+              <span className="truncate">{draft.inputs.length ? draft.inputs.map(f => f.name).join(', ') : 'Captured input files'}</span>
+            </button>
+            <button onClick={() => expectedRef.current?.click()} className={`${inputClass} flex items-center space-x-2 text-left`}>
+              <Paperclip className="w-3 h-3 shrink-0" />
+              <span className="truncate">{draft.expected ? draft.expected.name : 'Mainframe output file'}</span>
+            </button>
+            <select value={draft.codePage} onChange={(e) => setDraft({ ...draft, codePage: e.target.value as CodePage })} className={inputClass}>
+              {CODE_PAGES.map(cp => <option key={cp} value={cp}>{cp}</option>)}
+            </select>
+            <select value={draft.recordFormat} onChange={(e) => setDraft({ ...draft, recordFormat: e.target.value as RecordFormat })} className={inputClass}>
+              <option value="FIXED">Fixed length</option>
+              <option value="VARIABLE">Variable (RDW)</option>
+            </select>
+            <select value={draft.outputFormat} onChange={(e) => setDraft({ ...draft, outputFormat: e.target.value as GoldenOutputFormat })} className={`${inputClass} sm:col-span-2`}>
+              <option value="EBCDIC">Python writes the same EBCDIC record layout</option>
+              <option value="JSONL">Python writes one JSON object per record</option>
+            </select>
+          </div>
+          <textarea
+            value={draft.driver}
+            onChange={(e) => setDraft({ ...draft, driver: e.target.value })}
+            spellCheck={false}
+            className={`${inputClass} w-full h-40 resize-y`}
+          />
+          <div className="flex justify-end space-x-2">
+            <button onClick={() => setDraft(null)} className="flex items-center space-x-1 text-[9px] font-black uppercase text-slate-500 hover:text-slate-300 px-3 py-1.5">
+              <X className="w-3 h-3" />
+              <span>Cancel</span>
+            </button>
+            <button
+              onClick={saveDraft}
+              disabled={!draft.expected || !draft.recordPath}
+              className="text-[9px] font-black uppercase bg-emerald-600 hover:bg-emerald-500 text-white px-3 py-1.5 rounded-lg disabled:opacity-20"
+            >
+              Save Dataset
+            </button>
+          </div>
+        </div>
+      )}
+
+      {language !== 'python' && (
+        <p className="text-[9px] text-amber-400/80 italic">
+          This module was recovered as {TARGETS[language].label}. Golden runs execute Python in the local runner, so attached datasets are reported as failed until the module is regenerated with a Python target.
+        </p>
+      )}
+
+      {datasets.length === 0 && !draft && language === 'python' && (
+        <p className="text-[9px] text-slate-600 italic">
+          Attach captured mainframe inputs and outputs to prove the Python matches production, record by record. Golden runs are part of the parity cycle and need the local runner.
+        </p>
+      )}
+
+      {datasets.map(dataset => {
+        const report = chunk.goldenResults?.find(r => r.datasetId === dataset.id);
+        return (
+          <div key={dataset.id} className="bg-black/30 border border-slate-800 rounded-xl p-4 space-y-3">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-[11px] font-bold text-slate-200 truncate">{dataset.name}</p>
+                <p className="text-[9px] font-mono text-slate-500 truncate">
+                  {dataset.inputs.map(f => `${f.name} (${formatBytes(f.size)})`).join(', ') || 'no inputs'} → {dataset.expected.name} ({formatBytes(dataset.expected.size)})
+                </p>
+                <p className="text-[9px] font-mono text-slate-600">
+                  {dataset.recordPath} • {dataset.codePage} • {dataset.recordFormat === 'FIXED' ? 'fixed' : 'RDW'} • Python output {dataset.outputFormat}
+                </p>
+              </div>
+              <button
+                onClick={() => onChange(datasets.filter(d => d.id !== dataset.id))}
+                disabled={locked}
+                className="text-slate-600 hover:text-rose-400 disabled:opacity-20 shrink-0"
+                title="Remove dataset"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <details>
+              <summary className="text-[9px] text-slate-500 cursor-pointer hover:text-slate-300 uppercase font-black tracking-widest">Driver</summary>
+              <textarea
+                defaultValue={dataset.driver}
+                onBlur={(e) => e.target.value !== dataset.driver && updateDataset(dataset.id, { driver: e.target.value })}
+                disabled={locked}
+                spellCheck={false}
+                className={`${inputClass} w-full h-40 mt-2 resize-y`}
+              />
+            </details>
+            {report ? <ReportView report={report} /> : (
+              <p className="text-[9px] text-slate-600 uppercase font-black tracking-widest">Not run yet • Run Parity Cycle to compare</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GoldenDatasetPanel;
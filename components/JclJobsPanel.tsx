@@ -0,0 +1,157 @@
+
+import React, { useState } from 'react';
+import { AlertCircle, Download, FileCode, Workflow } from 'lucide-react';
+import { CodeChunk, JclDatasetAccess, JclJob } from '../types';
+import { describeCondition, SYSTEM_UTILITIES } from '../services/jclParser';
+import { buildAirflowDag, buildCloudWorkflow, workflowFileName } from '../services/jclWorkflow';
+
+const ACCESS_STYLES: Record<JclDatasetAccess, string> = {
+  READ: 'text-slate-400',
+  WRITE: 'text-amber-400',
+  CREATE: 'text-emerald-400',
+  DELETE: 'text-rose-400'
+};
+
+const download = (content: string, fileName: string) => {
+  const blob = new Blob([content], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const JclJobsPanel: React.FC<{
+  jobs: JclJob[];
+  chunks: CodeChunk[];
+  projectName: string;
+  selectedChunkId?: string | null;
+  onSelectChunk?: (chunkId: string) => void;
+}> = ({ jobs, chunks, projectName, selectedChunkId, onSelectChunk }) => {
+  const [jobIndex, setJobIndex] = useState(0);
+  const job = jobs[Math.min(jobIndex, jobs.length - 1)];
+  if (!job) return null;
+  const chunkName = (id?: string) => chunks.find(c => c.id === id)?.name;
+  const feeds = job.edges.filter(e => e.kind === 'DATASET');
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <Workflow className="w-3.5 h-3.5 text-blue-400" />
+          {jobs.length > 1 ? (
+            <select
+              value={jobIndex}
+              onChange={e => setJobIndex(Number(e.target.value))}
+              className="bg-black/40 border border-slate-700 rounded-lg px-2 py-1 text-[10px] font-mono text-slate-200 focus:outline-none focus:border-blue-500"
+            >
+              {jobs.map((j, i) => <option key={`${j.name}-${i}`} value={i}>{j.name}</option>)}
+            </select>
+          ) : (
+            <span className="text-[10px] font-mono text-slate-200">{job.name}</span>
+          )}
+          {job.sourceFile && <span className="text-[9px] text-slate-500 font-mono">{job.sourceFile}</span>}
+          <span className="text-[9px] text-slate-600 font-black uppercase">{job.steps.length} steps</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => download(buildAirflowDag(job, chunks, projectName), workflowFileName(job, 'airflow'))}
+            className="flex items-center space-x-1 px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-[9px] font-black uppercase text-slate-300"
+          >
+            <Download className="w-3 h-3" />
+            <span>Airflow DAG</span>
+          </button>
+          <button
+            onClick={() => download(buildCloudWorkflow(job, chunks), workflowFileName(job, 'workflows'))}
+            className="flex items-center space-x-1 px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-[9px] font-black uppercase text-slate-300"
+          >
+            <Download className="w-3 h-3" />
+            <span>Cloud Workflows</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-auto max-h-64 rounded-lg border border-slate-800 custom-scrollbar">
+        <table className="w-full text-[10px] text-left font-mono">
+          <thead className="bg-slate-800 text-slate-500 font-black uppercase sticky top-0">
+            <tr>
+              <th className="p-2">Step</th>
+              <th className="p-2">Program</th>
+              <th className="p-2">Module</th>
+              <th className="p-2">Runs when</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {job.steps.map(step => (
+              <tr key={step.id} className={`hover:bg-white/5 ${step.chunkId && step.chunkId === selectedChunkId ? 'bg-blue-600/10' : ''}`}>
+                <td className="p-2 text-slate-300">{step.id}</td>
+                <td className="p-2 text-slate-400">
+                  {step.program || <span className="text-rose-400">PROC {step.proc}</span>}
+                  {step.program && SYSTEM_UTILITIES.has(step.program) && !step.chunkId && <span className="ml-2 text-[8px] text-slate-600 uppercase">utility</span>}
+                </td>
+                <td className="p-2">
+                  {step.chunkId ? (
+                    <button onClick={() => onSelectChunk?.(step.chunkId!)} className="flex items-center space-x-1 text-blue-400 hover:text-blue-300">
+                      <FileCode className="w-3 h-3" />
+                      <span>{chunkName(step.chunkId)}</span>
+                    </button>
+                  ) : <span className="text-slate-600">—</span>}
+                </td>
+                <td className="p-2 text-slate-500" title={step.condition}>{describeCondition(step.runWhen)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {job.datasets.length > 0 && (
+        <div className="overflow-auto max-h-48 rounded-lg border border-slate-800 custom-scrollbar">
+          <table className="w-full text-[10px] text-left font-mono">
+            <thead className="bg-slate-800 text-slate-500 font-black uppercase sticky top-0">
+              <tr>
+                <th className="p-2">Data set</th>
+                <th className="p-2">Used by</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {job.datasets.map(dataset => (
+                <tr key={dataset.name} className="hover:bg-white/5">
+                  <td className="p-2 text-slate-300">
+                    {dataset.name}
+                    {dataset.temporary && <span className="ml-2 text-[8px] text-slate-600 uppercase">temporary</span>}
+                  </td>
+                  <td className="p-2 space-x-3">
+                    {dataset.uses.map((use, i) => (
+                      <span key={i} className={ACCESS_STYLES[use.access]}>
+                        {use.stepId}.{use.ddName} {use.access}{use.generation ? ` (${use.generation})` : ''}
+                      </span>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {feeds.length > 0 && (
+        <p className="text-[9px] text-slate-500 font-mono">
+          {feeds.map(e => `${e.from} → ${e.to} via ${e.dataset}`).join(' · ')}
+        </p>
+      )}
+
+      {job.warnings.length > 0 && (
+        <div className="space-y-1">
+          {job.warnings.map((warning, i) => (
+            <p key={i} className="flex items-start space-x-2 text-[9px] text-amber-400 font-mono">
+              <AlertCircle className="w-3 h-3 shrink-0 mt-0.5" />
+              <span>{warning}</span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JclJobsPanel;
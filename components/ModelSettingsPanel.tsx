@@ -0,0 +1,285 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Code2, Cpu, Disc, Download, Gauge, KeyRound, Upload, X } from 'lucide-react';
+import { CassetteMode, CloudProvider, PipelineStage, ProviderId, ProviderSettings, SchedulerSettings, TargetLanguage } from '../types';
+import { DEFAULT_PROVIDER_SETTINGS, PIPELINE_STAGES, PROVIDER_LABELS } from '../services/providers';
+import { TARGETS, TARGET_LANGUAGES } from '../services/targets';
+import { CLOUD_PROVIDERS } from '../services/cloudCatalog';
+import { getCassette, getCassetteMode, loadCassette, setCassetteMode, subscribeCassette } from '../services/cassette';
+import { getRunnerToken, setRunnerToken } from '../services/parityRunner';
+
+const inputClass = "bg-black/40 border border-slate-700 rounded-lg px-3 py-2 text-[10px] font-mono text-slate-200 focus:outline-none focus:border-blue-500 disabled:opacity-30";
+
+const ModelSettingsPanel: React.FC<{
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  onClose: () => void;
+  onLog?: (msg: string, type: 'info' | 'success' | 'error') => void;
+  locked?: boolean;
+}> = ({ settings, onChange, onClose, onLog, locked }) => {
+  const [cassetteMode, setMode] = useState<CassetteMode>(getCassetteMode());
+  const [entryCount, setEntryCount] = useState(getCassette().entries.length);
+  const cassetteInputRef = useRef<HTMLInputElement>(null);
+  const [runnerToken, setToken] = useState(getRunnerToken());
+
+  useEffect(() => subscribeCassette(() => {
+    setMode(getCassetteMode());
+    setEntryCount(getCassette().entries.length);
+  }), []);
+
+  const handleCassetteUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    file.text().then(text => {
+      try {
+        const loaded = loadCassette(text);
+        setCassetteMode('replay');
+        onLog?.(`Cassette ${file.name} loaded: ${loaded.entries.length} recorded interactions. Replay mode active.`, 'success');
+      } catch (error) {
+        onLog?.(`Cassette load failed: ${error instanceof Error ? error.message : error}`, 'error');
+      }
+    });
+  };
+
+  const downloadCassette = () => {
+    const blob = new Blob([JSON.stringify(getCassette(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `cassette_${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    a.click();
+    onLog?.(`Exported ${a.download} (${entryCount} interactions)`, 'info');
+  };
+
+  const updateStage = (stage: PipelineStage, patch: Partial<ProviderSettings['stages'][PipelineStage]>) => {
+    onChange({ ...settings, stages: { ...settings.stages, [stage]: { ...settings.stages[stage], ...patch } } });
+  };
+
+  const updateScheduler = (patch: Partial<SchedulerSettings>) => {
+    onChange({ ...settings, scheduler: { ...settings.scheduler, ...patch } });
+  };
+
+  const toLimit = (value: string) => Math.max(1, Math.floor(Number(value)) || 1);
+
+  const routeAllOffline = () => {
+    const stages = { ...settings.stages };
+    PIPELINE_STAGES.forEach(({ id }) => { stages[id] = { provider: 'mock', model: 'mock-deterministic' }; });
+    onChange({ ...settings, stages });
+  };
+
+  const usesOpenAI = PIPELINE_STAGES.some(({ id }) => settings.stages[id].provider === 'openai-compatible');
+
+  return (
+    <div className="bg-slate-900 rounded-2xl border border-slate-800 shadow-xl p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center space-x-2">
+          <Cpu className="w-3.5 h-3.5 text-blue-400" />
+          <span>Model Routing</span>
+        </span>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={routeAllOffline}
+            disabled={locked}
+            className="text-[9px] font-black uppercase bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg border border-slate-700 transition-all disabled:opacity-20"
+          >
+            Run Offline
+          </button>
+          <button
+            onClick={() => onChange({ ...DEFAULT_PROVIDER_SETTINGS, openAIBaseUrl: settings.openAIBaseUrl, openAIApiKey: settings.openAIApiKey, targetLanguage: settings.targetLanguage, targetCloud: settings.targetCloud })}
+            disabled={locked}
+            className="text-[9px] font-black uppercase bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg border border-slate-700 transition-all disabled:opacity-20"
+          >
+            Reset
+          </button>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-300 p-1">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3">
+        {PIPELINE_STAGES.map(({ id, label }) => (
+          <div key={id} className="bg-black/20 border border-slate-800 rounded-xl p-3 space-y-2">
+            <p className="text-[9px] font-black uppercase tracking-widest text-slate-500">{label}</p>
+            <select
+              value={settings.stages[id].provider}
+              onChange={(e) => updateStage(id, { provider: e.target.value as ProviderId })}
+              disabled={locked}
+              className={`${inputClass} w-full`}
+            >
+              {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(p => (
+                <option key={p} value={p}>{PROVIDER_LABELS[p]}</option>
+              ))}
+            </select>
+            <input
+              value={settings.stages[id].model}
+              onChange={(e) => updateStage(id, { model: e.target.value })}
+              disabled={locked || settings.stages[id].provider === 'mock'}
+              placeholder="model name"
+              className={`${inputClass} w-full`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 bg-black/20 border border-slate-800 rounded-xl p-3">
+        <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 flex items-center space-x-2">
+          <Code2 className="w-3.5 h-3.5" />
+          <span>Target</span>
+        </span>
+        <select
+          value={settings.targetLanguage}
+          onChange={(e) => onChange({ ...settings, targetLanguage: e.target.value as TargetLanguage })}
+          disabled={locked}
+          className={inputClass}
+        >
+          {TARGET_LANGUAGES.map(l => (
+            <option key={l} value={l}>{TARGETS[l].stack} • {TARGETS[l].testFramework}</option>
+          ))}
+        </select>
+        <select
+          value={settings.targetCloud}
+          onChange={(e) => onChange({ ...settings, targetCloud: e.target.value as CloudProvider })}
+          disabled={locked}
+          className={inputClass}
+        >
+          {(Object.keys(CLOUD_PROVIDERS) as CloudProvider[]).map(p => (
+            <option key={p} value={p}>{CLOUD_PROVIDERS[p].label}</option>
+          ))}
+        </select>
+        <span className="text-[9px] text-slate-600">Applies to modules transformed from now on; recovered modules keep their language and cloud until regenerated.</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 bg-black/20 border border-slate-800 rounded-xl p-3">
+        <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 flex items-center space-x-2">
+          <Gauge className="w-3.5 h-3.5" />
+          <span>Scheduler</span>
+        </span>
+        <label className="flex items-center space-x-2 text-[9px] font-bold uppercase text-slate-400">
+          <span>Workers</span>
+          <input
+            type="number"
+            min={1}
+            value={settings.scheduler.workers}
+            onChange={(e) => updateScheduler({ workers: toLimit(e.target.value) })}
+            disabled={locked}
+            className={`${inputClass} w-16`}
+          />
+        </label>
+        <label className="flex items-center space-x-2 text-[9px] font-bold uppercase text-slate-400">
+          <span>Requests / min</span>
+          <input
+            type="number"
+            min={1}
+            value={settings.scheduler.requestsPerMinute}
+            onChange={(e) => updateScheduler({ requestsPerMinute: toLimit(e.target.value) })}
+            disabled={locked}
+            className={`${inputClass} w-20`}
+          />
+        </label>
+        {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(p => (
+          <label key={p} className="flex items-center space-x-2 text-[9px] font-bold uppercase text-slate-400">
+            <span>{PROVIDER_LABELS[p]}</span>
+            <input
+              type="number"
+              min={1}
+              value={settings.scheduler.providerConcurrency[p]}
+              onChange={(e) => updateScheduler({ providerConcurrency: { ...settings.scheduler.providerConcurrency, [p]: toLimit(e.target.value) } })}
+              disabled={locked}
+              title={`Concurrent ${PROVIDER_LABELS[p]} requests`}
+              className={`${inputClass} w-14`}
+            />
+          </label>
+        ))}
+        <label className="flex items-center space-x-2 text-[9px] font-bold uppercase text-slate-400 ml-auto" title="Unreachable paragraphs and unused WORKING-STORAGE fields are replaced with a marker in the transform prompt">
+          <input
+            type="checkbox"
+            checked={settings.excludeDeadCode}
+            onChange={(e) => onChange({ ...settings, excludeDeadCode: e.target.checked })}
+            disabled={locked}
+            className="accent-blue-500"
+          />
+          <span>Exclude dead code from transform</span>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 bg-black/20 border border-slate-800 rounded-xl p-3">
+        <input type="file" ref={cassetteInputRef} className="hidden" accept=".json,application/json" onChange={handleCassetteUpload} />
+        <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 flex items-center space-x-2">
+          <Disc className={`w-3.5 h-3.5 ${cassetteMode === 'record' ? 'text-rose-400 animate-pulse' : cassetteMode === 'replay' ? 'text-emerald-400' : ''}`} />
+          <span>Cassette</span>
+        </span>
+        {(['off', 'record', 'replay'] as CassetteMode[]).map(m => (
+          <button
+            key={m}
+            onClick={() => setCassetteMode(m)}
+            disabled={locked || (m === 'replay' && entryCount === 0)}
+            className={`text-[9px] font-black uppercase px-3 py-1.5 rounded-lg border transition-all disabled:opacity-20 ${
+              cassetteMode === m ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            {m}
+          </button>
+        ))}
+        <span className="text-[9px] font-mono text-slate-500">{entryCount} interactions</span>
+        <div className="flex-1" />
+        <button
+          onClick={() => cassetteInputRef.current?.click()}
+          disabled={locked}
+          className="text-[9px] font-black uppercase bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg border border-slate-700 transition-all disabled:opacity-20 flex items-center space-x-1.5"
+        >
+          <Upload className="w-3 h-3" />
+          <span>Load</span>
+        </button>
+        <button
+          onClick={downloadCassette}
+          disabled={entryCount === 0}
+          className="text-[9px] font-black uppercase bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg border border-slate-700 transition-all disabled:opacity-20 flex items-center space-x-1.5"
+        >
+          <Download className="w-3 h-3" />
+          <span>Save</span>
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 bg-black/20 border border-slate-800 rounded-xl p-3">
+        <span className="text-[9px] font-black uppercase tracking-widest text-slate-500 flex items-center space-x-2">
+          <KeyRound className="w-3.5 h-3.5" />
+          <span>Parity Runner</span>
+        </span>
+        <input
+          type="password"
+          value={runnerToken}
+          onChange={(e) => {
+            setToken(e.target.value);
+            setRunnerToken(e.target.value);
+          }}
+          placeholder="Token printed by npm run runner"
+          className={`${inputClass} flex-1 min-w-[12rem]`}
+        />
+      </div>
+
+      {usesOpenAI && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <input
+            value={settings.openAIBaseUrl}
+            onChange={(e) => onChange({ ...settings, openAIBaseUrl: e.target.value })}
+            disabled={locked}
+            placeholder="https://llm.internal.bank/v1"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={settings.openAIApiKey || ''}
+            onChange={(e) => onChange({ ...settings, openAIApiKey: e.target.value || undefined })}
+            disabled={locked}
+            placeholder="API key (optional)"
+            className={inputClass}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelSettingsPanel;
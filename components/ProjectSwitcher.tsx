@@ -0,0 +1,73 @@
+
+import React from 'react';
+import { FileDown, FileUp, FolderOpen, Plus, Trash2 } from 'lucide-react';
+import { ProjectSummary } from '../types';
+
+const ProjectSwitcher: React.FC<{
+  projects: ProjectSummary[];
+  currentId: string | null;
+  currentName: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: () => void;
+  disabled?: boolean;
+}> = ({ projects, currentId, currentName, onSelect, onCreate, onRename, onDelete, onExport, onImport, disabled }) => (
+  <div className="flex items-center space-x-2 bg-slate-800/60 border border-slate-700 rounded-xl px-2 py-1">
+    <FolderOpen className="w-3.5 h-3.5 text-slate-500 shrink-0" />
+    <select
+      value={currentId || ''}
+      onChange={(e) => onSelect(e.target.value)}
+      disabled={disabled}
+      className="bg-transparent text-[10px] font-black uppercase tracking-widest text-slate-300 focus:outline-none max-w-[160px] disabled:opacity-40"
+    >
+      {projects.map(p => (
+        <option key={p.id} value={p.id} className="bg-slate-900">
+          {p.id === currentId ? currentName : p.name} ({p.chunkCount} • {p.status})
+        </option>
+      ))}
+    </select>
+    <input
+      value={currentName}
+      onChange={(e) => onRename(e.target.value)}
+      className="hidden lg:block bg-black/30 border border-slate-700 rounded-lg px-2 py-1 text-[10px] font-mono text-slate-300 focus:outline-none focus:border-blue-500 w-36"
+      aria-label="Project name"
+    />
+    <button
+      onClick={onCreate}
+      disabled={disabled}
+      className="p-1.5 text-slate-400 hover:text-blue-400 transition-colors disabled:opacity-20"
+      title="New project"
+    >
+      <Plus className="w-3.5 h-3.5" />
+    </button>
+    <button
+      onClick={onExport}
+      disabled={!currentId}
+      className="p-1.5 text-slate-400 hover:text-blue-400 transition-colors disabled:opacity-20"
+      title="Export project bundle"
+    >
+      <FileDown className="w-3.5 h-3.5" />
+    </button>
+    <button
+      onClick={onImport}
+      disabled={disabled}
+      className="p-1.5 text-slate-400 hover:text-blue-400 transition-colors disabled:opacity-20"
+      title="Import project bundle"
+    >
+      <FileUp className="w-3.5 h-3.5" />
+    </button>
+    <button
+      onClick={() => currentId && onDelete(currentId)}
+      disabled={disabled || !currentId}
+      className="p-1.5 text-slate-400 hover:text-rose-400 transition-colors disabled:opacity-20"
+      title="Delete project"
+    >
+      <Trash2 className="w-3.5 h-3.5" />
+    </button>
+  </div>
+);
+
+export default ProjectSwitcher;
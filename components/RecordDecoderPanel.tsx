@@ -0,0 +1,158 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Binary, Upload } from 'lucide-react';
+import { CodeChunk, CodePage, RecordFormat } from '../types';
+import { CODE_PAGES, decodeDataset, recordLayouts } from '../services/recordDecoder';
+
+const inputClass = "bg-black/40 border border-slate-700 rounded-lg px-3 py-2 text-[10px] font-mono text-slate-200 focus:outline-none focus:border-blue-500 disabled:opacity-30";
+
+const MAX_ROWS = 200;
+
+const RecordDecoderPanel: React.FC<{
+  chunks: CodeChunk[];
+  selectedChunk: CodeChunk;
+}> = ({ chunks, selectedChunk }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dataset, setDataset] = useState<{ name: string; bytes: Uint8Array } | null>(null);
+  const [codePage, setCodePage] = useState<CodePage>('CP037');
+  const [format, setFormat] = useState<RecordFormat>('FIXED');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  const layouts = useMemo(() => chunks.flatMap(chunk =>
+    recordLayouts(chunk.dataLayout || []).map(record => ({
+      key: `${chunk.id}:${record.path}:${record.line}`,
+      chunk,
+      record,
+      label: `${chunk.name} / ${record.name} (${record.length} bytes)`
+    }))
+  ), [chunks]);
+
+  // FD records are what a dataset holds, so prefer them over working storage.
+  const defaultLayout = (chunk: CodeChunk) => {
+    const own = layouts.filter(l => l.chunk.id === chunk.id);
+    return (own.find(l => l.record.section === 'FILE') || own[0] || layouts[0])?.key || '';
+  };
+  const [layoutKey, setLayoutKey] = useState(() => defaultLayout(selectedChunk));
+
+  useEffect(() => setLayoutKey(defaultLayout(selectedChunk)), [selectedChunk.id, layouts]);
+
+  const layout = layouts.find(l => l.key === layoutKey);
+  const result = useMemo(() => {
+    if (!dataset || !layout) return null;
+    return decodeDataset(dataset.bytes, layout.chunk.dataLayout!, layout.record, { codePage, format });
+  }, [dataset, layout, codePage, format]);
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setDataset({ name: file.name, bytes: new Uint8Array(await file.arrayBuffer()) });
+  };
+
+  const flagged = result?.records.filter(r => !r.valid).length || 0;
+  const rows = (result?.records || []).filter(r => !flaggedOnly || !r.valid || r.issues.length);
+
+  if (!layouts.length) {
+    return (
+      <div className="h-48 flex items-center justify-center text-slate-700 border border-slate-800 border-dashed rounded-xl">
+        <p className="text-[10px] font-black uppercase tracking-widest">No parsed record layouts in this project</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <input type="file" ref={fileInputRef} className="hidden" onChange={handleUpload} />
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center space-x-2 text-[9px] font-black uppercase bg-slate-800 hover:bg-slate-700 px-3 py-2 rounded-lg border border-slate-700 text-slate-300"
+        >
+          <Upload className="w-3.5 h-3.5" />
+          <span>{dataset ? dataset.name : 'Load Dataset'}</span>
+        </button>
+        <select value={layoutKey} onChange={(e) => setLayoutKey(e.target.value)} className={`${inputClass} flex-1 min-w-[200px]`}>
+          {layouts.map(l => <option key={l.key} value={l.key}>{l.label}</option>)}
+        </select>
+        <select value={codePage} onChange={(e) => setCodePage(e.target.value as CodePage)} className={inputClass}>
+          {CODE_PAGES.map(cp => <option key={cp} value={cp}>{cp}</option>)}
+        </select>
+        <select value={format} onChange={(e) => setFormat(e.target.value as RecordFormat)} className={inputClass}>
+          <option value="FIXED">Fixed length</option>
+          <option value="VARIABLE">Variable (RDW)</option>
+        </select>
+        <label className="flex items-center space-x-2 text-[9px] font-black uppercase text-slate-500">
+          <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} className="accent-blue-500" />
+          <span>Flagged only</span>
+        </label>
+      </div>
+
+      {!result ? (
+        <div className="h-48 flex flex-col items-center justify-center text-slate-700 border border-slate-800 border-dashed rounded-xl space-y-2">
+          <Binary className="w-6 h-6" />
+          <p className="text-[10px] font-black uppercase tracking-widest">Load a binary extract to decode it with the selected layout</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-4 text-[9px] font-black uppercase tracking-widest">
+            <span className="text-slate-500">{dataset!.bytes.length} bytes</span>
+            <span className="text-slate-500">{result.totalRecords} records × {result.recordLength} bytes</span>
+            <span className={flagged ? 'text-red-400' : 'text-emerald-400'}>{flagged} flagged</span>
+          </div>
+          {result.warnings.map((w, i) => (
+            <p key={i} className="text-[9px] text-amber-400/80 font-mono">{w}</p>
+          ))}
+          <div className="overflow-auto max-h-[520px] rounded-xl border border-slate-800 bg-black/20 custom-scrollbar">
+            <table className="text-[10px] text-left">
+              <thead className="bg-slate-800 text-slate-500 font-black uppercase sticky top-0">
+                <tr>
+                  <th className="p-2">#</th>
+                  <th className="p-2">Offset</th>
+                  {result.columns.map(c => (
+                    <th key={c.key} className={`p-2 whitespace-nowrap ${c.alternate ? 'text-slate-600 italic' : ''}`} title={`${c.key} @ ${c.offset}, ${c.field.picture || ''} ${c.field.usage}`}>
+                      {c.label}
+                    </th>
+                  ))}
+                  <th className="p-2">Issues</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {rows.slice(0, MAX_ROWS).map(record => {
+                  const bad = new Map(record.issues.filter(i => i.column).map(i => [i.column!, i.message]));
+                  return (
+                    <tr key={record.index} className={record.valid ? 'hover:bg-white/5' : 'bg-red-500/5 hover:bg-red-500/10'}>
+                      <td className="p-2 font-mono text-slate-600">{record.index + 1}</td>
+                      <td className="p-2 font-mono text-slate-600">{record.offset}</td>
+                      {result.columns.map(c => (
+                        <td
+                          key={c.key}
+                          title={bad.get(c.key)}
+                          className={`p-2 font-mono whitespace-pre ${bad.has(c.key) ? 'text-red-300 bg-red-500/10' : 'text-slate-300'}`}
+                        >
+                          {record.values[c.key]}
+                        </td>
+                      ))}
+                      <td className="p-2 text-[9px] min-w-[240px]">
+                        {record.issues.map((issue, i) => (
+                          <p key={i} className={`flex items-start space-x-1 ${record.valid ? 'text-amber-400/80' : 'text-red-400'}`}>
+                            <AlertTriangle className="w-3 h-3 shrink-0 mt-px" />
+                            <span>{issue.message}</span>
+                          </p>
+                        ))}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {rows.length > MAX_ROWS && (
+            <p className="text-[9px] text-slate-500 font-mono">Showing {MAX_ROWS} of {rows.length} decoded records.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecordDecoderPanel;
@@ -0,0 +1,148 @@
+
+import React from 'react';
+import { Database, Download, KeyRound } from 'lucide-react';
+import { CodeChunk } from '../types';
+import { sqlCodeHandled } from '../services/sqlInventory';
+import { SQLALCHEMY_FILE, SQL_DIALECTS, SqlDialect, buildSqlAlchemyModels, buildSqlDdl, projectSqlTables } from '../services/sqlSchema';
+
+const download = (content: string, fileName: string) => {
+  const blob = new Blob([content], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const SqlInventoryPanel: React.FC<{
+  chunk: CodeChunk;
+  chunks: CodeChunk[];
+  projectName: string;
+}> = ({ chunk, chunks, projectName }) => {
+  const inventory = chunk.sqlInventory;
+  if (!inventory) return null;
+  const lineOffset = (chunk.sourceRange?.startLine ?? 1) - 1;
+  const cursors = inventory.statements.filter(s => s.kind === 'DECLARE CURSOR').map(s => s.cursor);
+  const dclgen = inventory.includes.filter(m => !/^SQL(CA|DA)$/.test(m));
+  const exports: [string, () => string, string][] = [
+    ['SQLAlchemy', () => buildSqlAlchemyModels(projectSqlTables(chunks), projectName), SQLALCHEMY_FILE],
+    ...(Object.keys(SQL_DIALECTS) as SqlDialect[]).map((dialect): [string, () => string, string] =>
+      [SQL_DIALECTS[dialect].label, () => buildSqlDdl(projectSqlTables(chunks), dialect, projectName), SQL_DIALECTS[dialect].fileName])
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-[10px] font-black uppercase text-violet-400 tracking-widest flex items-center space-x-2">
+          <Database className="w-3 h-3" />
+          <span>Embedded SQL</span>
+        </h4>
+        <div className="flex items-center space-x-3">
+          {exports.map(([label, build, fileName]) => (
+            <button
+              key={fileName}
+              onClick={() => download(build(), fileName)}
+              title="Project-wide schema built from every program's EXEC SQL"
+              className="text-[9px] font-black text-slate-500 hover:text-slate-300 transition-colors uppercase flex items-center space-x-1"
+            >
+              <Download className="w-3 h-3" />
+              <span>{label}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+      {(dclgen.length > 0 || cursors.length > 0) && (
+        <p className="text-[10px] font-mono text-slate-400">
+          {dclgen.length > 0 && <span>DCLGEN <span className="text-violet-300">{dclgen.join(', ')}</span></span>}
+          {cursors.length > 0 && <span className="ml-3">Cursors <span className="text-violet-300">{cursors.join(', ')}</span></span>}
+        </p>
+      )}
+
+      <div className="overflow-x-auto max-h-64 rounded-xl border border-slate-800 bg-black/20 custom-scrollbar">
+        <table className="w-full text-[10px] text-left">
+          <thead className="bg-slate-800 text-slate-500 font-black uppercase sticky top-0">
+            <tr>
+              <th className="p-3">Line</th>
+              <th className="p-3">Statement</th>
+              <th className="p-3">Tables</th>
+              <th className="p-3">Host Variables</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800 font-mono">
+            {inventory.statements.map((s, i) => (
+              <tr key={i} className="hover:bg-white/5 transition-colors" title={s.sql}>
+                <td className="p-3 text-slate-500">{s.line + lineOffset}</td>
+                <td className="p-3 text-violet-300 whitespace-nowrap">{s.kind}{s.cursor && <span className="ml-1 text-slate-500">{s.cursor}</span>}</td>
+                <td className="p-3 text-slate-300">{s.tables.join(', ')}</td>
+                <td className="p-3 text-slate-500">{s.hostVariables.map(h => `:${h}`).join(' ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {inventory.tables.some(t => t.columns.length) && (
+        <div className="overflow-x-auto max-h-64 rounded-xl border border-slate-800 bg-black/20 custom-scrollbar">
+          <table className="w-full text-[10px] text-left">
+            <thead className="bg-slate-800 text-slate-500 font-black uppercase sticky top-0">
+              <tr>
+                <th className="p-3">Column</th>
+                <th className="p-3">DB2 Type</th>
+                <th className="p-3">Host Variable</th>
+                <th className="p-3">Source</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800 font-mono">
+              {inventory.tables.flatMap(table => table.columns.map(column => (
+                <tr key={`${table.name}.${column.name}`} className="hover:bg-white/5 transition-colors">
+                  <td className="p-3 text-slate-300 whitespace-nowrap">
+                    <span className="text-slate-500">{table.name}.</span>{column.name}
+                    {table.keyColumns.includes(column.name) && <KeyRound className="inline w-3 h-3 ml-1 text-amber-400" />}
+                  </td>
+                  <td className="p-3 text-violet-300">{column.sqlType}{column.nullable && <span className="ml-1 text-[8px] text-slate-600 uppercase">null</span>}</td>
+                  <td className="p-3 text-slate-400">{column.hostVariable ? `:${column.hostVariable}` : ''}{column.picture && <span className="ml-2 text-slate-600">PIC {column.picture}</span>}</td>
+                  <td className="p-3 text-[8px] font-black uppercase text-slate-600">{column.source === 'DCLGEN' ? 'dclgen' : 'host pic'}</td>
+                </tr>
+              )))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {inventory.sqlCodeChecks.length > 0 && (
+        <div className="overflow-x-auto max-h-48 rounded-xl border border-slate-800 bg-black/20 custom-scrollbar">
+          <table className="w-full text-[10px] text-left">
+            <thead className="bg-slate-800 text-slate-500 font-black uppercase sticky top-0">
+              <tr>
+                <th className="p-3">Line</th>
+                <th className="p-3">SQLCODE Handling</th>
+                <th className="p-3">Action</th>
+                {chunk.targetSource && <th className="p-3">Target</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800 font-mono">
+              {inventory.sqlCodeChecks.map((check, i) => {
+                const handled = chunk.targetSource ? sqlCodeHandled(check, chunk.targetSource) : undefined;
+                return (
+                  <tr key={i} className="hover:bg-white/5 transition-colors">
+                    <td className="p-3 text-slate-500">{check.line + lineOffset}</td>
+                    <td className="p-3 text-slate-300">{check.kind === 'WHENEVER' ? `WHENEVER ${check.condition}` : check.condition}</td>
+                    <td className="p-3 text-slate-500">{check.action}</td>
+                    {handled !== undefined && (
+                      <td className={`p-3 text-[8px] font-black uppercase ${handled ? 'text-emerald-500' : 'text-rose-400'}`}>
+                        {handled ? 'handled' : 'not found'}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SqlInventoryPanel;
@@ -0,0 +1,141 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, Pause, Play, Search, Terminal } from 'lucide-react';
+import { CodeChunk, LogEntry, LogType, PipelineStage } from '../types';
+import { PIPELINE_STAGES } from '../services/providers';
+import { EMPTY_LOG_FILTER, LOG_LEVELS, LogFilter, logsToJsonl, matchesLogFilter } from '../services/systemLog';
+
+const selectClass = "bg-black/30 border border-slate-700 rounded-lg px-1.5 py-1 text-[8px] font-black uppercase text-slate-400 focus:outline-none";
+
+const DOT_STYLES: Record<LogType, string> = {
+  error: 'bg-rose-500',
+  success: 'bg-emerald-500',
+  thinking: 'bg-blue-500 animate-pulse',
+  info: 'bg-slate-700'
+};
+
+const TEXT_STYLES: Record<LogType, string> = {
+  error: 'text-rose-400',
+  success: 'text-emerald-300',
+  thinking: 'text-blue-300',
+  info: 'text-slate-400'
+};
+
+const timeOf = (timestamp?: string) => timestamp ? new Date(timestamp).toLocaleTimeString([], { hour12: false }) : '--:--:--';
+
+const SystemStreamPanel: React.FC<{
+  logs: LogEntry[];
+  chunks: CodeChunk[];
+  projectName: string;
+  onSelectChunk: (chunkId: string) => void;
+  onLog?: (msg: string, type: LogType) => void;
+}> = ({ logs, chunks, projectName, onSelectChunk, onLog }) => {
+  const [filter, setFilter] = useState<LogFilter>(EMPTY_LOG_FILTER);
+  const [paused, setPaused] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+  const names = new Map<string, string>(chunks.map(c => [c.id, c.name]));
+  const visible = logs.filter(log => matchesLogFilter(log, filter, log.chunkId ? names.get(log.chunkId) : undefined));
+  const filtered = visible.length !== logs.length;
+
+  useEffect(() => {
+    if (!paused) endRef.current?.scrollIntoView({ behavior: 'auto' });
+  }, [logs, paused]);
+
+  const update = (patch: Partial<LogFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const exportJsonl = () => {
+    const blob = new Blob([logsToJsonl(visible, chunks)], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${projectName.replace(/[^a-z0-9]+/gi, '_').replace(/^_+|_+$/g, '') || 'project'}_stream.jsonl`;
+    a.click();
+    URL.revokeObjectURL(url);
+    onLog?.(`Exported ${visible.length} stream entries to ${a.download}${filtered ? ' (filtered view)' : ''}.`, 'info');
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-2xl border border-slate-800 overflow-hidden flex-1 flex flex-col shadow-xl min-h-[300px]">
+      <div className="p-3 border-b border-slate-800 bg-slate-800/20 space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <Terminal className="w-3.5 h-3.5 text-emerald-400" />
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">System Stream</span>
+            {filtered && <span className="text-[8px] font-black uppercase text-slate-600">{visible.length}/{logs.length}</span>}
+          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPaused(p => !p)}
+              title={paused ? 'Resume auto-scroll' : 'Pause auto-scroll'}
+              className={`p-1 transition-colors ${paused ? 'text-amber-400' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              {paused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+            </button>
+            <button
+              onClick={exportJsonl}
+              disabled={!visible.length}
+              title="Export the entries shown as JSON Lines"
+              className="text-slate-500 hover:text-slate-300 p-1 transition-colors disabled:opacity-20"
+            >
+              <Download className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="relative flex-1">
+            <Search className="w-3 h-3 text-slate-500 absolute left-2 top-1/2 -translate-y-1/2" />
+            <input
+              value={filter.query}
+              onChange={e => update({ query: e.target.value })}
+              placeholder="Search..."
+              className="w-full bg-black/30 border border-slate-700 rounded-lg pl-6 pr-2 py-1 text-[10px] font-mono text-slate-300 focus:outline-none"
+            />
+          </div>
+          <select value={filter.level} onChange={e => update({ level: e.target.value as LogFilter['level'] })} className={selectClass} aria-label="Filter by level">
+            <option value="ALL">All levels</option>
+            {LOG_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+          </select>
+          <select value={filter.stage} onChange={e => update({ stage: e.target.value as PipelineStage | 'ALL' })} className={selectClass} aria-label="Filter by stage">
+            <option value="ALL">All stages</option>
+            {PIPELINE_STAGES.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+          </select>
+          <select value={filter.chunkId} onChange={e => update({ chunkId: e.target.value })} className={`${selectClass} max-w-[7rem]`} aria-label="Filter by module">
+            <option value="ALL">All modules</option>
+            {chunks.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="p-4 space-y-2.5 overflow-y-auto flex-1 font-mono text-[10px] bg-black/40 custom-scrollbar">
+        {logs.length === 0 && <p className="text-slate-600 italic">Waiting for input signal...</p>}
+        {logs.length > 0 && visible.length === 0 && <p className="text-slate-600 italic">No entries match the filters.</p>}
+        {visible.map((log, i) => (
+          <div
+            key={i}
+            onClick={log.chunkId && names.has(log.chunkId) ? () => onSelectChunk(log.chunkId!) : undefined}
+            className={`flex items-start space-x-2 ${log.chunkId && names.has(log.chunkId) ? 'cursor-pointer hover:bg-white/5 rounded' : ''}`}
+          >
+            <div className={`mt-1.5 w-1 h-2 rounded-full shrink-0 ${DOT_STYLES[log.type]}`} />
+            <span className="text-slate-600 shrink-0" title={log.timestamp}>{timeOf(log.timestamp)}</span>
+            <div className="min-w-0">
+              {(log.stage || log.chunkId) && (
+                <span className="mr-2 text-[8px] font-black uppercase text-slate-500">
+                  {[log.stage, log.chunkId && names.get(log.chunkId)].filter(Boolean).join(' · ')}
+                </span>
+              )}
+              <span className={`leading-relaxed ${TEXT_STYLES[log.type]}`}>{log.msg}</span>
+              {log.error && (
+                <details className="mt-1" onClick={e => e.stopPropagation()}>
+                  <summary className="text-[8px] font-black uppercase text-slate-600 cursor-pointer">Details</summary>
+                  <pre className="mt-1 text-rose-300/70 whitespace-pre-wrap break-all">{log.error}</pre>
+                </details>
+              )}
+            </div>
+          </div>
+        ))}
+        <div ref={endRef} className="h-4" />
+      </div>
+    </div>
+  );
+};
+
+export default SystemStreamPanel;
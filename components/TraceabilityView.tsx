@@ -0,0 +1,135 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowRightLeft, Link2 } from 'lucide-react';
+import { TARGETS, chunkLanguage } from '../services/targets';
+import { CodeChunk, TraceLink } from '../types';
+
+const within = (line: number, start?: number, end?: number) =>
+  start !== undefined && end !== undefined && line >= start && line <= end;
+
+const CodePane: React.FC<{
+  title: string;
+  lines: string[];
+  firstLine: number;
+  highlighted: (line: number) => boolean;
+  linked: (line: number) => boolean;
+  onLineClick: (line: number) => void;
+  className: string;
+}> = ({ title, lines, firstLine, highlighted, linked, onLineClick, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const firstHighlight = lines.findIndex((_, i) => highlighted(i + 1));
+
+  useEffect(() => {
+    if (firstHighlight === -1 || !containerRef.current) return;
+    const row = containerRef.current.querySelector<HTMLElement>(`[data-line="${firstHighlight + 1}"]`);
+    row?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [firstHighlight]);
+
+  return (
+    <div className="flex flex-col min-w-0 bg-[#050914] rounded-xl border border-slate-800 overflow-hidden">
+      <div className="px-3 py-2 border-b border-slate-800 bg-slate-800/30 text-[9px] font-black uppercase tracking-widest text-slate-500">{title}</div>
+      <div ref={containerRef} className="overflow-auto max-h-[520px] custom-scrollbar py-2">
+        {lines.map((text, i) => {
+          const line = i + 1;
+          const active = highlighted(line);
+          return (
+            <div
+              key={line}
+              data-line={line}
+              onClick={() => onLineClick(line)}
+              className={`flex code-font text-[10px] leading-relaxed ${linked(line) ? 'cursor-pointer hover:bg-white/5' : ''} ${active ? 'bg-blue-500/15 border-l-2 border-blue-400' : 'border-l-2 border-transparent'}`}
+            >
+              <span className="w-12 shrink-0 text-right pr-3 text-slate-600 select-none">{firstLine + i}</span>
+              <span className={`whitespace-pre pr-4 ${active ? 'text-white' : className}`}>{text || ' '}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const TraceabilityView: React.FC<{ chunk: CodeChunk }> = ({ chunk }) => {
+  const [selected, setSelected] = useState<TraceLink | null>(null);
+  const links = chunk.traceability || [];
+  const cobolLines = useMemo(() => chunk.cobolSource.split('\n'), [chunk.cobolSource]);
+  const targetLines = useMemo(() => (chunk.targetSource || '').split('\n'), [chunk.targetSource]);
+
+  useEffect(() => setSelected(null), [chunk.id]);
+
+  // A paragraph can be split across several target symbols and vice versa, so a
+  // selection lights up every link that shares the chosen paragraph or symbol.
+  const active = selected
+    ? links.filter(l => l.cobolParagraph === selected.cobolParagraph || l.targetSymbol === selected.targetSymbol)
+    : [];
+
+  const selectCobolLine = (line: number) => {
+    const link = links.find(l => within(line, l.cobolStartLine, l.cobolEndLine));
+    if (link) setSelected(link);
+  };
+  const selectTargetLine = (line: number) => {
+    const matches = links.filter(l => within(line, l.targetStartLine, l.targetEndLine));
+    // Prefer the innermost symbol when methods sit inside a mapped class.
+    const link = matches.sort((a, b) => (a.targetEndLine! - a.targetStartLine!) - (b.targetEndLine! - b.targetStartLine!))[0];
+    if (link) setSelected(link);
+  };
+
+  const unresolved = links.filter(l => l.cobolStartLine === undefined || l.targetStartLine === undefined);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1.5">
+        {links.length === 0 && (
+          <span className="text-[9px] text-slate-600 italic">No paragraph mapping was returned for this module. Regenerate the transform stage to request one.</span>
+        )}
+        {links.map((link, i) => (
+          <button
+            key={`${link.cobolParagraph}-${link.targetSymbol}-${i}`}
+            onClick={() => setSelected(selected === link ? null : link)}
+            title={link.note}
+            className={`flex items-center space-x-1.5 text-[9px] font-mono px-2 py-1 rounded-lg border transition-all ${
+              active.includes(link) ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+            } ${link.cobolStartLine === undefined || link.targetStartLine === undefined ? 'opacity-50' : ''}`}
+          >
+            <span>{link.cobolParagraph}</span>
+            <ArrowRightLeft className="w-2.5 h-2.5" />
+            <span>{link.targetSymbol}</span>
+          </button>
+        ))}
+      </div>
+      {selected?.note && (
+        <p className="text-[10px] text-slate-400 flex items-start space-x-2">
+          <Link2 className="w-3 h-3 mt-0.5 text-blue-400 shrink-0" />
+          <span>{selected.note}</span>
+        </p>
+      )}
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-3">
+        <CodePane
+          title={`COBOL • ${chunk.sourceFile || chunk.name}`}
+          lines={cobolLines}
+          firstLine={chunk.sourceRange?.startLine ?? 1}
+          highlighted={line => active.some(l => within(line, l.cobolStartLine, l.cobolEndLine))}
+          linked={line => links.some(l => within(line, l.cobolStartLine, l.cobolEndLine))}
+          onLineClick={selectCobolLine}
+          className="text-amber-100/80"
+        />
+        <CodePane
+          title={TARGETS[chunkLanguage(chunk)].label}
+          lines={targetLines}
+          firstLine={1}
+          highlighted={line => active.some(l => within(line, l.targetStartLine, l.targetEndLine))}
+          linked={line => links.some(l => within(line, l.targetStartLine, l.targetEndLine))}
+          onLineClick={selectTargetLine}
+          className="text-blue-100"
+        />
+      </div>
+      {unresolved.length > 0 && (
+        <p className="text-[9px] font-black uppercase text-amber-400">
+          {unresolved.length} mapped names could not be located in the source and are shown faded.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TraceabilityView;
@@ -0,0 +1,431 @@
+"""Local sandbox runner for generated parity suites.
+
+Receives a module's generated implementation and pytest suite, runs pytest in a
+throwaway directory with a timeout and without network access, and returns the
+per-test outcome in the shape of the app's TestResult records.
+
+/golden runs a module against captured mainframe input files through a small
+driver and returns the output file it wrote; the app compares it to the
+captured mainframe output.
+
+Both endpoints run arbitrary Python, so each child is started in fresh user,
+network and mount namespaces (util-linux unshare) and chrooted into a throwaway
+root holding read-only binds of the system and Python directories plus the
+writable temp directory: no network, no home directory, no other files. If that
+sandbox cannot be built on this host, /health reports "unavailable" and /run
+and /golden refuse to execute, so the app falls back to simulated results.
+Only the app's origin is allowed, every request must carry the token printed at
+launch in the X-Runner-Token header, and POST bodies must be application/json.
+
+    python3 runner/parity_runner.py [--port 8765] [--timeout 60] [--origin URL ...]
+
+Set PARITY_RUNNER_TOKEN to pin the token instead of generating one per launch.
+"""
+
+import argparse
+import ast
+import base64
+import contextlib
+import importlib.util
+import json
+import os
+import re
+import secrets
+import shutil
+import subprocess
+import sys
+import tempfile
+import xml.etree.ElementTree as ET
+from http.server import BaseHTTPRequestHandler, ThreadingHTTPServer
+
+MAX_BODY_BYTES = 2 * 1024 * 1024
+MAX_GOLDEN_BYTES = 64 * 1024 * 1024
+DEFAULT_ORIGINS = ["http://localhost:3000", "http://127.0.0.1:3000"]
+TOKEN_HEADER = "X-Runner-Token"
+
+NETWORK_GUARD = '''
+import socket
+
+
+def _network_disabled(*args, **kwargs):
+    raise RuntimeError("Network access is disabled in the parity sandbox")
+
+
+socket.socket.connect = _network_disabled
+socket.socket.connect_ex = _network_disabled
+socket.create_connection = _network_disabled
+socket.getaddrinfo = _network_disabled
+'''
+
+
+# Runs inside the new namespaces as the mapped root: builds the confined root,
+# chroots into it and execs the real command.
+SANDBOX_INIT = '''
+import json, os, subprocess, sys
+
+spec = json.loads(sys.argv[1])
+root = spec["root"]
+
+
+def bind(source, readonly):
+    target = root + source
+    if os.path.islink(source):
+        os.makedirs(os.path.dirname(target), exist_ok=True)
+        if not os.path.lexists(target):
+            os.symlink(os.readlink(source), target)
+        return
+    if os.path.isdir(source):
+        os.makedirs(target, exist_ok=True)
+    else:
+        os.makedirs(os.path.dirname(target), exist_ok=True)
+        open(target, "a").close()
+    subprocess.run(["mount", "--rbind", source, target], check=True)
+    if readonly:
+        subprocess.run(["mount", "-o", "remount,bind,ro", target], check=True)
+
+
+for path in spec["readonly"]:
+    if os.path.lexists(path):
+        bind(path, True)
+bind(spec["workdir"], False)
+os.chroot(root)
+os.chdir(spec["workdir"])
+os.execve(spec["argv"][0], spec["argv"], spec["env"])
+'''
+
+SYSTEM_PATHS = ["/usr", "/bin", "/sbin", "/lib", "/lib32", "/lib64", "/dev/null", "/dev/zero", "/dev/urandom"]
+
+
+def readonly_paths():
+    """System directories plus the interpreter and every import root the runner itself uses."""
+    paths = SYSTEM_PATHS + [sys.prefix, sys.base_prefix, os.path.dirname(os.path.realpath(sys.executable))]
+    paths += [p for p in sys.path if p and os.path.isdir(p) and p != os.path.dirname(os.path.abspath(__file__))]
+    unique = []
+    for path in sorted(set(os.path.realpath(p) if not os.path.islink(p) else p for p in paths)):
+        if not any(path.startswith(parent.rstrip("/") + "/") for parent in unique):
+            unique.append(path)
+    return unique
+
+
+@contextlib.contextmanager
+def sandboxed(command, workdir):
+    """The command and environment for a child process that can only see workdir and read-only system files."""
+    with tempfile.TemporaryDirectory(prefix="parity-root-") as root:
+        spec = {
+            "root": root,
+            "readonly": readonly_paths(),
+            "workdir": workdir,
+            "argv": [os.path.realpath(command[0])] + command[1:],
+            "env": {
+                "PATH": "/usr/local/bin:/usr/bin:/bin",
+                "HOME": workdir,
+                "PYTHONDONTWRITEBYTECODE": "1",
+                "PYTHONPATH": workdir,
+            },
+        }
+        yield ["unshare", "-rnm", sys.executable, "-c", SANDBOX_INIT, json.dumps(spec)], {"PATH": os.environ.get("PATH", "")}
+
+
+def detect_isolation():
+    """Confirms the sandbox builds here and actually hides the runner's own files; None when it does not."""
+    if not shutil.which("unshare") or not shutil.which("mount"):
+        return None
+    probe = "import os, sys; sys.exit(1 if os.path.exists(sys.argv[1]) else 0)"
+    try:
+        with tempfile.TemporaryDirectory(prefix="parity-probe-") as workdir:
+            with sandboxed([sys.executable, "-c", probe, os.path.abspath(__file__)], workdir) as (command, env):
+                result = subprocess.run(command, cwd=workdir, env=env, capture_output=True, timeout=10)
+        return "namespace-chroot" if result.returncode == 0 else None
+    except (OSError, subprocess.SubprocessError):
+        return None
+
+
+ISOLATION = detect_isolation()
+UNAVAILABLE = "no sandbox on this host: the runner needs unprivileged user namespaces (unshare -rnm) to confine generated code"
+
+
+def module_name_for(name):
+    stem = re.sub(r"\.[^/.]+$", "", name or "module")
+    stem = re.sub(r"[^a-zA-Z0-9]+", "_", stem).strip("_").lower()
+    if not stem or stem[0].isdigit():
+        stem = "module_" + stem
+    return stem
+
+
+def missing_imports(test_code, workdir):
+    """Top-level modules the suite imports that exist neither on disk nor on sys.path."""
+    try:
+        tree = ast.parse(test_code)
+    except SyntaxError:
+        return []
+    names = set()
+    for node in ast.walk(tree):
+        if isinstance(node, ast.Import):
+            names.update(alias.name.split(".")[0] for alias in node.names)
+        elif isinstance(node, ast.ImportFrom) and node.module and node.level == 0:
+            names.add(node.module.split(".")[0])
+    missing = []
+    for name in sorted(names):
+        if os.path.exists(os.path.join(workdir, name + ".py")):
+            continue
+        if importlib.util.find_spec(name) is None:
+            missing.append(name)
+    return missing
+
+
+def parse_report(path):
+    results = []
+    root = ET.parse(path).getroot()
+    for case in root.iter("testcase"):
+        name = case.get("name", "unknown")
+        classname = case.get("classname", "")
+        if classname and not classname.startswith("test_"):
+            name = f"{classname.split('.')[-1]}::{name}"
+        result = {
+            "name": name,
+            "status": "PASSED",
+            "duration": f"{float(case.get('time', '0') or 0):.3f}s",
+            "origin": "EXECUTED",
+        }
+        for tag in ("failure", "error"):
+            node = case.find(tag)
+            if node is not None:
+                result["status"] = "FAILED"
+                result["message"] = node.get("message") or tag
+                result["traceback"] = (node.text or "").strip()
+                break
+        skipped = case.find("skipped")
+        if skipped is not None:
+            result["status"] = "SKIPPED"
+            result["message"] = skipped.get("message") or "skipped"
+        out = case.find("system-out")
+        if out is not None:
+            text = re.sub(r"^-+ Captured .* -+$", "", out.text or "", flags=re.MULTILINE).strip()
+            if text:
+                result["stdout"] = text
+        results.append(result)
+    return results
+
+
+def run_suite(payload, timeout):
+    python_source = payload.get("pythonSource") or ""
+    test_code = payload.get("testCode") or ""
+    if not python_source.strip() or not test_code.strip():
+        raise ValueError("pythonSource and testCode are both required")
+    module = module_name_for(payload.get("moduleName"))
+
+    with tempfile.TemporaryDirectory(prefix="parity-") as workdir:
+        with open(os.path.join(workdir, module + ".py"), "w", encoding="utf-8") as fh:
+            fh.write(python_source)
+        with open(os.path.join(workdir, "test_" + module + ".py"), "w", encoding="utf-8") as fh:
+            fh.write(test_code)
+        with open(os.path.join(workdir, "conftest.py"), "w", encoding="utf-8") as fh:
+            fh.write(NETWORK_GUARD)
+        # Generated suites guess at the module name; point unknown imports at the implementation.
+        for alias in missing_imports(test_code, workdir):
+            with open(os.path.join(workdir, alias + ".py"), "w", encoding="utf-8") as fh:
+                fh.write(f"from {module} import *  # noqa: F401,F403\n")
+
+        report = os.path.join(workdir, "report.xml")
+        command = [
+            sys.executable, "-m", "pytest", "-q", "-p", "no:cacheprovider",
+            f"--junitxml={report}", "-o", "junit_logging=system-out", "-o", "junit_family=xunit1",
+            "test_" + module + ".py",
+        ]
+        try:
+            with sandboxed(command, workdir) as (command, env):
+                proc = subprocess.run(command, cwd=workdir, env=env, capture_output=True, text=True, timeout=timeout)
+        except subprocess.TimeoutExpired:
+            return [{
+                "name": "parity_suite",
+                "status": "FAILED",
+                "duration": f"{timeout:.3f}s",
+                "origin": "EXECUTED",
+                "message": f"Timed out after {timeout}s",
+            }]
+
+        if not os.path.exists(report):
+            return [{
+                "name": "parity_suite",
+                "status": "FAILED",
+                "duration": "0.000s",
+                "origin": "EXECUTED",
+                "message": f"pytest exited with code {proc.returncode} before producing a report",
+                "traceback": (proc.stderr or proc.stdout).strip()[-8000:],
+            }]
+        results = parse_report(report)
+        if not results:
+            results.append({
+                "name": "parity_suite",
+                "status": "FAILED",
+                "duration": "0.000s",
+                "origin": "EXECUTED",
+                "message": "No tests were collected",
+                "stdout": proc.stdout.strip()[-8000:],
+            })
+        return results
+
+
+GOLDEN_HARNESS = NETWORK_GUARD + '''
+import json
+import sys
+
+import golden_driver
+
+golden_driver.run(json.loads(sys.argv[1]), sys.argv[2])
+'''
+
+
+def run_golden(payload, timeout):
+    python_source = payload.get("pythonSource") or ""
+    driver = payload.get("driver") or ""
+    inputs = payload.get("inputs") or []
+    if not python_source.strip() or not driver.strip():
+        raise ValueError("pythonSource and driver are both required")
+    if not isinstance(inputs, list):
+        raise ValueError("inputs must be a list of files")
+    module = module_name_for(payload.get("moduleName"))
+
+    with tempfile.TemporaryDirectory(prefix="golden-") as workdir:
+        with open(os.path.join(workdir, module + ".py"), "w", encoding="utf-8") as fh:
+            fh.write(python_source)
+        with open(os.path.join(workdir, "golden_driver.py"), "w", encoding="utf-8") as fh:
+            fh.write(driver)
+        with open(os.path.join(workdir, "golden_harness.py"), "w", encoding="utf-8") as fh:
+            fh.write(GOLDEN_HARNESS)
+        os.mkdir(os.path.join(workdir, "inputs"))
+        paths = []
+        for index, item in enumerate(inputs):
+            name = os.path.basename(str(item.get("name") or "")) or f"input_{index}"
+            path = os.path.join(workdir, "inputs", f"{index:02d}_{name}")
+            with open(path, "wb") as fh:
+                fh.write(base64.b64decode(item.get("content") or ""))
+            paths.append(path)
+        output = os.path.join(workdir, "output.dat")
+
+        try:
+            with sandboxed([sys.executable, "golden_harness.py", json.dumps(paths), output], workdir) as (command, env):
+                proc = subprocess.run(command, cwd=workdir, env=env, capture_output=True, text=True, timeout=timeout)
+        except subprocess.TimeoutExpired:
+            return {"error": f"Timed out after {timeout}s"}
+        logs = (proc.stdout + proc.stderr).strip()[-8000:]
+        if proc.returncode != 0:
+            return {"error": f"Driver exited with code {proc.returncode}", "stdout": logs}
+        if not os.path.exists(output):
+            return {"error": "Driver finished without writing the output file", "stdout": logs}
+        with open(output, "rb") as fh:
+            return {"output": base64.b64encode(fh.read()).decode("ascii"), "stdout": logs}
+
+
+class RunnerHandler(BaseHTTPRequestHandler):
+    timeout_seconds = 60
+    token = ""
+    allowed_origins = frozenset(DEFAULT_ORIGINS)
+
+    def _cors_headers(self):
+        # Only the app's origin is told it may read responses; anything else gets no CORS headers.
+        origin = self.headers.get("Origin")
+        if origin in self.allowed_origins:
+            self.send_header("Access-Control-Allow-Origin", origin)
+            self.send_header("Access-Control-Allow-Headers", f"Content-Type, {TOKEN_HEADER}")
+            self.send_header("Access-Control-Allow-Methods", "GET, POST, OPTIONS")
+        self.send_header("Vary", "Origin")
+
+    def _send(self, status, body):
+        data = json.dumps(body).encode("utf-8")
+        self.send_response(status)
+        self.send_header("Content-Type", "application/json")
+        self.send_header("Content-Length", str(len(data)))
+        self._cors_headers()
+        self.end_headers()
+        self.wfile.write(data)
+
+    def _authorized(self):
+        """Rejects foreign origins and missing or wrong tokens; sends the error itself."""
+        origin = self.headers.get("Origin")
+        if origin is not None and origin not in self.allowed_origins:
+            self._send(403, {"error": f"origin {origin} is not allowed"})
+            return False
+        if not secrets.compare_digest(self.headers.get(TOKEN_HEADER) or "", self.token):
+            self._send(401, {"error": "missing or invalid runner token"})
+            return False
+        return True
+
+    def do_OPTIONS(self):
+        self.send_response(204 if self.headers.get("Origin") in self.allowed_origins else 403)
+        self._cors_headers()
+        self.end_headers()
+
+    def do_GET(self):
+        if self.path != "/health":
+            self._send(404, {"error": "not found"})
+            return
+        if not self._authorized():
+            return
+        if not ISOLATION:
+            self._send(200, {"status": "unavailable", "isolation": "none", "error": UNAVAILABLE})
+            return
+        pytest_spec = importlib.util.find_spec("pytest")
+        self._send(200, {"status": "ok" if pytest_spec else "missing-pytest", "isolation": ISOLATION})
+
+    def do_POST(self):
+        if self.path not in ("/run", "/golden"):
+            self._send(404, {"error": "not found"})
+            return
+        if not self._authorized():
+            return
+        if not ISOLATION:
+            self._send(503, {"error": UNAVAILABLE})
+            return
+        content_type = (self.headers.get("Content-Type") or "").split(";")[0].strip().lower()
+        if content_type != "application/json":
+            self._send(415, {"error": "request body must be application/json"})
+            return
+        limit = MAX_GOLDEN_BYTES if self.path == "/golden" else MAX_BODY_BYTES
+        try:
+            length = int(self.headers.get("Content-Length") or 0)
+        except ValueError:
+            self._send(400, {"error": "invalid Content-Length"})
+            return
+        if length <= 0 or length > limit:
+            self._send(413, {"error": "request body missing or too large"})
+            return
+        try:
+            payload = json.loads(self.rfile.read(length).decode("utf-8"))
+            timeout = min(float(payload.get("timeoutSeconds") or self.timeout_seconds), self.timeout_seconds)
+            if self.path == "/golden":
+                self._send(200, {**run_golden(payload, timeout), "isolation": ISOLATION})
+                return
+            self._send(200, {"results": run_suite(payload, timeout), "isolation": ISOLATION})
+        except ValueError as exc:
+            self._send(400, {"error": str(exc)})
+        except Exception as exc:  # noqa: BLE001 - surface runner faults to the UI
+            self._send(500, {"error": f"runner fault: {exc}"})
+
+
+def main():
+    parser = argparse.ArgumentParser(description=__doc__.splitlines()[0])
+    parser.add_argument("--port", type=int, default=8765)
+    parser.add_argument("--timeout", type=float, default=60, help="per-suite timeout in seconds")
+    parser.add_argument(
+        "--origin", action="append", dest="origins",
+        help=f"origin the app is served from; repeatable (default: {', '.join(DEFAULT_ORIGINS)})",
+    )
+    args = parser.parse_args()
+    RunnerHandler.timeout_seconds = args.timeout
+    RunnerHandler.allowed_origins = frozenset(o.rstrip("/") for o in (args.origins or DEFAULT_ORIGINS))
+    RunnerHandler.token = os.environ.get("PARITY_RUNNER_TOKEN") or secrets.token_urlsafe(24)
+    server = ThreadingHTTPServer(("127.0.0.1", args.port), RunnerHandler)
+    print(f"Parity runner listening on http://127.0.0.1:{args.port} (isolation: {ISOLATION or 'unavailable'})")
+    print(f"Allowed origins: {', '.join(sorted(RunnerHandler.allowed_origins))}")
+    print(f"Runner token: {RunnerHandler.token}  (paste it into Model Routing > Parity Runner)")
+    if not ISOLATION:
+        print(f"Refusing to execute code: {UNAVAILABLE}. The app will simulate validation instead.")
+    try:
+        server.serve_forever()
+    except KeyboardInterrupt:
+        pass
+
+
+if __name__ == "__main__":
+    main()
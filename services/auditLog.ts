@@ -0,0 +1,129 @@
+
+import { AuditEntry, AuditVerification, ProviderId } from "../types";
+import { ModelRequest, ModelResponse } from "./providers";
+import { getCassetteMode } from "./cassette";
+import { hashText } from "./hashing";
+import { appendAuditEntry, lastAuditEntry, loadAuditEntries } from "./projectStore";
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+const OPERATOR_KEY = 'logic-lift.operator';
+
+let projectId: string | null = null;
+let operator = (typeof localStorage !== 'undefined' && localStorage.getItem(OPERATOR_KEY)) || '';
+// Appends are serialised so concurrent workers cannot fork the chain.
+let queue: Promise<unknown> = Promise.resolve();
+const heads = new Map<string, { sequence: number; hash: string }>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(l => l());
+
+export const setAuditProject = (id: string | null) => {
+  projectId = id;
+  notify();
+};
+
+export const getAuditOperator = () => operator;
+
+export const setAuditOperator = (name: string) => {
+  operator = name;
+  if (typeof localStorage !== 'undefined') localStorage.setItem(OPERATOR_KEY, name);
+  notify();
+};
+
+export const subscribeAudit = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// The hash input is a JSON array in a fixed order so the chain can be re-checked
+// outside the app: SHA-256 of JSON.stringify([...fields, previousHash]).
+export const auditHashInput = (entry: Omit<AuditEntry, 'hash'>) => JSON.stringify([
+  entry.projectId,
+  entry.sequence,
+  entry.stage,
+  entry.subject ?? null,
+  entry.provider,
+  entry.model,
+  entry.temperature ?? null,
+  entry.thinkingBudget ?? null,
+  entry.useSearch ?? null,
+  entry.prompt,
+  entry.response ?? null,
+  entry.error ?? null,
+  entry.replayed,
+  entry.actor,
+  entry.startedAt,
+  entry.finishedAt,
+  entry.previousHash
+]);
+
+const append = (record: Omit<AuditEntry, 'projectId' | 'sequence' | 'previousHash' | 'hash'>) => {
+  const id = projectId;
+  // Calls made before a project exists (there are none today) have nowhere to be filed.
+  if (!id) return Promise.resolve();
+  const next = queue.then(async () => {
+    const head = heads.get(id) ?? await lastAuditEntry(id).then(last => last ? { sequence: last.sequence, hash: last.hash } : { sequence: -1, hash: GENESIS_HASH });
+    const unsigned = { projectId: id, sequence: head.sequence + 1, ...record, previousHash: head.hash };
+    const entry: AuditEntry = { ...unsigned, hash: await hashText(auditHashInput(unsigned)) };
+    try {
+      await appendAuditEntry(entry);
+    } catch (error) {
+      heads.delete(id);
+      throw error;
+    }
+    heads.set(id, { sequence: entry.sequence, hash: entry.hash });
+    notify();
+  });
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+// Records the call whether it succeeds or fails. A call that cannot be written to the
+// trail fails its stage rather than producing output with no record behind it.
+export const withAudit = async (
+  request: ModelRequest,
+  provider: ProviderId,
+  call: () => Promise<ModelResponse>
+): Promise<ModelResponse> => {
+  const startedAt = new Date().toISOString();
+  const replayed = getCassetteMode() === 'replay';
+  const record = {
+    stage: request.stage,
+    subject: request.subject,
+    provider,
+    model: request.model,
+    temperature: request.temperature,
+    thinkingBudget: request.thinkingBudget,
+    useSearch: request.useSearch,
+    prompt: request.prompt,
+    replayed,
+    actor: operator || 'unidentified',
+    startedAt
+  };
+  let response: ModelResponse;
+  try {
+    response = await call();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await append({ ...record, error: message, finishedAt: new Date().toISOString() });
+    throw error;
+  }
+  await append({ ...record, response: { text: response.text, sources: response.sources }, finishedAt: new Date().toISOString() });
+  return response;
+};
+
+export const loadAuditTrail = (id: string) => loadAuditEntries(id);
+
+export const verifyAuditChain = async (entries: AuditEntry[]): Promise<AuditVerification> => {
+  let previousHash = GENESIS_HASH;
+  for (let i = 0; i < entries.length; i++) {
+    const { hash, ...unsigned } = entries[i];
+    const fail = (reason: string): AuditVerification => ({ valid: false, entries: entries.length, headHash: previousHash, brokenAt: unsigned.sequence, reason });
+    if (unsigned.sequence !== i) return fail(`expected entry ${i}, found ${unsigned.sequence}`);
+    if (unsigned.previousHash !== previousHash) return fail('previous hash does not match the entry before it');
+    if (await hashText(auditHashInput(unsigned)) !== hash) return fail('entry content does not match its hash');
+    previousHash = hash;
+  }
+  return { valid: true, entries: entries.length, headHash: previousHash };
+};
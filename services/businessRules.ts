@@ -0,0 +1,137 @@
+
+import { BusinessRule, BusinessRuleCategory, CodeChunk, TargetLanguage, TestResult } from "../types";
+import { findProgramId } from "./cobolSource";
+import { findParagraphs, procedureLines } from "./complexityAnalyzer";
+import { blockEnd, findPythonSymbol, findTargetSymbol } from "./traceability";
+import { chunkLanguage, pythonModuleName } from "./targets";
+
+export const RULE_CATEGORIES: BusinessRuleCategory[] = ['CALCULATION', 'VALIDATION', 'ROUTING'];
+
+export type RawBusinessRule = Pick<BusinessRule, 'description' | 'cobolParagraph' | 'targetSymbol'> & { category?: string };
+
+// Only used when the model leaves the category out, or for rules written before it had one.
+const CATEGORY_HINTS: [BusinessRuleCategory, RegExp][] = [
+  ['VALIDATION', /\b(valid|invalid|check|verif|reject|must|require|allow|permit|range|missing|blank|error)/i],
+  ['CALCULATION', /\b(comput|calculat|add|subtract|multipl|divid|total|sum|interest|rate|round|balance|amount|fee|percent)/i]
+];
+
+const categorize = (description: string, category?: string): BusinessRuleCategory =>
+  RULE_CATEGORIES.find(c => c === category?.toUpperCase())
+  || CATEGORY_HINTS.find(([, hint]) => hint.test(description))?.[0]
+  || 'ROUTING';
+
+// Splits the free-text rules older transforms returned into one rule per bullet or paragraph.
+export const splitLegacyRules = (text: string): RawBusinessRule[] => {
+  const items: string[] = [];
+  let fresh = true;
+  text.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      fresh = true;
+      return;
+    }
+    const bullet = trimmed.match(/^(?:[-*•]|\d+[.)])\s+(.*)$/);
+    if (!bullet && (/^#+\s/.test(trimmed) || /:$/.test(trimmed))) return;
+    if (bullet || fresh || !items.length) items.push(bullet ? bullet[1] : trimmed);
+    else items[items.length - 1] += ` ${trimmed}`;
+    fresh = false;
+  });
+  return items.map(item => item.replace(/\*\*/g, '').trim()).filter(Boolean).map(description => ({ description }));
+};
+
+const ruleNumber = (id: string) => Number(id.match(/-BR-(\d+)$/)?.[1]) || 0;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Gives each rule an ID and resolves its COBOL paragraph and implementing symbol to line
+// ranges. A rule keeps its previous ID when its wording, or its paragraph, category and
+// symbol, are unchanged; new rules are numbered after the highest ID already issued.
+export const resolveBusinessRules = (
+  cobolSource: string,
+  chunkName: string,
+  targetSource: string,
+  raw: RawBusinessRule[] | string | undefined,
+  language: TargetLanguage,
+  previous: BusinessRule[] = []
+): BusinessRule[] => {
+  const rules = typeof raw === 'string' ? splitLegacyRules(raw) : (raw || []).filter(r => r?.description?.trim());
+  const paragraphs = new Map(findParagraphs(procedureLines(cobolSource)).map(p => [p.name, p]));
+  const prefix = `${findProgramId(cobolSource) || pythonModuleName(chunkName).toUpperCase()}-BR-`;
+  const unused = [...previous];
+  let next = Math.max(0, ...previous.map(r => ruleNumber(r.id)));
+  return rules.map(rule => {
+    const category = categorize(rule.description, rule.category);
+    const paragraphName = rule.cobolParagraph?.trim().toUpperCase().replace(/\.$/, '').replace(/\s+SECTION$/, '') || undefined;
+    const paragraph = paragraphName ? paragraphs.get(paragraphName) : undefined;
+    const symbol = rule.targetSymbol?.trim() || undefined;
+    const target = symbol && targetSource ? findTargetSymbol(targetSource, symbol, language) : undefined;
+    const match = unused.find(p => normalize(p.description) === normalize(rule.description))
+      || (paragraphName && symbol ? unused.find(p => p.category === category && p.cobolParagraph === paragraphName && p.targetSymbol === symbol) : undefined);
+    if (match) unused.splice(unused.indexOf(match), 1);
+    return {
+      id: match?.id || `${prefix}${String(++next).padStart(3, '0')}`,
+      category,
+      description: rule.description.trim(),
+      cobolParagraph: paragraphName,
+      cobolStartLine: paragraph?.line,
+      cobolEndLine: paragraph?.endLine,
+      targetSymbol: symbol,
+      targetStartLine: target?.startLine,
+      targetEndLine: target?.endLine
+    };
+  });
+};
+
+export interface TestCase {
+  name: string;
+  body: string;
+}
+
+// Test functions in a generated suite with their source, found the same way as traceability symbols.
+export const findTestCases = (unitTest: string, language: TargetLanguage): TestCase[] => {
+  const lines = unitTest.split('\n');
+  const cases: TestCase[] = [];
+  const push = (name: string, start: number, end?: number) =>
+    cases.push({ name, body: lines.slice(start, (end ?? start) + 1).join('\n') });
+  lines.forEach((line, i) => {
+    if (language === 'python') {
+      const name = line.match(/^\s*(?:async\s+)?def\s+(test\w*)\s*\(/)?.[1];
+      const range = name ? findPythonSymbol(lines.slice(i).join('\n'), name) : undefined;
+      if (name && range) push(name, i + range.startLine - 1, i + range.endLine - 1);
+    } else if (language === 'java') {
+      if (!/^\s*@(?:Test|ParameterizedTest|RepeatedTest)\b/.test(line)) return;
+      const at = lines.findIndex((l, j) => j >= i && /\bvoid\s+\w+\s*\(/.test(l));
+      if (at >= 0) push(lines[at].match(/\bvoid\s+(\w+)\s*\(/)![1], i, blockEnd(lines, at, lines.length));
+    } else {
+      const name = line.match(/^\s*(?:it|test)(?:\.each\(.*?\))?\(\s*(['"`])(.+?)\1/)?.[2];
+      if (name) push(name, i, blockEnd(lines, i, lines.length));
+    }
+  });
+  return cases;
+};
+
+export interface RuleCoverage {
+  rule: BusinessRule;
+  tests: { name: string; status?: TestResult['status'] }[];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A test covers a rule when it calls the rule's implementing symbol or names the rule's ID.
+// Calls through an entry point that reaches the symbol indirectly are not counted.
+export const ruleCoverage = (chunk: CodeChunk): RuleCoverage[] => {
+  const cases = chunk.unitTest ? findTestCases(chunk.unitTest, chunkLanguage(chunk)) : [];
+  const statusOf = (name: string) =>
+    chunk.testResults?.find(r => r.name === name || r.name.endsWith(`::${name}`) || r.name.endsWith(`.${name}`))?.status;
+  return (chunk.businessRules || []).map(rule => {
+    const member = rule.targetSymbol?.replace(/\(\)$/, '').split('.').pop();
+    const refers = new RegExp([escapeRegExp(rule.id), ...(member ? [`(?<![\\w$])${escapeRegExp(member)}(?![\\w$])`] : [])].join('|'));
+    return { rule, tests: cases.filter(t => refers.test(t.body)).map(t => ({ name: t.name, status: statusOf(t.name) })) };
+  });
+};
+
+export const matchesRuleQuery = (rule: BusinessRule, chunk: CodeChunk, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const text = [rule.id, rule.category, rule.description, rule.cobolParagraph, rule.targetSymbol, chunk.name].join(' ').toLowerCase();
+  return terms.every(term => text.includes(term));
+};
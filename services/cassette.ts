@@ -0,0 +1,87 @@
+
+import { Cassette, CassetteEntry, CassetteMode, PipelineStage, ProviderId } from "../types";
+import { ModelRequest, ModelResponse } from "./providers";
+import { hashText } from "./hashing";
+
+const CASSETTE_VERSION = 1;
+
+let mode: CassetteMode = 'off';
+let cassette: Cassette = { version: CASSETTE_VERSION, createdAt: new Date().toISOString(), entries: [] };
+let replayCursor = new Map<string, number>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(l => l());
+
+const cassetteKey = (stage: PipelineStage, promptHash: string) => `${stage}:${promptHash}`;
+
+export const getCassetteMode = () => mode;
+
+export const setCassetteMode = (next: CassetteMode) => {
+  mode = next;
+  replayCursor = new Map();
+  if (next === 'record') cassette = { version: CASSETTE_VERSION, createdAt: new Date().toISOString(), entries: [] };
+  notify();
+};
+
+export const getCassette = () => cassette;
+
+export const subscribeCassette = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const loadCassette = (json: string) => {
+  let parsed: Cassette;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    throw new Error("Cassette file is not valid JSON.");
+  }
+  if (parsed?.version !== CASSETTE_VERSION || !Array.isArray(parsed.entries)) {
+    throw new Error(`Unsupported cassette format (expected version ${CASSETTE_VERSION}).`);
+  }
+  cassette = parsed;
+  replayCursor = new Map();
+  notify();
+  return cassette;
+};
+
+// Identical prompts may legitimately be sent more than once in a run (e.g. a re-run
+// parity cycle), so replay serves matching entries in recorded order.
+const replay = (key: string, stage: PipelineStage, promptHash: string): ModelResponse => {
+  const matches = cassette.entries.filter(e => e.key === key);
+  if (matches.length === 0) {
+    throw new Error(`Cassette miss: no recorded ${stage} response for prompt ${promptHash.substring(0, 12)}.`);
+  }
+  const position = replayCursor.get(key) || 0;
+  replayCursor.set(key, position + 1);
+  return matches[Math.min(position, matches.length - 1)].response;
+};
+
+export const withCassette = async (
+  request: ModelRequest,
+  provider: ProviderId,
+  call: () => Promise<ModelResponse>
+): Promise<ModelResponse> => {
+  if (mode === 'off') return call();
+
+  const promptHash = await hashText(request.prompt);
+  const key = cassetteKey(request.stage, promptHash);
+  if (mode === 'replay') return replay(key, request.stage, promptHash);
+
+  const response = await call();
+  const entry: CassetteEntry = {
+    key,
+    stage: request.stage,
+    promptHash,
+    provider,
+    model: request.model,
+    subject: request.subject,
+    prompt: request.prompt,
+    response,
+    recordedAt: new Date().toISOString()
+  };
+  cassette = { ...cassette, entries: [...cassette.entries, entry] };
+  notify();
+  return response;
+};
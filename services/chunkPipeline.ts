@@ -0,0 +1,96 @@
+
+import { ChunkStage, CodeChunk, GoldenParityReport, StageState } from "../types";
+import * as gemini from "./geminiService";
+import { RunnerHealth, checkParityRunner, runParitySuite } from "./parityRunner";
+import { resolveTraceability } from "./traceability";
+import { resolveBusinessRules } from "./businessRules";
+import { failedGoldenRun, runGoldenParity } from "./goldenParity";
+import { TARGETS, chunkLanguage } from "./targets";
+
+export const CHUNK_STAGES: ChunkStage[] = ['research', 'transform', 'tests', 'validation'];
+
+// Validation runs on demand from the Tests view; the queue drives the rest.
+export const AUTOMATIC_STAGES: ChunkStage[] = ['research', 'transform', 'tests'];
+
+export const STAGE_LABELS: Record<ChunkStage, string> = {
+  research: 'Research',
+  transform: 'Transform',
+  tests: 'Tests',
+  validation: 'Validation'
+};
+
+export const stageState = (chunk: CodeChunk, stage: ChunkStage): StageState =>
+  chunk.stages?.[stage]?.state || (chunk.status === 'DONE' && stage !== 'validation' ? 'DONE' : 'PENDING');
+
+export const withStageState = (chunk: CodeChunk, stage: ChunkStage, state: StageState, error?: string): CodeChunk => ({
+  ...chunk,
+  stages: { ...chunk.stages, [stage]: { state, error, updatedAt: new Date().toISOString() } }
+});
+
+// Everything after `stage` in the pipeline that already produced output.
+export const markDownstreamStale = (chunk: CodeChunk, stage: ChunkStage): CodeChunk =>
+  CHUNK_STAGES.slice(CHUNK_STAGES.indexOf(stage) + 1).reduce(
+    (c, s) => stageState(c, s) === 'DONE' ? withStageState(c, s, 'STALE') : c,
+    chunk
+  );
+
+// The stages still owed before a chunk counts as recovered, starting at the failed one.
+export const remainingStages = (chunk: CodeChunk): ChunkStage[] => {
+  if (chunk.failedStage === 'validation') return ['validation'];
+  return AUTOMATIC_STAGES.filter(s => stageState(chunk, s) !== 'DONE');
+};
+
+export const isRecovered = (chunk: CodeChunk) => AUTOMATIC_STAGES.every(s => {
+  const state = stageState(chunk, s);
+  return state === 'DONE' || state === 'STALE';
+});
+
+// Lines of the chunks currently DONE; recomputed rather than accumulated so a chunk
+// that fails re-validation and recovers again is not counted twice.
+export const recoveredLines = (chunks: CodeChunk[]) =>
+  chunks.reduce((total, c) => total + (c.status === 'DONE' ? c.cobolSource.split('\n').length : 0), 0);
+
+export const runChunkStage = async (chunk: CodeChunk, stage: ChunkStage, signal?: AbortSignal): Promise<Partial<CodeChunk>> => {
+  switch (stage) {
+    case 'research': {
+      const { research, sources } = await gemini.researchModernEquivalents(chunk.name, signal);
+      return { research, groundingSources: sources };
+    }
+    case 'transform': {
+      const { traceability, businessRules, ...result } = await gemini.processModuleLogic(chunk, chunk.research || '', signal);
+      return {
+        ...result,
+        businessRules: resolveBusinessRules(chunk.cobolSource, chunk.name, result.targetSource, businessRules, result.targetLanguage, chunk.businessRules),
+        traceability: resolveTraceability(chunk.cobolSource, result.targetSource, traceability, result.targetLanguage)
+      };
+    }
+    case 'tests': {
+      if (!chunk.targetSource) throw new Error("No implementation to test; run the transform stage first.");
+      const { testCode, coverageEstimate } = await gemini.generateTests(chunk.targetSource, chunk.cobolSource, chunk.name, chunkLanguage(chunk), signal);
+      if (!testCode.trim()) throw new Error("Test generation returned an empty suite.");
+      return { unitTest: testCode, coverage: coverageEstimate };
+    }
+    case 'validation': {
+      if (!chunk.targetSource || !chunk.unitTest) throw new Error("Validation needs both an implementation and a test suite.");
+      const language = chunkLanguage(chunk);
+      // The runner only executes Python; other targets are simulated until they have one.
+      const runner: RunnerHealth = language === 'python' ? await checkParityRunner() : { available: false };
+      const testResults = runner.available
+        ? await runParitySuite(chunk.name, chunk.targetSource, chunk.unitTest, 60, signal)
+        : await gemini.executeValidation(chunk.targetSource, chunk.unitTest, chunk.name, language, signal);
+      if (!chunk.goldenDatasets?.length) return { testResults };
+      // Golden comparisons are evidence, so they are never simulated.
+      const goldenResults: GoldenParityReport[] = [];
+      for (const dataset of chunk.goldenDatasets) {
+        goldenResults.push(language !== 'python'
+          ? failedGoldenRun(dataset, `Golden-dataset parity runs Python targets only; this module is ${TARGETS[language].label}.`)
+          : runner.available
+            ? await runGoldenParity(chunk, dataset, signal)
+            : failedGoldenRun(dataset, runner.reason
+              ? `Golden-dataset parity needs a sandboxed parity runner; the local runner reports ${runner.reason}.`
+              : 'Golden-dataset parity needs the local parity runner (npm run runner).'));
+      }
+      return { testResults, goldenResults };
+    }
+  }
+};
@@ -0,0 +1,121 @@
+
+import { CicsCommand, CicsCommandCategory, CicsContract, CicsInventory, ParsedDataField } from "../types";
+import { findExecBlocks, toCodeLines, toSentences } from "./cobolSource";
+
+const CATEGORIES: Record<string, CicsCommandCategory> = {
+  LINK: 'PROGRAM', XCTL: 'PROGRAM', LOAD: 'PROGRAM', RELEASE: 'PROGRAM',
+  RETURN: 'TRANSACTION', START: 'TRANSACTION', CANCEL: 'TRANSACTION', RETRIEVE: 'TRANSACTION',
+  READ: 'FILE', WRITE: 'FILE', REWRITE: 'FILE', DELETE: 'FILE', UNLOCK: 'FILE',
+  STARTBR: 'FILE', READNEXT: 'FILE', READPREV: 'FILE', RESETBR: 'FILE', ENDBR: 'FILE',
+  SEND: 'TERMINAL', RECEIVE: 'TERMINAL', CONVERSE: 'TERMINAL',
+  WRITEQ: 'QUEUE', READQ: 'QUEUE', DELETEQ: 'QUEUE'
+};
+
+// Options that complete the verb rather than qualify it: SEND MAP, WRITEQ TS, HANDLE AID.
+const QUALIFIERS: Record<string, string[]> = {
+  SEND: ['MAP', 'TEXT', 'CONTROL', 'PAGE'],
+  RECEIVE: ['MAP'],
+  WRITEQ: ['TS', 'TD'],
+  READQ: ['TS', 'TD'],
+  DELETEQ: ['TS', 'TD'],
+  HANDLE: ['CONDITION', 'AID', 'ABEND'],
+  IGNORE: ['CONDITION']
+};
+
+const TARGET_OPTIONS: Record<CicsCommandCategory, string[]> = {
+  PROGRAM: ['PROGRAM'],
+  TRANSACTION: ['TRANSID'],
+  FILE: ['FILE', 'DATASET'],
+  TERMINAL: ['MAP'],
+  QUEUE: ['QUEUE', 'QNAME'],
+  CONTROL: ['PROGRAM']
+};
+
+// Reads `NAME` and `NAME(argument)` pairs; arguments may nest parentheses and quotes.
+const readOptions = (body: string) => {
+  const options: [string, string][] = [];
+  let i = 0;
+  while (i < body.length) {
+    const word = body.slice(i).match(/^\s*([A-Z0-9-]+)\s*/i);
+    if (!word) break;
+    i += word[0].length;
+    let argument = '';
+    if (body[i] === '(') {
+      let depth = 0;
+      let quote: string | null = null;
+      const start = i + 1;
+      for (; i < body.length; i++) {
+        const ch = body[i];
+        if (quote) {
+          if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") quote = ch;
+        else if (ch === '(') depth++;
+        else if (ch === ')' && --depth === 0) break;
+      }
+      argument = body.slice(start, i).trim();
+      i++;
+    }
+    options.push([word[1].toUpperCase(), argument]);
+  }
+  return options;
+};
+
+const literal = (argument: string) => argument.match(/^(["'])(.*)\1$/)?.[2];
+
+// Every EXEC CICS ... END-EXEC block, in source order.
+export const extractCicsCommands = (cobolSource: string): CicsCommand[] => {
+  const commands: CicsCommand[] = [];
+  for (const block of findExecBlocks(cobolSource, 'CICS')) {
+    const options = readOptions(block.body);
+    if (!options.length) continue;
+    const [[verb], ...rest] = options;
+    const qualifier = rest.find(([name]) => QUALIFIERS[verb]?.includes(name))?.[0];
+    const category = CATEGORIES[verb] || 'CONTROL';
+    const targetOption = rest.find(([name, argument]) => argument && TARGET_OPTIONS[category].includes(name));
+    const target = targetOption ? literal(targetOption[1]) ?? targetOption[1].toUpperCase() : undefined;
+    commands.push({
+      command: qualifier ? `${verb} ${qualifier}` : verb,
+      category,
+      target,
+      dynamicTarget: targetOption && literal(targetOption[1]) === undefined ? true : undefined,
+      options: Object.fromEntries(rest.filter(([name]) => name !== qualifier)),
+      line: block.line,
+      endLine: block.endLine
+    });
+  }
+  return commands;
+};
+
+// The record named by a COMMAREA option, without reference modification or subscripts.
+const commareaRecord = (argument?: string) => argument?.toUpperCase().match(/^[A-Z0-9-]+/)?.[0];
+
+// A transaction receives DFHCOMMAREA (or, when LINKed, its PROCEDURE DIVISION USING
+// parameter) and hands back the record on RETURN ... COMMAREA, which is usually the same one.
+const findContract = (cobolSource: string, commands: CicsCommand[], layout: ParsedDataField[]): CicsContract | undefined => {
+  const records = new Set(layout.filter(f => f.level === 1).map(f => f.path));
+  const linkage = layout.filter(f => f.level === 1 && f.section === 'LINKAGE').map(f => f.path);
+  const using = toSentences(toCodeLines(cobolSource))
+    .map(s => s.text.toUpperCase().match(/^PROCEDURE\s+DIVISION\s+USING\s+(.+?)\.?$/))
+    .find(Boolean)?.[1].split(/\s+/) || [];
+  const request = linkage.find(r => r === 'DFHCOMMAREA') || using.find(r => linkage.includes(r));
+  const returned = commands
+    .filter(c => c.command === 'RETURN')
+    .map(c => commareaRecord(c.options.COMMAREA))
+    .find((r): r is string => !!r && records.has(r));
+  const response = returned || request;
+  return request || response ? { request: request || response!, response: response! } : undefined;
+};
+
+export const buildCicsInventory = (cobolSource: string, layout: ParsedDataField[] = []): CicsInventory | undefined => {
+  const commands = extractCicsCommands(cobolSource);
+  const contract = findContract(cobolSource, commands, layout);
+  // A batch subprogram's USING parameters are a CALL interface, not a transaction contract.
+  if (!commands.length && contract?.request !== 'DFHCOMMAREA') return undefined;
+  const transactionIds = cicsResources(commands, 'TRANSACTION');
+  return { commands, transactionIds, contract };
+};
+
+// Distinct named resources the program touches, for summaries and the cloud mapping.
+// Targets held in data items are only known at run time and are left out.
+export const cicsResources = (commands: CicsCommand[], category: CicsCommandCategory, command?: RegExp) =>
+  [...new Set(commands.filter(c => c.category === category && c.target && !c.dynamicTarget && (!command || command.test(c.command))).map(c => c.target!))];
@@ -0,0 +1,187 @@
+
+import { CloudMapping, CloudProvider, LegacyWorkload } from "../types";
+import { cicsResources, extractCicsCommands } from "./cicsInventory";
+import { findProgramId, toCodeLines, toSentences } from "./cobolSource";
+
+export const CLOUD_PROVIDERS: Record<CloudProvider, { label: string; short: string }> = {
+  'gcp': { label: 'Google Cloud', short: 'GCP' },
+  'aws': { label: 'Amazon Web Services', short: 'AWS' },
+  'azure': { label: 'Microsoft Azure', short: 'Azure' },
+  'onprem-k8s': { label: 'On-prem Kubernetes', short: 'on-prem Kubernetes' }
+};
+
+export const WORKLOADS: LegacyWorkload[] = ['VSAM', 'SEQUENTIAL', 'CICS', 'BATCH'];
+
+interface CatalogService {
+  service: string;
+  // Shorter name used in prompts where the full product name reads awkwardly.
+  alias?: string;
+  rationale: string;
+}
+
+// One reviewed answer per workload and cloud, so every module maps the same legacy
+// construct to the same service instead of whatever the model suggests that day.
+export const CLOUD_CATALOG: Record<LegacyWorkload, { label: string; services: Record<CloudProvider, CatalogService> }> = {
+  VSAM: {
+    label: 'VSAM / indexed and relative files',
+    services: {
+      'gcp': { service: 'Cloud Spanner', rationale: 'Keyed reads, browse by key range and strongly consistent updates match KSDS access without sharding logic in the application.' },
+      'aws': { service: 'Amazon Aurora PostgreSQL', rationale: 'Primary-key and range access with ACID updates; record keys become B-tree primary keys.' },
+      'azure': { service: 'Azure SQL Database', rationale: 'Clustered primary keys give KSDS-style keyed and sequential access with transactional rewrites.' },
+      'onprem-k8s': { service: 'PostgreSQL (CloudNativePG operator)', rationale: 'Operator-managed PostgreSQL keeps keyed access and transactions inside the cluster.' }
+    }
+  },
+  SEQUENTIAL: {
+    label: 'Sequential files and GDGs',
+    services: {
+      'gcp': { service: 'Cloud Storage', alias: 'GCS', rationale: 'Whole-file objects with generation numbers stand in for GDG versions; readers stream records.' },
+      'aws': { service: 'Amazon S3', alias: 'S3', rationale: 'Versioned objects replace GDG generations and are streamed record by record.' },
+      'azure': { service: 'Azure Blob Storage', alias: 'Blob Storage', rationale: 'Versioned block blobs replace GDG generations and are streamed record by record.' },
+      'onprem-k8s': { service: 'MinIO object storage', alias: 'MinIO', rationale: 'S3-compatible buckets on cluster storage keep the same streaming read and write pattern.' }
+    }
+  },
+  CICS: {
+    label: 'CICS online transactions',
+    services: {
+      'gcp': { service: 'Cloud Run', rationale: 'Each transaction becomes a stateless HTTP service; COMMAREA state moves into the request and response.' },
+      'aws': { service: 'Amazon ECS on AWS Fargate behind API Gateway', rationale: 'Containerised transaction services scale per request without managing hosts.' },
+      'azure': { service: 'Azure Container Apps', rationale: 'Containerised transaction services with HTTP ingress and scale-to-zero.' },
+      'onprem-k8s': { service: 'Kubernetes Deployment with Service and Ingress', rationale: 'Transactions run as horizontally scaled pods behind the cluster ingress.' }
+    }
+  },
+  BATCH: {
+    label: 'Batch programs and JCL steps',
+    services: {
+      'gcp': { service: 'Cloud Run jobs orchestrated by Workflows', rationale: 'Run-to-completion containers per step; the workflow carries JCL step order and condition codes.' },
+      'aws': { service: 'AWS Batch orchestrated by Step Functions', rationale: 'Queued run-to-completion jobs; the state machine carries JCL step order and condition codes.' },
+      'azure': { service: 'Azure Container Apps jobs orchestrated by Logic Apps', rationale: 'Run-to-completion containers per step; the logic app carries JCL step order and condition codes.' },
+      'onprem-k8s': { service: 'Kubernetes Jobs orchestrated by Argo Workflows', rationale: 'One Job per step; the Argo DAG carries JCL step order and condition codes.' }
+    }
+  }
+};
+
+type CicsResource = 'TRANSACTION' | 'TS_QUEUE' | 'TD_QUEUE' | 'MAP';
+
+// CICS resources a transaction uses besides its own program and files.
+const CICS_RESOURCES: Record<CicsResource, Record<CloudProvider, CatalogService>> = {
+  TRANSACTION: {
+    'gcp': { service: 'API Gateway', rationale: 'The transaction ID becomes a route to the service; the COMMAREA contract is published as its OpenAPI spec.' },
+    'aws': { service: 'Amazon API Gateway', rationale: 'The transaction ID becomes a route to the service; the COMMAREA contract is published as its OpenAPI spec.' },
+    'azure': { service: 'Azure API Management', rationale: 'The transaction ID becomes an API operation; the COMMAREA contract is imported as its OpenAPI spec.' },
+    'onprem-k8s': { service: 'Kubernetes Ingress with the OpenAPI contract', rationale: 'The transaction ID becomes an ingress route to the service that implements the COMMAREA contract.' }
+  },
+  TS_QUEUE: {
+    'gcp': { service: 'Memorystore for Redis', rationale: 'Temporary storage queues hold scratch and paging state between tasks; Redis lists keep that state outside the stateless service.' },
+    'aws': { service: 'Amazon ElastiCache for Redis', rationale: 'Temporary storage queues hold scratch and paging state between tasks; Redis lists keep that state outside the stateless service.' },
+    'azure': { service: 'Azure Cache for Redis', rationale: 'Temporary storage queues hold scratch and paging state between tasks; Redis lists keep that state outside the stateless service.' },
+    'onprem-k8s': { service: 'Redis (operator-managed)', rationale: 'Temporary storage queues hold scratch and paging state between tasks; Redis lists keep that state outside the stateless pods.' }
+  },
+  TD_QUEUE: {
+    'gcp': { service: 'Pub/Sub', rationale: 'Transient data queues hand records to another task asynchronously, which maps to a topic and subscription.' },
+    'aws': { service: 'Amazon SQS', rationale: 'Transient data queues hand records to another task asynchronously, which maps to a queue.' },
+    'azure': { service: 'Azure Service Bus', rationale: 'Transient data queues hand records to another task asynchronously, which maps to a queue.' },
+    'onprem-k8s': { service: 'RabbitMQ (operator-managed)', rationale: 'Transient data queues hand records to another task asynchronously, which maps to a queue.' }
+  },
+  MAP: {
+    'gcp': { service: 'Firebase Hosting web front end', rationale: 'BMS screens become web pages that call the transaction API with the same fields.' },
+    'aws': { service: 'AWS Amplify Hosting web front end', rationale: 'BMS screens become web pages that call the transaction API with the same fields.' },
+    'azure': { service: 'Azure Static Web Apps front end', rationale: 'BMS screens become web pages that call the transaction API with the same fields.' },
+    'onprem-k8s': { service: 'Static web front end served by NGINX', rationale: 'BMS screens become web pages that call the transaction API with the same fields.' }
+  }
+};
+
+export const catalogService = (workload: LegacyWorkload, provider: CloudProvider) => CLOUD_CATALOG[workload].services[provider];
+
+export interface DetectedWorkload {
+  workload: LegacyWorkload;
+  component: string;
+}
+
+// Reads FILE-CONTROL SELECT entries and the program's shape. Files default to
+// sequential organization, as in COBOL; indexed and relative files are VSAM clusters.
+export const detectWorkloads = (cobolSource: string): DetectedWorkload[] => {
+  const lines = toCodeLines(cobolSource);
+  const detected: DetectedWorkload[] = [];
+  toSentences(lines).forEach(({ text }) => {
+    const select = text.toUpperCase().match(/\bSELECT\s+(?:OPTIONAL\s+)?([A-Z0-9-]+)\s+ASSIGN\b/);
+    if (!select) return;
+    const organization = text.toUpperCase().match(/\bORGANIZATION\s+(?:IS\s+)?(INDEXED|RELATIVE|(?:LINE\s+)?SEQUENTIAL)\b/)?.[1] || 'SEQUENTIAL';
+    detected.push({
+      workload: /INDEXED|RELATIVE/.test(organization) ? 'VSAM' : 'SEQUENTIAL',
+      component: `${select[1]} (${organization.replace(/\s+/g, ' ').toLowerCase()} file)`
+    });
+  });
+
+  const program = findProgramId(cobolSource);
+  const hasProcedure = lines.some(l => /^\s*PROCEDURE\s+DIVISION\b/i.test(l.text));
+  if (program && hasProcedure) {
+    const online = lines.some(l => /\bEXEC\s+CICS\b/i.test(l.text));
+    detected.push(online
+      ? { workload: 'CICS', component: `${program} (CICS program)` }
+      : { workload: 'BATCH', component: `${program} (batch program)` });
+  }
+  return detected;
+};
+
+export interface RawCloudMapping {
+  legacyComponent: string;
+  workload?: string;
+  service?: string;
+  rationale?: string;
+}
+
+// Rows for the CICS resources in the program's EXEC CICS inventory. Files under CICS
+// file control are VSAM clusters, so they get the VSAM service.
+const cicsMappings = (cobolSource: string, provider: CloudProvider): CloudMapping[] => {
+  const commands = extractCicsCommands(cobolSource);
+  const row = (legacyComponent: string, resource: CicsResource): CloudMapping =>
+    ({ legacyComponent, provider, ...CICS_RESOURCES[resource][provider], workload: 'CICS' });
+  const { service, rationale } = catalogService('CICS', provider);
+  return [
+    ...cicsResources(commands, 'TRANSACTION').map(t => row(`Transaction ${t}`, 'TRANSACTION')),
+    ...cicsResources(commands, 'PROGRAM', /^(LINK|XCTL)$/).map(p => ({
+      legacyComponent: `LINK/XCTL to ${p}`,
+      provider,
+      service,
+      rationale: `${p} runs as its own service and is called over HTTP with its COMMAREA contract. ${rationale}`,
+      workload: 'CICS' as const
+    })),
+    ...cicsResources(commands, 'FILE').map(f => {
+      const vsam = catalogService('VSAM', provider);
+      return { legacyComponent: `CICS file ${f}`, provider, service: vsam.service, rationale: vsam.rationale, workload: 'VSAM' as const };
+    }),
+    ...cicsResources(commands, 'QUEUE', /^\w+( TS)?$/).map(q => row(`TS queue ${q}`, 'TS_QUEUE')),
+    ...cicsResources(commands, 'QUEUE', / TD$/).map(q => row(`TD queue ${q}`, 'TD_QUEUE')),
+    ...cicsResources(commands, 'TERMINAL').map(m => row(`BMS map ${m}`, 'MAP'))
+  ];
+};
+
+// Statically detected components always get their catalog service. Model rows for a
+// workload the catalog knows are pointed at the same service; anything else is kept
+// as the model proposed it.
+export const mapToCatalog = (cobolSource: string, modelMappings: RawCloudMapping[] = [], provider: CloudProvider): CloudMapping[] => {
+  const fromCatalog = (legacyComponent: string, workload: LegacyWorkload): CloudMapping => {
+    const { service, rationale } = catalogService(workload, provider);
+    return { legacyComponent, provider, service, rationale, workload };
+  };
+
+  const detected = detectWorkloads(cobolSource);
+  const covered = new Set(detected.map(d => d.workload));
+  const rows = detected.map(d => fromCatalog(d.component, d.workload));
+  rows.push(...cicsMappings(cobolSource, provider));
+  modelMappings.forEach(m => {
+    if (!m.legacyComponent) return;
+    const workload = WORKLOADS.find(w => w === m.workload?.toUpperCase());
+    if (workload && covered.has(workload)) return;
+    if (workload) {
+      rows.push(fromCatalog(m.legacyComponent, workload));
+    } else if (m.service) {
+      rows.push({ legacyComponent: m.legacyComponent, provider, service: m.service, rationale: m.rationale || '' });
+    }
+  });
+  return rows;
+};
+
+// The catalog spelled out for the transform prompt.
+export const catalogPrompt = (provider: CloudProvider) =>
+  WORKLOADS.map(w => `${CLOUD_CATALOG[w].label} → ${catalogService(w, provider).service}`).join('; ');
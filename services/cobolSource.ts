@@ -0,0 +1,122 @@
+
+export interface SourceLine {
+  number: number;
+  text: string;
+  areaA: boolean;
+}
+
+const FIXED_FORMAT = /^[0-9A-Za-z ]{6}[ *\/\-Dd]/;
+
+// Normalizes fixed-format (sequence area, indicator column, columns 73+) and
+// free-format (*> comments) COBOL into code-only lines, keeping 1-based line numbers.
+export const toCodeLines = (source: string, firstLine = 1): SourceLine[] => {
+  const raw = source.split('\n');
+  const nonBlank = raw.filter(l => l.trim().length > 0);
+  const fixed = nonBlank.length > 0 &&
+    nonBlank.filter(l => FIXED_FORMAT.test(l) || l.length <= 6).length / nonBlank.length > 0.8;
+
+  return raw.map((line, idx) => {
+    let text = line.replace(/\r$/, '');
+    let areaA = false;
+    if (fixed) {
+      const indicator = text.charAt(6);
+      if (indicator === '*' || indicator === '/') {
+        text = '';
+      } else {
+        text = text.substring(7, 72);
+        areaA = /^ {0,3}\S/.test(text);
+      }
+    } else {
+      areaA = /^\S/.test(text);
+    }
+    const inline = text.indexOf('*>');
+    if (inline >= 0) text = text.substring(0, inline);
+    return { number: firstLine + idx, text: text.trimEnd(), areaA };
+  });
+};
+
+export interface SourceStatement {
+  text: string;
+  startLine: number;
+  endLine: number;
+}
+
+// Joins code lines into period-terminated sentences. Periods inside literals and
+// decimal points inside PIC strings (e.g. 9(5).99) do not end a sentence.
+export const toSentences = (lines: SourceLine[]): SourceStatement[] => {
+  const sentences: SourceStatement[] = [];
+  let buffer = '';
+  let start = -1;
+  let quote: string | null = null;
+
+  for (const line of lines) {
+    const text = line.text.trim();
+    if (!text) continue;
+    if (start === -1) start = line.number;
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      buffer += ch;
+      if (quote) {
+        if (ch === quote) quote = null;
+        continue;
+      }
+      if (ch === '"' || ch === "'") {
+        quote = ch;
+        continue;
+      }
+      if (ch === '.' && (i === text.length - 1 || /\s/.test(text[i + 1]))) {
+        const sentence = buffer.trim().replace(/\s+/g, ' ');
+        if (sentence !== '.') sentences.push({ text: sentence, startLine: start, endLine: line.number });
+        buffer = '';
+        start = -1;
+      }
+    }
+    if (buffer) {
+      buffer += ' ';
+      if (start === -1) start = line.number;
+    }
+    quote = null;
+  }
+
+  const rest = buffer.trim();
+  if (rest) sentences.push({ text: rest.replace(/\s+/g, ' '), startLine: start, endLine: lines[lines.length - 1].number });
+  return sentences;
+};
+
+export const LEVEL_NUMBER = /^(0?[1-9]|[1-4][0-9]|66|77|88)\s/;
+
+export const findProgramId = (source: string): string | undefined => {
+  for (const line of toCodeLines(source)) {
+    const match = line.text.trim().toUpperCase().match(/^PROGRAM-ID\.?\s+["']?([A-Z0-9$#@_-]+)/);
+    if (match) return match[1];
+  }
+  return undefined;
+};
+
+export interface ExecBlock {
+  body: string;
+  line: number;
+  endLine: number;
+}
+
+// Every EXEC <kind> ... END-EXEC block, in source order. Blocks are matched over the code
+// text rather than sentences because END-EXEC rarely ends with a period.
+export const findExecBlocks = (source: string, kind: 'CICS' | 'SQL'): ExecBlock[] => {
+  const lines = toCodeLines(source);
+  const starts: number[] = [];
+  let text = '';
+  lines.forEach(line => {
+    starts.push(text.length);
+    text += `${line.text} \n`;
+  });
+  const lineAt = (offset: number) => {
+    let idx = starts.length - 1;
+    while (idx > 0 && starts[idx] > offset) idx--;
+    return lines[idx]?.number ?? 1;
+  };
+  return [...text.matchAll(new RegExp(`\\bEXEC\\s+${kind}\\s+([\\s\\S]*?)\\bEND-EXEC\\b`, 'gi'))].map(match => ({
+    body: match[1].replace(/\s+/g, ' ').trim(),
+    line: lineAt(match.index!),
+    endLine: lineAt(match.index! + match[0].length - 1)
+  }));
+};
@@ -0,0 +1,180 @@
+
+import { ArtifactType, UnclassifiedSource } from "../types";
+import { LEVEL_NUMBER, toCodeLines } from "./cobolSource";
+import { isJclSource, JclMember } from "./jclParser";
+
+export interface SplitModule {
+  name: string;
+  code: string;
+  sourceFile?: string;
+  artifactType: ArtifactType;
+  startLine: number;
+  endLine: number;
+  nestedPrograms?: string[];
+}
+
+export interface SplitResult {
+  chunks: SplitModule[];
+  unclassified: UnclassifiedSource[];
+  jclMembers: JclMember[];
+}
+
+const SOURCE_FILE_MARKER = /^\*>\s*SOURCE_FILE:\s*(.+?)\s*$/;
+
+interface SourceFile {
+  name?: string;
+  lines: string[];
+  firstLine: number;
+}
+
+const splitByMarkers = (fullCode: string): SourceFile[] => {
+  const lines = fullCode.split('\n');
+  const files: SourceFile[] = [];
+  let current: SourceFile = { lines: [], firstLine: 1 };
+
+  lines.forEach((line, idx) => {
+    const marker = line.match(SOURCE_FILE_MARKER);
+    if (marker) {
+      if (current.name || current.lines.some(l => l.trim())) files.push(current);
+      current = { name: marker[1], lines: [], firstLine: idx + 2 };
+      return;
+    }
+    current.lines.push(line);
+  });
+  if (current.name || current.lines.some(l => l.trim())) files.push(current);
+  return files;
+};
+
+export const extractSourceFiles = (fullCode: string): { name: string; content: string }[] =>
+  splitByMarkers(fullCode).map(file => ({
+    name: file.name || 'Inline Source',
+    content: trimTrailingBlank(file.lines).join('\n')
+  }));
+
+const trimTrailingBlank = (lines: string[]) => {
+  let end = lines.length;
+  while (end > 0 && !lines[end - 1].trim()) end--;
+  return lines.slice(0, end);
+};
+
+interface ProgramBoundary {
+  programId: string;
+  startIdx: number;
+  nested: string[];
+}
+
+// Finds top-level programs in one source file. A PROGRAM-ID that appears before the
+// enclosing program's END PROGRAM is a contained (nested) program and stays with its parent.
+const findPrograms = (file: SourceFile): ProgramBoundary[] => {
+  const codeLines = toCodeLines(file.lines.join('\n'));
+  const programs: ProgramBoundary[] = [];
+  const stack: string[] = [];
+  let headerIdx = -1;
+
+  codeLines.forEach((line, idx) => {
+    const text = line.text.trim().toUpperCase();
+    if (!text) return;
+    if (/^(IDENTIFICATION|ID)\s+DIVISION\b/.test(text)) {
+      headerIdx = idx;
+      return;
+    }
+    const programId = text.match(/^PROGRAM-ID\.?\s+["']?([A-Z0-9$#@_-]+)/);
+    if (programId) {
+      if (stack.length === 0) {
+        programs.push({ programId: programId[1], startIdx: headerIdx >= 0 ? headerIdx : idx, nested: [] });
+      } else {
+        programs[programs.length - 1].nested.push(programId[1]);
+      }
+      stack.push(programId[1]);
+      headerIdx = -1;
+      return;
+    }
+    if (/^END\s+PROGRAM\b/.test(text)) {
+      stack.pop();
+      return;
+    }
+    if (text.length > 0) headerIdx = -1;
+  });
+
+  return programs;
+};
+
+const looksLikeCopybook = (file: SourceFile) => {
+  const code = toCodeLines(file.lines.join('\n')).map(l => l.text.trim()).filter(Boolean);
+  if (code.length === 0) return false;
+  if (code.some(l => /^PROCEDURE\s+DIVISION\b/i.test(l))) return false;
+  return code.some(l => LEVEL_NUMBER.test(l)) || code.some(l => /^(FD|SD)\s/i.test(l));
+};
+
+export const splitCodeIntoChunks = (fullCode: string): SplitResult => {
+  const chunks: SplitModule[] = [];
+  const unclassified: UnclassifiedSource[] = [];
+  const jclMembers: JclMember[] = [];
+
+  for (const file of splitByMarkers(fullCode)) {
+    const fileLabel = file.name || 'Inline Source';
+    const lines = trimTrailingBlank(file.lines);
+    if (lines.every(l => !l.trim())) {
+      unclassified.push({ name: fileLabel, startLine: file.firstLine, endLine: file.firstLine, reason: 'File is empty.' });
+      continue;
+    }
+    const endLine = file.firstLine + lines.length - 1;
+    if (isJclSource(lines.join('\n'))) {
+      jclMembers.push({ name: fileLabel, content: lines.join('\n'), sourceFile: file.name, startLine: file.firstLine });
+      continue;
+    }
+    const programs = findPrograms(file);
+
+    if (programs.length === 1) {
+      chunks.push({
+        name: file.name || programs[0].programId,
+        code: lines.join('\n'),
+        sourceFile: file.name,
+        artifactType: 'PROGRAM',
+        startLine: file.firstLine,
+        endLine,
+        nestedPrograms: programs[0].nested.length ? programs[0].nested : undefined
+      });
+      continue;
+    }
+
+    if (programs.length > 1) {
+      programs.forEach((program, idx) => {
+        const startIdx = idx === 0 ? 0 : program.startIdx;
+        const stopIdx = idx === programs.length - 1 ? lines.length : programs[idx + 1].startIdx;
+        const segment = trimTrailingBlank(lines.slice(startIdx, stopIdx));
+        chunks.push({
+          name: program.programId,
+          code: segment.join('\n'),
+          sourceFile: file.name,
+          artifactType: 'PROGRAM',
+          startLine: file.firstLine + startIdx,
+          endLine: file.firstLine + startIdx + segment.length - 1,
+          nestedPrograms: program.nested.length ? program.nested : undefined
+        });
+      });
+      continue;
+    }
+
+    if (looksLikeCopybook(file)) {
+      chunks.push({
+        name: file.name || 'Inline Copybook',
+        code: lines.join('\n'),
+        sourceFile: file.name,
+        artifactType: 'COPYBOOK',
+        startLine: file.firstLine,
+        endLine
+      });
+      continue;
+    }
+
+    unclassified.push({
+      name: fileLabel,
+      startLine: file.firstLine,
+      endLine,
+      reason: 'No PROGRAM-ID paragraph or data description entries found.'
+    });
+  }
+
+  return { chunks, unclassified, jclMembers };
+};
@@ -0,0 +1,100 @@
+
+import { ComplexityMetrics, RiskLevel } from "../types";
+import { SourceLine, toCodeLines } from "./cobolSource";
+
+export interface Paragraph {
+  name: string;
+  section: boolean;
+  line: number;
+  endLine: number;
+}
+
+const NOT_PARAGRAPHS = new Set(['EXIT', 'GOBACK', 'CONTINUE', 'STOP', 'DECLARATIVES']);
+
+// Code lines from PROCEDURE DIVISION to the end of the program.
+export const procedureLines = (source: string): SourceLine[] => {
+  const lines = toCodeLines(source);
+  const start = lines.findIndex(l => /^\s*PROCEDURE\s+DIVISION\b/i.test(l.text));
+  return start === -1 ? [] : lines.slice(start + 1);
+};
+
+// Paragraph and section headers: a lone name ending in a period, starting in Area A.
+// Each runs to the last line of code before the next header.
+export const findParagraphs = (lines: SourceLine[]): Paragraph[] => {
+  const paragraphs: Paragraph[] = [];
+  lines.forEach(line => {
+    const current = paragraphs[paragraphs.length - 1];
+    const match = line.areaA && line.text.trim().toUpperCase().match(/^([A-Z0-9][A-Z0-9-]*)(\s+SECTION)?\s*\.$/);
+    if (match && !NOT_PARAGRAPHS.has(match[1]) && !match[1].startsWith('END-')) {
+      paragraphs.push({ name: match[1], section: !!match[2], line: line.number, endLine: line.number });
+    } else if (current && line.text.trim()) {
+      current.endLine = line.number;
+    }
+  });
+  return paragraphs;
+};
+
+const count = (text: string, pattern: string) =>
+  (text.match(new RegExp(`(?<![\\w-])${pattern}(?![\\w-])`, 'g')) || []).length;
+
+export const analyzeComplexity = (source: string): ComplexityMetrics => {
+  const lines = procedureLines(source);
+  const paragraphs = findParagraphs(lines);
+  let text = lines.map(l => l.text).join('\n').toUpperCase()
+    .replace(/"[^"\n]*"|'[^'\n]*'/g, '""');
+
+  let execCics = 0;
+  let execSql = 0;
+  text = text.replace(/EXEC\s+(CICS|SQL)\b[\s\S]*?END-EXEC/g, (_, kind) => {
+    if (kind === 'CICS') execCics++;
+    else execSql++;
+    return ' ';
+  });
+
+  const ifStatements = count(text, 'IF');
+  const whenBranches = count(text, 'WHEN') - count(text, 'WHEN\\s+OTHER');
+  const performUntil = count(text, 'UNTIL');
+
+  return {
+    procedureLines: lines.filter(l => l.text.trim()).length,
+    paragraphs: paragraphs.filter(p => !p.section).length,
+    sections: paragraphs.filter(p => p.section).length,
+    ifStatements,
+    whenBranches,
+    performUntil,
+    cyclomatic: 1 + ifStatements + whenBranches + performUntil,
+    goTo: count(text, 'GO\\s+TO'),
+    alter: count(text, 'ALTER'),
+    fileIo: ['OPEN', 'CLOSE', 'READ', 'WRITE', 'REWRITE', 'DELETE', 'START'].reduce((n, verb) => n + count(text, verb), 0),
+    execCics,
+    execSql
+  };
+};
+
+// Each factor saturates at its weight so one pathological metric cannot mask the rest.
+const RISK_FACTORS: [keyof ComplexityMetrics, number, number][] = [
+  // metric, units for full weight, weight
+  ['cyclomatic', 60, 30],
+  ['goTo', 10, 15],
+  ['alter', 2, 15],
+  ['fileIo', 20, 10],
+  ['execCics', 10, 10],
+  ['execSql', 15, 10],
+  ['procedureLines', 1500, 10]
+];
+
+export const riskScore = (metrics: ComplexityMetrics) =>
+  Math.round(RISK_FACTORS.reduce((score, [metric, full, weight]) =>
+    score + Math.min(1, Math.max(0, metrics[metric] - (metric === 'cyclomatic' ? 1 : 0)) / full) * weight, 0));
+
+export const riskLevel = (score: number): RiskLevel =>
+  score >= 60 ? 'CRITICAL' : score >= 35 ? 'HIGH' : score >= 15 ? 'MEDIUM' : 'LOW';
+
+const THINKING_BUDGETS: Record<RiskLevel, number> = {
+  LOW: 4096,
+  MEDIUM: 8192,
+  HIGH: 16384,
+  CRITICAL: 32768
+};
+
+export const thinkingBudgetFor = (level: RiskLevel | undefined) => THINKING_BUDGETS[level || 'HIGH'];
@@ -0,0 +1,404 @@
+
+import { CodeChunk, CopybookField, DataSection, FieldUsage, LayoutComparison, ParsedDataField } from "../types";
+import { LEVEL_NUMBER, SourceStatement, toCodeLines, toSentences } from "./cobolSource";
+
+export interface DataLayout {
+  fields: ParsedDataField[];
+  warnings: string[];
+}
+
+export type CopyResolver = (member: string) => string | undefined;
+
+const CLAUSE_KEYWORDS = new Set([
+  'PIC', 'PICTURE', 'USAGE', 'COMP', 'COMP-1', 'COMP-2', 'COMP-3', 'COMP-4', 'COMP-5', 'COMPUTATIONAL',
+  'COMPUTATIONAL-1', 'COMPUTATIONAL-2', 'COMPUTATIONAL-3', 'COMPUTATIONAL-4', 'COMPUTATIONAL-5',
+  'BINARY', 'PACKED-DECIMAL', 'DISPLAY', 'INDEX', 'POINTER', 'OCCURS', 'REDEFINES', 'VALUE', 'VALUES',
+  'SIGN', 'LEADING', 'TRAILING', 'JUST', 'JUSTIFIED', 'BLANK', 'SYNC', 'SYNCHRONIZED', 'RENAMES', 'EXTERNAL', 'GLOBAL'
+]);
+
+const USAGE_ALIASES: Record<string, FieldUsage> = {
+  'DISPLAY': 'DISPLAY',
+  'COMP': 'COMP',
+  'COMPUTATIONAL': 'COMP',
+  'COMP-4': 'COMP',
+  'COMPUTATIONAL-4': 'COMP',
+  'BINARY': 'BINARY',
+  'COMP-5': 'COMP-5',
+  'COMPUTATIONAL-5': 'COMP-5',
+  'COMP-3': 'COMP-3',
+  'COMPUTATIONAL-3': 'COMP-3',
+  'PACKED-DECIMAL': 'COMP-3',
+  'COMP-1': 'COMP-1',
+  'COMPUTATIONAL-1': 'COMP-1',
+  'COMP-2': 'COMP-2',
+  'COMPUTATIONAL-2': 'COMP-2',
+  'INDEX': 'INDEX',
+  'POINTER': 'POINTER'
+};
+
+const SECTION_HEADERS: [RegExp, DataSection][] = [
+  [/^FILE\s+SECTION\b/, 'FILE'],
+  [/^WORKING-STORAGE\s+SECTION\b/, 'WORKING-STORAGE'],
+  [/^LOCAL-STORAGE\s+SECTION\b/, 'LOCAL-STORAGE'],
+  [/^LINKAGE\s+SECTION\b/, 'LINKAGE']
+];
+
+const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  const pattern = /"(?:[^"]|"")*"|'(?:[^']|'')*'|\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) tokens.push(match[0].replace(/[,;]$/, ''));
+  return tokens;
+};
+
+export const toPythonName = (cobolName: string) => cobolName.toLowerCase().replace(/-/g, '_');
+
+const toClassName = (cobolName: string) =>
+  cobolName.toLowerCase().split(/[-_]/).filter(Boolean).map(p => p[0].toUpperCase() + p.slice(1)).join('');
+
+export const copybookMemberName = (chunkName: string) => chunkName.replace(/\.[^/.]+$/, "").toUpperCase();
+
+export const buildCopyResolver = (chunks: CodeChunk[]): CopyResolver => {
+  const members = new Map<string, string>();
+  chunks.filter(c => c.artifactType === 'COPYBOOK').forEach(c => members.set(copybookMemberName(c.name), c.cobolSource));
+  return (member: string) => members.get(member.toUpperCase());
+};
+
+// Expands repetition factors, e.g. S9(5)V9(2) -> S99999V99.
+export const expandPicture = (picture: string) =>
+  picture.toUpperCase().replace(/(.)\((\d+)\)/g, (_, ch: string, n: string) => ch.repeat(Number(n)));
+
+interface PictureInfo {
+  category: 'ALPHANUMERIC' | 'ALPHABETIC' | 'NUMERIC' | 'NUMERIC-EDITED' | 'ALPHANUMERIC-EDITED';
+  digits: number;
+  scale: number;
+  signed: boolean;
+  displayLength: number;
+}
+
+export const analyzePicture = (picture: string): PictureInfo => {
+  const pic = expandPicture(picture).replace(/\.$/, '');
+  const signed = pic.startsWith('S');
+  const body = signed ? pic.slice(1) : pic;
+  const editing = /[Z*\.,+\-$B0\/]|CR|DB/.test(body.replace(/^[9PV]+$/, ''));
+
+  let digits = 0;
+  let scale = 0;
+  let afterPoint = false;
+  let leadingP = 0;
+  let trailingP = 0;
+  for (const ch of body) {
+    if (ch === '9') {
+      digits++;
+      if (afterPoint) scale++;
+    } else if (ch === 'V' || ch === '.') {
+      afterPoint = true;
+    } else if (ch === 'P') {
+      if (digits === 0) leadingP++; else trailingP++;
+    }
+  }
+  // Leading P's put every digit after the point, whether or not a V is written before them.
+  if (leadingP) scale = leadingP + digits;
+  if (trailingP) scale -= trailingP;
+
+  const displayLength = body.replace(/[VP]/g, '').replace(/CR|DB/g, 'XX').length;
+
+  let category: PictureInfo['category'];
+  if (/^[9VP]+$/.test(body)) category = 'NUMERIC';
+  else if (/^A+$/.test(body)) category = 'ALPHABETIC';
+  else if (/[9Z*]/.test(body) && !/[XA]/.test(body) && editing) category = 'NUMERIC-EDITED';
+  else if (/[XA]/.test(body) && /[B0\/]/.test(body)) category = 'ALPHANUMERIC-EDITED';
+  else category = 'ALPHANUMERIC';
+
+  return { category, digits, scale, signed, displayLength };
+};
+
+const binaryLength = (digits: number) => digits <= 4 ? 2 : digits <= 9 ? 4 : 8;
+
+const storageLength = (usage: FieldUsage, pic: PictureInfo | undefined, signSeparate: boolean) => {
+  switch (usage) {
+    case 'COMP-1': return 4;
+    case 'COMP-2': return 8;
+    case 'INDEX':
+    case 'POINTER': return 4;
+    case 'COMP-3': return pic ? Math.floor(pic.digits / 2) + 1 : 0;
+    case 'COMP':
+    case 'COMP-5':
+    case 'BINARY': return pic ? binaryLength(pic.digits) : 0;
+    default: return pic ? pic.displayLength + (signSeparate && pic.signed ? 1 : 0) : 0;
+  }
+};
+
+const suggestPythonType = (field: ParsedDataField, pic?: PictureInfo): string => {
+  if (field.level === 88) return 'bool';
+  if (!field.picture && field.usage !== 'COMP-1' && field.usage !== 'COMP-2' && field.usage !== 'INDEX' && field.usage !== 'POINTER') {
+    return toClassName(field.name);
+  }
+  if (field.usage === 'COMP-1' || field.usage === 'COMP-2') return 'float';
+  if (field.usage === 'INDEX' || field.usage === 'POINTER') return 'int';
+  if (!pic) return 'str';
+  if (pic.category === 'NUMERIC') return pic.scale > 0 ? 'Decimal' : 'int';
+  return 'str';
+};
+
+interface RawEntry {
+  statement: SourceStatement;
+  section?: DataSection;
+  copyMember?: string;
+}
+
+const collectEntries = (source: string, resolveCopy: CopyResolver | undefined, warnings: string[], depth = 0): RawEntry[] => {
+  const lines = toCodeLines(source);
+  const upper = lines.map(l => l.text.trim().toUpperCase());
+  const dataStart = upper.findIndex(l => /^DATA\s+DIVISION\b/.test(l));
+  const procStart = upper.findIndex(l => /^PROCEDURE\s+DIVISION\b/.test(l));
+  const hasDivisions = dataStart >= 0 || procStart >= 0 || upper.some(l => /^(IDENTIFICATION|ID)\s+DIVISION\b/.test(l));
+  const from = dataStart >= 0 ? dataStart + 1 : 0;
+  const to = procStart >= 0 ? procStart : lines.length;
+  if (hasDivisions && dataStart < 0) return [];
+
+  const entries: RawEntry[] = [];
+  let section: DataSection | undefined;
+  for (const statement of toSentences(lines.slice(from, to))) {
+    const text = statement.text.toUpperCase();
+    const header = SECTION_HEADERS.find(([re]) => re.test(text));
+    if (header) {
+      section = header[1];
+      continue;
+    }
+    // EXEC SQL INCLUDE brings in DCLGEN host structures the same way COPY does; SQLCA and
+    // SQLDA come from the precompiler.
+    const copy = text.match(/^COPY\s+["']?([A-Z0-9$#@_-]+)/) || text.match(/^EXEC\s+SQL\s+INCLUDE\s+([A-Z0-9$#@_-]+)/);
+    if (copy) {
+      if (text.startsWith('EXEC') && /^SQL(CA|DA)$/.test(copy[1])) continue;
+      const member = resolveCopy && depth < 8 ? resolveCopy(copy[1]) : undefined;
+      if (member === undefined) {
+        warnings.push(`${text.startsWith('EXEC') ? 'EXEC SQL INCLUDE' : 'COPY'} ${copy[1]} (line ${statement.startLine}) could not be resolved; its fields are not in the layout.`);
+        continue;
+      }
+      collectEntries(member, resolveCopy, warnings, depth + 1)
+        .forEach(e => entries.push({ ...e, section: section ?? e.section, copyMember: e.copyMember ?? copy[1] }));
+      continue;
+    }
+    if (!LEVEL_NUMBER.test(statement.text)) continue;
+    entries.push({ statement, section });
+  }
+  return entries;
+};
+
+const parseEntry = (entry: RawEntry, warnings: string[]) => {
+  const tokens = tokenize(entry.statement.text.replace(/\.$/, ''));
+  const level = Number(tokens[0]);
+  let idx = 1;
+  let name = 'FILLER';
+  if (tokens[1] && !CLAUSE_KEYWORDS.has(tokens[1].toUpperCase())) {
+    name = tokens[1].toUpperCase();
+    idx = 2;
+  }
+
+  const field: ParsedDataField = {
+    level,
+    name,
+    path: name,
+    section: entry.section,
+    copyMember: entry.copyMember,
+    usage: 'DISPLAY',
+    offset: 0,
+    length: 0,
+    signed: false,
+    pythonName: name === 'FILLER' ? '' : toPythonName(name),
+    pythonType: 'str',
+    line: entry.statement.startLine
+  };
+  let usageSet = false;
+  let signSeparate = false;
+
+  while (idx < tokens.length) {
+    const token = tokens[idx].toUpperCase();
+    const next = () => tokens[++idx];
+    if (token === 'PIC' || token === 'PICTURE') {
+      let pic = next();
+      if (pic && pic.toUpperCase() === 'IS') pic = next();
+      if (pic) field.picture = pic.toUpperCase();
+    } else if (token === 'USAGE') {
+      let usage = next();
+      if (usage && usage.toUpperCase() === 'IS') usage = next();
+      if (usage && USAGE_ALIASES[usage.toUpperCase()]) {
+        field.usage = USAGE_ALIASES[usage.toUpperCase()];
+        usageSet = true;
+      }
+    } else if (USAGE_ALIASES[token]) {
+      field.usage = USAGE_ALIASES[token];
+      usageSet = true;
+    } else if (token === 'OCCURS') {
+      const first = Number(next());
+      let max = first;
+      let min = first;
+      if (tokens[idx + 1]?.toUpperCase() === 'TO') {
+        idx++;
+        max = Number(next());
+      }
+      field.occurs = { min, max };
+    } else if (token === 'DEPENDING' && field.occurs) {
+      let target = next();
+      if (target && target.toUpperCase() === 'ON') target = next();
+      if (target) field.occurs.dependingOn = target.toUpperCase();
+    } else if (token === 'REDEFINES') {
+      const target = next();
+      if (target) field.redefines = target.toUpperCase();
+    } else if (token === 'RENAMES') {
+      const target = next();
+      if (target) field.renames = target.toUpperCase();
+    } else if (token === 'VALUE' || token === 'VALUES') {
+      const values: string[] = [];
+      let value = next();
+      if (value && /^(IS|ARE)$/i.test(value)) value = next();
+      while (value !== undefined && !CLAUSE_KEYWORDS.has(value.toUpperCase())) {
+        values.push(value);
+        value = next();
+      }
+      field.value = values.join(' ');
+      continue;
+    } else if (token === 'SIGN' || token === 'LEADING' || token === 'TRAILING') {
+      if (tokens.slice(idx, idx + 4).some(t => t.toUpperCase() === 'SEPARATE')) signSeparate = true;
+    }
+    idx++;
+  }
+
+  if (field.level !== 88 && field.level !== 66 && field.picture && !/^[SXAV9PZ*.,+\-$B0\/()CRDB\d]+$/.test(field.picture)) {
+    warnings.push(`Unrecognised PIC string ${field.picture} for ${field.name} (line ${field.line}).`);
+  }
+
+  return { field, usageSet, signSeparate };
+};
+
+// Parses the DATA DIVISION of a program (or a bare copybook) into a flat, ordered
+// list of fields with byte offsets relative to their 01/77 record.
+export const parseDataLayout = (source: string, resolveCopy?: CopyResolver): DataLayout => {
+  const warnings: string[] = [];
+  const fields: ParsedDataField[] = [];
+  const parsed = collectEntries(source, resolveCopy, warnings).map(e => parseEntry(e, warnings));
+
+  interface Frame { field: ParsedDataField; cursor: number; }
+  const stack: Frame[] = [];
+  const byPath = new Map<string, ParsedDataField>();
+
+  const closeFrame = () => {
+    const frame = stack.pop()!;
+    frame.field.length = frame.cursor - frame.field.offset;
+    const parent = stack[stack.length - 1];
+    if (parent && !frame.field.redefines) {
+      parent.cursor = Math.max(parent.cursor, frame.field.offset + frame.field.length * (frame.field.occurs?.max ?? 1));
+    }
+  };
+  let lastItem: ParsedDataField | undefined;
+
+  for (const { field, usageSet, signSeparate } of parsed) {
+    if (field.level === 88) {
+      const owner = lastItem;
+      if (!owner) {
+        warnings.push(`Condition ${field.name} (line ${field.line}) has no parent item.`);
+        continue;
+      }
+      field.path = `${owner.path}.${field.name}`;
+      field.offset = owner.offset;
+      field.pythonType = 'bool';
+      fields.push(field);
+      continue;
+    }
+    if (field.level === 66) {
+      field.pythonType = 'str';
+      fields.push(field);
+      continue;
+    }
+
+    const recordLevel = field.level === 1 || field.level === 77;
+    while (stack.length && (recordLevel || stack[stack.length - 1].field.level >= field.level)) closeFrame();
+
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      field.path = `${parent.field.path}.${field.name}`;
+      if (!usageSet && parent.field.usage !== 'DISPLAY') field.usage = parent.field.usage;
+    }
+
+    if (field.redefines) {
+      const siblingPath = parent ? `${parent.field.path}.${field.redefines}` : field.redefines;
+      const target = byPath.get(siblingPath);
+      if (target) field.offset = target.offset;
+      else warnings.push(`${field.name} REDEFINES unknown item ${field.redefines} (line ${field.line}).`);
+    } else {
+      field.offset = parent ? parent.cursor : 0;
+    }
+
+    const pic = field.picture ? analyzePicture(field.picture) : undefined;
+    if (pic) {
+      field.signed = pic.signed;
+      field.digits = pic.category === 'NUMERIC' ? pic.digits : undefined;
+      field.scale = pic.category === 'NUMERIC' ? pic.scale : undefined;
+    }
+    field.length = storageLength(field.usage, pic, signSeparate);
+    field.pythonType = suggestPythonType(field, pic);
+    if (field.occurs) field.pythonType = `list[${field.pythonType}]`;
+
+    byPath.set(field.path, field);
+    fields.push(field);
+    lastItem = field;
+
+    const isGroup = !field.picture && !['COMP-1', 'COMP-2', 'INDEX', 'POINTER'].includes(field.usage);
+    if (isGroup) {
+      stack.push({ field, cursor: field.offset });
+    } else if (parent && !field.redefines) {
+      parent.cursor = Math.max(parent.cursor, field.offset + field.length * (field.occurs?.max ?? 1));
+    }
+  }
+  while (stack.length) closeFrame();
+
+  return { fields, warnings };
+};
+
+const normalizeFieldName = (value: string) => {
+  const tokens = value.toUpperCase().replace(/[^A-Z0-9_\-\s.]/g, ' ').split(/[\s.]+/).filter(Boolean);
+  return tokens.filter(t => !/^\d{1,2}$/.test(t) && !CLAUSE_KEYWORDS.has(t));
+};
+
+const baseType = (pythonType: string) => {
+  const inner = pythonType.replace(/^list\[(.*)\]$/, '$1');
+  if (/^(int|str|bool|float|Decimal)$/.test(inner)) return inner.toLowerCase();
+  return 'group';
+};
+
+const modelBaseType = (field: CopybookField) => {
+  const text = `${field.dataType} ${field.targetMapping}`.toLowerCase();
+  if (/decimal|numeric\(/.test(text)) return 'decimal';
+  if (/\bfloat\b|double/.test(text)) return 'float';
+  if (/\bbool/.test(text)) return 'bool';
+  if (/\bint\b|integer|bigint|int64|int32|\blong\b|\bshort\b/.test(text)) return 'int';
+  if (/\bnumber\b/.test(text)) return 'number';
+  if (/\bstr\b|string|varchar|char|text/.test(text)) return 'str';
+  return 'group';
+};
+
+// TypeScript has one number type for both binary integers and floats; money still needs Decimal.
+const typesAgree = (parsed: string, model: string) =>
+  parsed === model || model === 'group' || (model === 'number' && (parsed === 'int' || parsed === 'float'));
+
+// Lines the model's CopybookField list up against the parsed layout by COBOL name.
+export const compareLayout = (parsed: ParsedDataField[], modelFields?: CopybookField[]): LayoutComparison[] => {
+  if (!modelFields) return parsed.filter(f => f.name !== 'FILLER').map(field => ({ parsed: field, differences: [] }));
+  const remaining = [...modelFields];
+  const rows: LayoutComparison[] = parsed
+    .filter(f => f.name !== 'FILLER')
+    .map(field => {
+      const matchIdx = remaining.findIndex(m => normalizeFieldName(m.originalField).includes(field.name));
+      const model = matchIdx >= 0 ? remaining.splice(matchIdx, 1)[0] : undefined;
+      const differences: string[] = [];
+      if (!model) {
+        differences.push('Not described by model');
+      } else if (!typesAgree(baseType(field.pythonType), modelBaseType(model))) {
+        differences.push(`Model type ${model.dataType} does not match ${field.pythonType}`);
+      }
+      return { parsed: field, model, differences };
+    });
+  remaining.forEach(model => rows.push({ model, differences: ['Field not found in parsed layout'] }));
+  return rows;
+};
@@ -0,0 +1,168 @@
+
+import { CodeChunk, DeadCodeReport, ParsedDataField, UnreachableParagraph, UnusedField } from "../types";
+import { LEVEL_NUMBER, SourceLine, toCodeLines, toSentences } from "./cobolSource";
+import { findParagraphs, procedureLines } from "./complexityAnalyzer";
+
+interface Block extends UnreachableParagraph {
+  body: string;
+  lines: SourceLine[];
+}
+
+const NAME = '([A-Z0-9][A-Z0-9-]*)';
+const PERFORM_TARGET = new RegExp(`(?<![\\w-])PERFORM\\s+${NAME}(?:\\s+(?:THRU|THROUGH)\\s+${NAME})?`, 'g');
+const PERFORM_VERBS = new Set(['UNTIL', 'VARYING', 'WITH', 'TEST', 'TIMES', 'END-PERFORM']);
+
+const stripLiterals = (text: string) => text.toUpperCase().replace(/"[^"\n]*"|'[^'\n]*'/g, '""');
+
+// A paragraph only falls through when its last sentence does not unconditionally leave.
+// Anything conditional is treated as falling through, so the analysis errs towards "reachable".
+const fallsThrough = (block: Block) => {
+  const last = toSentences(block.lines).pop();
+  if (!last) return true;
+  const text = stripLiterals(last.text);
+  if (/(?<![\w-])(IF|EVALUATE|WHEN|AT\s+END|INVALID|ON\s+SIZE|ON\s+EXCEPTION|ON\s+OVERFLOW)(?![\w-])/.test(text)) return true;
+  return !/(?<![\w-])(GOBACK|STOP\s+RUN|EXIT\s+PROGRAM|GO\s+TO\s+[A-Z0-9-]+\s*\.?$)/.test(text);
+};
+
+// Paragraph-level names a statement can transfer control to.
+const jumpTargets = (body: string): string[][] => {
+  const targets: string[][] = [];
+  for (const m of body.matchAll(PERFORM_TARGET)) {
+    if (!PERFORM_VERBS.has(m[1])) targets.push(m[2] ? [m[1], m[2]] : [m[1]]);
+  }
+  for (const m of body.matchAll(/(?<![\w-])GO\s+TO\s+([A-Z0-9-\s]+?)(?:\s+DEPENDING\b|\.|$)/gm)) {
+    m[1].split(/\s+/).filter(Boolean).forEach(name => targets.push([name]));
+  }
+  for (const m of body.matchAll(/(?<![\w-])ALTER\s+[A-Z0-9-]+\s+TO\s+(?:PROCEED\s+TO\s+)?([A-Z0-9-]+)/g)) {
+    targets.push([m[1]]);
+  }
+  return targets;
+};
+
+const findUnreachable = (source: string): Block[] => {
+  const lines = procedureLines(source);
+  const headers = findParagraphs(lines);
+  if (!headers.length) return [];
+
+  const blocks: Block[] = headers.map(header => {
+    const own = lines.filter(l => l.number > header.line && l.number <= header.endLine);
+    return {
+      name: header.name,
+      section: header.section,
+      startLine: header.line,
+      endLine: header.endLine,
+      lines: own,
+      body: stripLiterals(own.map(l => l.text).join('\n'))
+    };
+  });
+  const index = new Map(blocks.map((b, i) => [b.name, i]));
+  const preamble = stripLiterals(lines.filter(l => l.number < headers[0].line).map(l => l.text).join('\n'));
+
+  const reached = new Set<number>();
+  const queue: number[] = [0];
+  const enqueue = (i: number | undefined) => {
+    if (i !== undefined && !reached.has(i)) queue.push(i);
+  };
+  // Declaratives are entered through USE, and ENTRY points are called from outside.
+  const declarativesEnd = blocks.findIndex(b => b.body.includes('END DECLARATIVES'));
+  for (let i = 0; i <= declarativesEnd; i++) enqueue(i);
+  if (declarativesEnd !== -1) enqueue(declarativesEnd + 1);
+  blocks.forEach((b, i) => { if (/(?<![\w-])ENTRY\s+""/.test(b.body)) enqueue(i); });
+
+  const follow = (body: string) => jumpTargets(body).forEach(([from, thru]) => {
+    const start = index.get(from);
+    const stop = thru ? index.get(thru) : undefined;
+    if (start === undefined) return;
+    if (stop === undefined) {
+      enqueue(start);
+      // Performing a section runs every paragraph up to the next section header.
+      if (blocks[start].section) {
+        for (let i = start + 1; i < blocks.length && !blocks[i].section; i++) enqueue(i);
+      }
+    } else {
+      for (let i = start; i <= stop; i++) enqueue(i);
+    }
+  });
+  follow(preamble);
+
+  while (queue.length) {
+    const i = queue.shift()!;
+    if (reached.has(i)) continue;
+    reached.add(i);
+    follow(blocks[i].body);
+    if (blocks[i].section || fallsThrough(blocks[i])) enqueue(i + 1 < blocks.length ? i + 1 : undefined);
+  }
+  return blocks.filter((_, i) => !reached.has(i));
+};
+
+// Only fields declared in the program itself are reported; members pulled in with COPY
+// are shared definitions and routinely carry fields a given program does not touch.
+const findUnusedFields = (chunk: CodeChunk): UnusedField[] => {
+  const fields = (chunk.dataLayout || []).filter(f => f.section === 'WORKING-STORAGE' && !f.copyMember && f.name !== 'FILLER');
+  const code = procedureLines(chunk.cobolSource);
+  if (!fields.length || !code.length) return [];
+
+  const procedure = stripLiterals(code.map(l => l.text).join('\n'));
+  const used = new Set(procedure.match(/[A-Z0-9][A-Z0-9-]*/g) || []);
+  (chunk.dataLayout || []).forEach(f => {
+    if (f.redefines) used.add(f.redefines);
+    if (f.occurs?.dependingOn) used.add(f.occurs.dependingOn);
+  });
+
+  const touched = (path: string) =>
+    fields.some(f => used.has(f.name) && (f.path === path || f.path.startsWith(`${path}.`) || path.startsWith(`${f.path}.`)));
+
+  const rank = (level: number) => level === 77 || level === 66 ? 1 : level;
+  // An entry runs until the next item at the same or a higher level, or the next header.
+  const lines = toCodeLines(chunk.cobolSource);
+  const lastLineOf = (field: ParsedDataField) => {
+    let end = field.line;
+    for (const line of lines) {
+      if (line.number <= field.line) continue;
+      const text = line.text.trim().toUpperCase();
+      if (!text) continue;
+      const level = text.match(LEVEL_NUMBER);
+      if (level && (field.level === 88 || rank(Number(level[1])) <= rank(field.level))) break;
+      if (/^(COPY|EXEC)\s|\b(SECTION|DIVISION)\s*\./.test(text)) break;
+      end = line.number;
+    }
+    return end;
+  };
+
+  const unused: UnusedField[] = [];
+  fields.forEach(field => {
+    if (touched(field.path)) return;
+    // Report the outermost unused item only; its children go with it.
+    if (unused.some(u => field.path.startsWith(`${u.path}.`))) return;
+    unused.push({
+      name: field.name,
+      path: field.path,
+      level: field.level,
+      startLine: field.line,
+      endLine: lastLineOf(field)
+    });
+  });
+  return unused;
+};
+
+export const analyzeDeadCode = (chunk: CodeChunk): DeadCodeReport => {
+  const unreachableParagraphs = findUnreachable(chunk.cobolSource)
+    .map(({ name, section, startLine, endLine }) => ({ name, section, startLine, endLine }));
+  const unusedFields = findUnusedFields(chunk);
+  const deadLines = [...unreachableParagraphs, ...unusedFields]
+    .reduce((n, r) => n + r.endLine - r.startLine + 1, 0);
+  return { unreachableParagraphs, unusedFields, deadLines };
+};
+
+// Replaces dead paragraphs and unused fields with a one-line marker so the model
+// neither spends tokens on them nor re-implements them.
+export const stripDeadCode = (source: string, report: DeadCodeReport) => {
+  const lines = source.split('\n');
+  const ranges = [...report.unreachableParagraphs, ...report.unusedFields]
+    .sort((a, b) => b.startLine - a.startLine);
+  ranges.forEach(range => {
+    // Column 7 keeps the marker a comment in fixed-format source as well as free-format.
+    lines.splice(range.startLine - 1, range.endLine - range.startLine + 1, `      *> [dead code removed: ${range.name}]`);
+  });
+  return lines.join('\n');
+};
@@ -0,0 +1,183 @@
+
+import { CodeChunk, DependencyEdge, DependencyGraph, DependencyNode } from "../types";
+import { findProgramId, toCodeLines, toSentences } from "./cobolSource";
+import { copybookMemberName } from "./copybookParser";
+
+// Members supplied by the compiler, CICS or DB2 rather than the application.
+const SYSTEM_MEMBERS = new Set(['SQLCA', 'SQLDA', 'DFHAID', 'DFHBMSCA', 'DFHEIBLK', 'DFHATTR', 'DFHMSRCA']);
+
+const STATIC_CALL = /(?<![\w-])CALL\s+(["'])([^"']+)\1/gi;
+const DYNAMIC_CALL = /(?<![\w-])CALL\s+([A-Z][A-Z0-9-]*)/gi;
+const COPY_STATEMENT = /(?<![\w-])COPY\s+["']?([A-Z0-9$#@_-]+)/gi;
+const SQL_INCLUDE = /\bEXEC\s+SQL\s+INCLUDE\s+([A-Z0-9$#@_-]+)/gi;
+const CICS_PROGRAM = /\b(LINK|XCTL)\b[^.]*?\bPROGRAM\s*\(\s*(["']?)([A-Z0-9$#@_-]+)\2\s*\)/gi;
+
+const CALL_KEYWORDS = new Set(['USING', 'RETURNING', 'ON', 'END-CALL']);
+
+interface ProgramFacts {
+  edges: Omit<DependencyEdge, 'from' | 'targetChunkId' | 'resolved'>[];
+  linkageParameters: string[];
+  usesCommarea: boolean;
+}
+
+const scanChunk = (chunk: CodeChunk): ProgramFacts => {
+  const lines = toCodeLines(chunk.cobolSource);
+  const edges: ProgramFacts['edges'] = [];
+  let usesCommarea = false;
+
+  for (const line of lines) {
+    const text = line.text.toUpperCase();
+    if (!text.trim()) continue;
+    for (const m of text.matchAll(STATIC_CALL)) {
+      edges.push({ kind: 'CALL', target: m[2].trim(), line: line.number });
+    }
+    for (const m of text.matchAll(DYNAMIC_CALL)) {
+      if (!CALL_KEYWORDS.has(m[1])) edges.push({ kind: 'DYNAMIC_CALL', target: m[1], via: m[1], line: line.number });
+    }
+    for (const m of text.matchAll(COPY_STATEMENT)) {
+      edges.push({ kind: 'COPY', target: m[1], line: line.number });
+    }
+    for (const m of text.matchAll(SQL_INCLUDE)) {
+      edges.push({ kind: 'COPY', target: m[1], line: line.number });
+    }
+    if (/\bDFHCOMMAREA\b|\bCOMMAREA\s*\(|\bEIBCALEN\b/.test(text)) usesCommarea = true;
+  }
+
+  // LINK/XCTL options often span lines, so match them against whole sentences.
+  for (const sentence of toSentences(lines)) {
+    for (const m of sentence.text.toUpperCase().matchAll(CICS_PROGRAM)) {
+      const literal = Boolean(m[2]);
+      edges.push(literal
+        ? { kind: 'CICS', target: m[3], line: sentence.startLine }
+        : { kind: 'DYNAMIC_CALL', target: m[3], via: m[3], line: sentence.startLine });
+    }
+  }
+
+  const using = toSentences(lines)
+    .map(s => s.text.toUpperCase().match(/^PROCEDURE\s+DIVISION\s+USING\s+(.+?)\.?$/))
+    .find(Boolean);
+  const linkageParameters = using
+    ? using[1].split(/\s+/).filter(t => !['BY', 'REFERENCE', 'VALUE', 'CONTENT', 'RETURNING'].includes(t))
+    : [];
+  if (linkageParameters.includes('DFHCOMMAREA')) usesCommarea = true;
+
+  return { edges, linkageParameters, usesCommarea };
+};
+
+// Tarjan's algorithm; components come out in reverse topological order (callees first).
+const stronglyConnected = (ids: string[], deps: Map<string, Set<string>>): string[][] => {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+
+  const visit = (id: string) => {
+    indices.set(id, index);
+    lowlink.set(id, index);
+    index++;
+    stack.push(id);
+    onStack.add(id);
+    for (const dep of deps.get(id) || []) {
+      if (!indices.has(dep)) {
+        visit(dep);
+        lowlink.set(id, Math.min(lowlink.get(id)!, lowlink.get(dep)!));
+      } else if (onStack.has(dep)) {
+        lowlink.set(id, Math.min(lowlink.get(id)!, indices.get(dep)!));
+      }
+    }
+    if (lowlink.get(id) === indices.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      components.push(component);
+    }
+  };
+
+  ids.forEach(id => { if (!indices.has(id)) visit(id); });
+  return components;
+};
+
+export const buildDependencyGraph = (chunks: CodeChunk[]): DependencyGraph => {
+  const programIndex = new Map<string, string>();
+  const copybookIndex = new Map<string, string>();
+  const nodes: DependencyNode[] = chunks.map(chunk => {
+    const programId = chunk.artifactType === 'COPYBOOK' ? undefined : findProgramId(chunk.cobolSource);
+    if (chunk.artifactType === 'COPYBOOK') {
+      copybookIndex.set(copybookMemberName(chunk.name), chunk.id);
+    } else {
+      if (programId) programIndex.set(programId, chunk.id);
+      programIndex.set(copybookMemberName(chunk.name), chunk.id);
+      chunk.nestedPrograms?.forEach(n => programIndex.set(n, chunk.id));
+    }
+    return { chunkId: chunk.id, name: chunk.name, programId, artifactType: chunk.artifactType, linkageParameters: [], usesCommarea: false };
+  });
+
+  const edges: DependencyEdge[] = [];
+  chunks.forEach((chunk, idx) => {
+    const facts = scanChunk(chunk);
+    nodes[idx].linkageParameters = facts.linkageParameters;
+    nodes[idx].usesCommarea = facts.usesCommarea;
+
+    const literals = new Map<string, string>();
+    chunk.dataLayout?.forEach(f => {
+      const literal = f.value?.match(/^["'](.+)["']$/);
+      if (literal) literals.set(f.name, literal[1].trim().toUpperCase());
+    });
+
+    for (const edge of facts.edges) {
+      let target = edge.target;
+      if (edge.kind === 'DYNAMIC_CALL') {
+        const value = literals.get(edge.target);
+        if (value) target = value;
+      }
+      const isCopy = edge.kind === 'COPY';
+      const targetChunkId = isCopy ? copybookIndex.get(target) : programIndex.get(target);
+      const system = isCopy && SYSTEM_MEMBERS.has(target);
+      edges.push({
+        ...edge,
+        from: chunk.id,
+        target,
+        targetChunkId: targetChunkId === chunk.id ? undefined : targetChunkId,
+        resolved: Boolean(targetChunkId) || system,
+        system: system || undefined
+      });
+    }
+  });
+
+  const deps = new Map<string, Set<string>>();
+  chunks.forEach(c => deps.set(c.id, new Set()));
+  edges.forEach(e => { if (e.targetChunkId) deps.get(e.from)!.add(e.targetChunkId); });
+
+  const components = stronglyConnected(chunks.map(c => c.id), deps);
+  const componentOf = new Map<string, number>();
+  components.forEach((component, i) => component.forEach(id => componentOf.set(id, i)));
+  const componentWave: number[] = [];
+  components.forEach((component, i) => {
+    let wave = 0;
+    component.forEach(id => deps.get(id)!.forEach(dep => {
+      const depComponent = componentOf.get(dep)!;
+      if (depComponent !== i) wave = Math.max(wave, componentWave[depComponent] + 1);
+    }));
+    componentWave[i] = wave;
+  });
+
+  const migrationWaves: string[][] = [];
+  components.forEach((component, i) => {
+    (migrationWaves[componentWave[i]] ||= []).push(...component);
+  });
+  const order = new Map(chunks.map((c, i) => [c.id, i]));
+  migrationWaves.forEach(wave => wave.sort((a, b) => order.get(a)! - order.get(b)!));
+
+  return {
+    nodes,
+    edges,
+    migrationWaves,
+    cycles: components.filter(c => c.length > 1)
+  };
+};
@@ -0,0 +1,103 @@
+
+import { AuditEntry, AuditVerification, MigrationProject } from "../types";
+import { ArchiveEntry } from "./zipArchive";
+import { GENESIS_HASH } from "./auditLog";
+import { extractSourceFiles } from "./cobolSplitter";
+import { hashText } from "./hashing";
+import { buildMarkdownReport } from "./reports";
+import { TARGETS, chunkLanguage } from "./targets";
+
+export interface EvidenceManifest {
+  format: 'logic-lift-evidence';
+  version: number;
+  generatedAt: string;
+  generatedBy: string;
+  project: { id: string; name: string; createdAt: string };
+  settings: MigrationProject['settings'];
+  audit: AuditVerification & { hashAlgorithm: 'SHA-256'; genesisHash: string; log: string };
+  chunks: { chunkId: string; chunkName: string; status: string; sourceFile?: string; modelCalls: number; outputs: string[] }[];
+  files: { path: string; sha256: string; bytes: number }[];
+}
+
+const VERIFY_NOTES = `# Verifying this evidence pack
+
+1. Every file listed in \`manifest.json\` must hash (SHA-256) to the digest recorded next to it.
+2. \`audit/audit-log.jsonl\` holds one model call per line, in order. For each entry, \`previousHash\`
+   must equal the \`hash\` of the line before it (the first entry chains from \`audit.genesisHash\`),
+   and \`hash\` must equal the SHA-256 of the JSON array
+   \`[projectId, sequence, stage, subject, provider, model, temperature, thinkingBudget, useSearch,
+   prompt, response, error, replayed, actor, startedAt, finishedAt, previousHash]\`
+   with absent values written as \`null\`.
+3. The \`hash\` of the last entry must equal \`audit.headHash\` in the manifest.
+
+Entries with \`replayed: true\` were served from a recorded cassette rather than a live model call.
+`;
+
+const safeName = (name: string) => name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'unnamed';
+
+// Sources, outputs, test results and the audit trail for one project, plus a manifest
+// that pins every file by digest. The manifest's own digest is returned for the caller to record.
+export const buildEvidencePack = async (
+  project: MigrationProject,
+  entries: AuditEntry[],
+  verification: AuditVerification,
+  generatedBy: string
+): Promise<{ files: ArchiveEntry[]; manifest: EvidenceManifest; manifestHash: string }> => {
+  const files: ArchiveEntry[] = [];
+  const used = new Set<string>();
+  const add = (path: string, content: string) => {
+    let unique = path;
+    for (let n = 2; used.has(unique); n++) unique = path.replace(/(\.[^./]+)?$/, `_${n}$1`);
+    used.add(unique);
+    files.push({ path: unique, content });
+    return unique;
+  };
+
+  extractSourceFiles(project.inputCode).forEach(file => add(`sources/${safeName(file.name)}`, file.content));
+
+  const chunks = project.migrationState.chunks.map(chunk => {
+    const dir = `outputs/${safeName(chunk.name.replace(/\.[^/.]+$/, ''))}`;
+    const { extension } = TARGETS[chunkLanguage(chunk)];
+    const outputs: string[] = [];
+    if (chunk.targetSource) outputs.push(add(`${dir}/module.${extension}`, chunk.targetSource));
+    if (chunk.unitTest) outputs.push(add(`${dir}/tests.${extension}`, chunk.unitTest));
+    if (chunk.targetSource) outputs.push(add(`${dir}/report.md`, buildMarkdownReport(chunk)));
+    return {
+      chunkId: chunk.id,
+      chunkName: chunk.name,
+      status: chunk.status,
+      sourceFile: chunk.sourceFile,
+      modelCalls: entries.filter(e => e.subject === chunk.name).length,
+      outputs
+    };
+  });
+
+  add('results/test-results.json', JSON.stringify(project.migrationState.chunks.map(chunk => ({
+    chunkId: chunk.id,
+    chunkName: chunk.name,
+    coverage: chunk.coverage,
+    testResults: chunk.testResults || [],
+    goldenResults: chunk.goldenResults || []
+  })), null, 2));
+  const log = add('audit/audit-log.jsonl', entries.map(e => JSON.stringify(e)).join('\n') + (entries.length ? '\n' : ''));
+  add('VERIFY.md', VERIFY_NOTES);
+
+  const manifest: EvidenceManifest = {
+    format: 'logic-lift-evidence',
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    generatedBy,
+    project: { id: project.id, name: project.name, createdAt: project.createdAt },
+    settings: { ...project.settings, openAIApiKey: undefined },
+    audit: { ...verification, hashAlgorithm: 'SHA-256', genesisHash: GENESIS_HASH, log },
+    chunks,
+    files: await Promise.all(files.map(async f => ({
+      path: f.path,
+      sha256: await hashText(f.content),
+      bytes: new TextEncoder().encode(f.content).length
+    })))
+  };
+  const manifestJson = JSON.stringify(manifest, null, 2);
+  files.push({ path: 'manifest.json', content: manifestJson });
+  return { files, manifest, manifestHash: await hashText(manifestJson) };
+};
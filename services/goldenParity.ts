@@ -0,0 +1,191 @@
+
+import { CodeChunk, FieldMismatch, GoldenDataset, GoldenFile, GoldenParityReport, ParsedDataField, RecordMismatch } from "../types";
+import { DecodedColumn, buildColumns, decodeDataset } from "./recordDecoder";
+import { runGoldenDataset as runOnRunner } from "./parityRunner";
+import { chunkLanguage, pythonModuleName } from "./targets";
+
+const MAX_MISMATCHES = 200;
+
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string) => Uint8Array.from(atob(text), ch => ch.charCodeAt(0));
+
+export const toGoldenFile = (name: string, bytes: Uint8Array): GoldenFile => ({ name, size: bytes.length, content: toBase64(bytes) });
+
+const entryPoint = (chunk: CodeChunk) =>
+  chunk.traceability?.find(l => l.targetStartLine !== undefined)?.targetSymbol.split('.')[0] ||
+  chunk.targetSource?.match(/^def\s+([A-Za-z_]\w*)/m)?.[1] ||
+  'main';
+
+export const defaultDriver = (chunk: CodeChunk) => {
+  const module = pythonModuleName(chunk.name);
+  return `"""Golden-dataset driver for ${chunk.name}.
+
+run() receives the captured input files in the order they were attached and must
+write the program's output file to output_path.
+"""
+import ${module}
+
+
+def run(input_paths, output_path):
+    # Adjust this call to the migrated entry point's signature.
+    ${module}.${entryPoint(chunk)}(*input_paths, output_path)
+`;
+};
+
+export const goldenRecord = (chunk: CodeChunk, dataset: GoldenDataset) => {
+  const layout = chunk.dataLayout || [];
+  const record = layout.find(f => (f.level === 1 || f.level === 77) && f.path === dataset.recordPath);
+  if (!record) throw new Error(`Record layout ${dataset.recordPath} is no longer part of ${chunk.name}.`);
+  return { layout, record };
+};
+
+// Numbers are compared by value so 12.50, 12.5 and 0012.5 agree; text ignores trailing
+// blanks, which fixed-length records pad with and JSON output usually drops.
+const normalize = (value: unknown, field: ParsedDataField) => {
+  const text = value === null || value === undefined ? '' : String(value).replace(/\s+$/, '');
+  if (field.digits === undefined || !/^\s*[+-]?\d*\.?\d+\s*$/.test(text)) return text;
+  let [int, frac = ''] = text.trim().replace(/^\+/, '').split('.');
+  const negative = int.startsWith('-');
+  int = int.replace('-', '').replace(/^0+(?=\d)/, '') || '0';
+  frac = frac.replace(/0+$/, '');
+  const canonical = frac ? `${int}.${frac}` : int;
+  return negative && canonical !== '0' ? `-${canonical}` : canonical;
+};
+
+const keyOf = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// JSONL records are flattened to leaf keys so both {"ITEM-CODE(1)": ..} and
+// {"items": [{"item_code": ..}]} line up with the layout's ITEM-CODE(1) column.
+const flattenJson = (value: unknown, into: Map<string, unknown>, suffix = '') => {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => {
+      if (item !== null && typeof item === 'object') flattenJson(item, into, `${suffix}${i + 1}`);
+      else into.set(`${suffix}${i + 1}`, item);
+    });
+    return;
+  }
+  Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+    if (item !== null && typeof item === 'object') {
+      if (Array.isArray(item) && item.every(v => v === null || typeof v !== 'object')) {
+        item.forEach((v, i) => into.set(`${keyOf(key)}${suffix}${i + 1}`, v));
+      } else {
+        flattenJson(item, into, suffix);
+      }
+    } else {
+      into.set(`${keyOf(key)}${suffix}`, item);
+    }
+  });
+};
+
+const readJsonLines = (bytes: Uint8Array, columns: DecodedColumn[]) => {
+  const lines = new TextDecoder().decode(bytes).split(/\r?\n/).filter(l => l.trim());
+  return lines.map((line, i) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (e) {
+      throw new Error(`Output line ${i + 1} is not valid JSON.`);
+    }
+    if (!parsed || typeof parsed !== 'object') throw new Error(`Output line ${i + 1} is not a JSON object.`);
+    const flat = new Map<string, unknown>();
+    flattenJson(parsed, flat);
+    const values: Record<string, unknown> = {};
+    columns.forEach(c => {
+      const suffix = c.indices.map(i => i + 1).join('');
+      const candidates = [keyOf(c.label), `${keyOf(c.field.name)}${suffix}`, `${keyOf(c.field.pythonName)}${suffix}`];
+      const key = candidates.find(k => flat.has(k));
+      values[c.key] = key === undefined ? undefined : flat.get(key);
+    });
+    return values;
+  });
+};
+
+export const compareGoldenOutput = (chunk: CodeChunk, dataset: GoldenDataset, actual: Uint8Array): GoldenParityReport => {
+  const { layout, record } = goldenRecord(chunk, dataset);
+  const options = { codePage: dataset.codePage, format: dataset.recordFormat, limit: Infinity };
+  const expected = decodeDataset(fromBase64(dataset.expected.content), layout, record, options).records;
+  const columns = buildColumns(layout, record).filter(c => !c.alternate && c.field.name !== 'FILLER');
+  const produced: Record<string, unknown>[] = dataset.outputFormat === 'JSONL'
+    ? readJsonLines(actual, columns)
+    : decodeDataset(actual, layout, record, options).records.map(r => r.values);
+
+  const mismatches: RecordMismatch[] = [];
+  let matchedRecords = 0;
+  let fieldsCompared = 0;
+  let mismatchCount = 0;
+  const report = (mismatch: RecordMismatch) => {
+    mismatchCount++;
+    if (mismatches.length < MAX_MISMATCHES) mismatches.push(mismatch);
+  };
+
+  for (let i = 0; i < Math.max(expected.length, produced.length); i++) {
+    if (i >= produced.length) {
+      report({ record: i + 1, kind: 'MISSING', fields: [] });
+      continue;
+    }
+    if (i >= expected.length) {
+      report({ record: i + 1, kind: 'EXTRA', fields: [] });
+      continue;
+    }
+    const fields: FieldMismatch[] = [];
+    columns.forEach(c => {
+      fieldsCompared++;
+      const want = normalize(expected[i].values[c.key], c.field);
+      const got = produced[i][c.key];
+      if (got === undefined) {
+        if (want) fields.push({ field: c.label, expected: want, actual: '(missing)' });
+      } else if (normalize(got, c.field) !== want) {
+        fields.push({ field: c.label, expected: want, actual: normalize(got, c.field) });
+      }
+    });
+    if (fields.length) report({ record: i + 1, kind: 'FIELD', fields });
+    else matchedRecords++;
+  }
+
+  return {
+    datasetId: dataset.id,
+    datasetName: dataset.name,
+    ranAt: new Date().toISOString(),
+    status: mismatchCount ? 'MISMATCH' : 'MATCH',
+    expectedRecords: expected.length,
+    actualRecords: produced.length,
+    matchedRecords,
+    fieldsCompared,
+    mismatches,
+    truncated: mismatchCount > mismatches.length
+  };
+};
+
+export const failedGoldenRun = (dataset: GoldenDataset, error: string, stdout?: string): GoldenParityReport => ({
+  datasetId: dataset.id,
+  datasetName: dataset.name,
+  ranAt: new Date().toISOString(),
+  status: 'ERROR',
+  expectedRecords: 0,
+  actualRecords: 0,
+  matchedRecords: 0,
+  fieldsCompared: 0,
+  mismatches: [],
+  truncated: false,
+  error,
+  stdout
+});
+
+export const runGoldenParity = async (chunk: CodeChunk, dataset: GoldenDataset, signal?: AbortSignal): Promise<GoldenParityReport> => {
+  const failed = (error: string, stdout?: string) => failedGoldenRun(dataset, error, stdout);
+  if (!chunk.targetSource) return failed('No Python implementation to run; run the transform stage first.');
+  if (chunkLanguage(chunk) !== 'python') return failed('Golden-dataset parity runs Python targets only.');
+
+  const run = await runOnRunner(chunk.name, chunk.targetSource, dataset.driver, dataset.inputs, 120, signal);
+  if (run.error || run.output === undefined) return failed(run.error || 'Runner returned no output.', run.stdout);
+  try {
+    return { ...compareGoldenOutput(chunk, dataset, fromBase64(run.output)), stdout: run.stdout };
+  } catch (e: any) {
+    return failed(e.message, run.stdout);
+  }
+};
@@ -0,0 +1,666 @@
+
+import { CodeChunk, JclCondition, JclDataset, JclDatasetAccess, JclDd, JclJob, JclRelOp, JclStep, JclStepEdge } from "../types";
+import { findProgramId, toCodeLines } from "./cobolSource";
+
+export interface JclMember {
+  name: string;
+  content: string;
+  sourceFile?: string;
+  startLine: number;
+}
+
+const MAX_INLINE = 4000;
+const MAX_PROC_DEPTH = 15;
+
+export const SYSTEM_UTILITIES = new Set([
+  'IEFBR14', 'IEBGENER', 'IEBCOPY', 'IDCAMS', 'SORT', 'DFSORT', 'ICETOOL', 'ICEMAN', 'SYNCSORT',
+  'IKJEFT01', 'IKJEFT1A', 'IKJEFT1B', 'DSNUTILB', 'ADRDSSU', 'IEHLIST', 'IEHPROGM', 'FTP'
+]);
+
+// Symbols the system resolves at submission time; leaving them unresolved is expected.
+const SYSTEM_SYMBOLS = /^(SYS\w*|L?YY\w*|L?HH\w*|JOBNAME|LDAY|DAY|LJDAY|JDAY)$/;
+
+// Programs whose SYSTSIN names the application program they run (DB2 batch through TSO).
+const TSO_BATCH = new Set(['IKJEFT01', 'IKJEFT1A', 'IKJEFT1B']);
+
+export const isJclSource = (text: string) => {
+  const first = text.split('\n').find(l => l.trim());
+  return !!first && first.startsWith('//') && /^\/\/[^*\s]*\s+(JOB|EXEC|PROC|DD)\b/m.test(text);
+};
+
+interface Statement {
+  name?: string;
+  op: string;
+  operands: string;
+  line: number;
+  inline?: string;
+}
+
+// The operand field ends at the first blank outside quotes; anything after it is a comment.
+const operandField = (text: string) => {
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "'") quoted = !quoted;
+    else if (text[i] === ' ' && !quoted) return text.slice(0, i);
+  }
+  return text;
+};
+
+// Columns 3-71 carry the statement; 72 is the continuation column and 73-80 sequence numbers.
+const statementText = (line: string) => line.slice(2, 71);
+
+const readStatements = (content: string): Statement[] => {
+  const lines = content.split('\n').map(l => l.replace(/\r$/, ''));
+  const statements: Statement[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const raw = lines[i];
+    const line = ++i;
+    if (!raw.startsWith('//') || raw.startsWith('//*')) continue;
+    const match = statementText(raw).match(/^(\S*)\s+(\S+)\s*(.*)$/);
+    if (!match) continue;
+    const op = match[2].toUpperCase();
+    let operands: string;
+    if (op === 'IF') {
+      let rest = match[3];
+      while (!/\bTHEN\b/i.test(rest) && i < lines.length && /^\/\/\s/.test(lines[i])) rest += ` ${statementText(lines[i++]).trim()}`;
+      operands = rest.replace(/\bTHEN\b[\s\S]*$/i, '').trim();
+    } else {
+      operands = operandField(match[3]);
+      while (operands.endsWith(',') && i < lines.length && /^\/\/\s/.test(lines[i])) operands += operandField(statementText(lines[i++]).trimStart());
+    }
+    const statement: Statement = { name: match[1] || undefined, op, operands, line };
+    statements.push(statement);
+
+    if (op === 'DD' && /^(\*|DATA)(,|$)/i.test(operands)) {
+      const dlm = operands.match(/\bDLM=(?:'([^']{2})'|([^,'\s]{2}))/i);
+      const delimiter = dlm ? dlm[1] || dlm[2] : '/*';
+      // DD * also ends at the next JCL statement; DD DATA and DLM= decks only at the delimiter.
+      const strict = !!dlm || /^DATA/i.test(operands);
+      const deck: string[] = [];
+      while (i < lines.length && !lines[i].startsWith(delimiter) && (strict || !lines[i].startsWith('//'))) deck.push(lines[i++]);
+      if (i < lines.length && lines[i].startsWith(delimiter)) i++;
+      statement.inline = deck.join('\n').slice(0, MAX_INLINE);
+    }
+  }
+  return statements;
+};
+
+// Splits on commas outside parentheses and quotes.
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "'") quoted = !quoted;
+    else if (quoted) continue;
+    else if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    else if (ch === ',' && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts;
+};
+
+const unwrap = (value: string) => /^\(.*\)$/s.test(value) ? value.slice(1, -1) : value;
+
+const unquote = (value: string) => /^'.*'$/s.test(value) ? value.slice(1, -1).replace(/''/g, "'") : value;
+
+interface Operands {
+  positional: string[];
+  keywords: Map<string, string>;
+}
+
+const parseOperands = (text: string): Operands => {
+  const positional: string[] = [];
+  const keywords = new Map<string, string>();
+  splitTopLevel(text).filter(Boolean).forEach(part => {
+    const keyword = part.match(/^([A-Z0-9@#$.]+)=([\s\S]*)$/i);
+    if (keyword) keywords.set(keyword[1].toUpperCase(), keyword[2]);
+    else positional.push(part);
+  });
+  return { positional, keywords };
+};
+
+// &NAME and &NAME. are symbolic parameters; &&NAME is a temporary data set and stays.
+const substitute = (text: string, symbols: Record<string, string>, unresolved: Set<string>) =>
+  text.replace(/&&|&([A-Z@#$][A-Z0-9@#$]{0,7})\.?/gi, (match, name?: string) => {
+    if (!name) return match;
+    const key = name.toUpperCase();
+    if (key in symbols) return symbols[key];
+    if (!SYSTEM_SYMBOLS.test(key)) unresolved.add(key);
+    return match;
+  });
+
+const RELOPS: Record<string, JclRelOp> = {
+  '=': 'EQ', 'EQ': 'EQ', '¬=': 'NE', '^=': 'NE', 'NE': 'NE', '>': 'GT', 'GT': 'GT', '<': 'LT', 'LT': 'LT',
+  '>=': 'GE', 'GE': 'GE', '¬<': 'GE', '^<': 'GE', 'NL': 'GE', '<=': 'LE', 'LE': 'LE', '¬>': 'LE', '^>': 'LE', 'NG': 'LE'
+};
+
+// COND=(code,op,step) bypasses the step when `code op RC` holds, i.e. when `RC mirror(op) code`.
+const MIRROR: Record<JclRelOp, JclRelOp> = { EQ: 'EQ', NE: 'NE', GT: 'LT', LT: 'GT', GE: 'LE', LE: 'GE' };
+
+const ALWAYS: JclCondition = { kind: 'always' };
+
+const and = (left: JclCondition, right: JclCondition): JclCondition =>
+  left.kind === 'always' ? right : right.kind === 'always' ? left : { kind: 'and', left, right };
+
+const or = (left: JclCondition, right: JclCondition): JclCondition => ({ kind: 'or', left, right });
+
+const mentionsAbend = (c: JclCondition): boolean => {
+  switch (c.kind) {
+    case 'abend': return true;
+    case 'not': return mentionsAbend(c.expr);
+    case 'and':
+    case 'or': return mentionsAbend(c.left) || mentionsAbend(c.right);
+    default: return false;
+  }
+};
+
+type Qualify = (step: string) => string;
+
+interface CondParameter {
+  tests: JclCondition[];
+  even: boolean;
+  only: boolean;
+}
+
+const parseCond = (value: string, qualify: Qualify): CondParameter => {
+  const result: CondParameter = { tests: [], even: false, only: false };
+  const items = splitTopLevel(unwrap(value.toUpperCase()));
+  const test = (parts: string[]) => {
+    const [code, op, step] = parts;
+    if (!/^\d+$/.test(code) || !RELOPS[op]) throw new Error(`COND test (${parts.join(',')}) is not valid`);
+    result.tests.push({ kind: 'rc', step: step ? qualify(step) : undefined, anyStep: !step, op: MIRROR[RELOPS[op]], value: Number(code) });
+  };
+  if (/^\d+$/.test(items[0])) {
+    test(items);
+  } else {
+    items.forEach(item => {
+      if (item === 'EVEN') result.even = true;
+      else if (item === 'ONLY') result.only = true;
+      else test(splitTopLevel(unwrap(item)));
+    });
+  }
+  return result;
+};
+
+const parseIfExpression = (text: string, qualify: Qualify = s => s): JclCondition => {
+  const tokens = text.toUpperCase().match(/[¬^]=|>=|<=|[¬^][<>]|[()&|¬^=<>]|[A-Z0-9@#$.]+/g) || [];
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  const relation = (token: string): JclCondition => {
+    const parts = token.split('.');
+    const keyword = parts.pop()!;
+    const step = parts.length ? qualify(parts.join('.')) : undefined;
+    const op = RELOPS[peek()];
+    if (keyword === 'RC') {
+      if (!op) throw new Error('RC must be compared with a value');
+      next();
+      const value = Number(next());
+      if (!Number.isInteger(value)) throw new Error('RC must be compared with a number');
+      return { kind: 'rc', step, op, value };
+    }
+    if (keyword === 'ABEND' || keyword === 'ABENDCC' || keyword === 'RUN') {
+      let negate = false;
+      if (op) {
+        next();
+        const value = next();
+        // ABENDCC=S0C7 narrows to one completion code; it is treated as any abend of the step.
+        if (keyword !== 'ABENDCC') negate = (value === 'FALSE') !== (op === 'NE');
+      }
+      if (keyword === 'RUN' && !step) throw new Error('RUN needs a step name');
+      const condition: JclCondition = keyword === 'RUN' ? { kind: 'run', step: step! } : { kind: 'abend', step };
+      return negate ? { kind: 'not', expr: condition } : condition;
+    }
+    throw new Error(`unknown keyword ${token}`);
+  };
+  const factor = (): JclCondition => {
+    const token = next();
+    if (token === undefined) throw new Error('expression ends early');
+    if (token === '¬' || token === '^' || token === 'NOT') return { kind: 'not', expr: factor() };
+    if (token === '(') {
+      const inner = expr();
+      if (next() !== ')') throw new Error('unbalanced parentheses');
+      return inner;
+    }
+    return relation(token);
+  };
+  const term = (): JclCondition => {
+    let left = factor();
+    while (peek() === '&' || peek() === 'AND') {
+      next();
+      left = { kind: 'and', left, right: factor() };
+    }
+    return left;
+  };
+  const expr = (): JclCondition => {
+    let left = term();
+    while (peek() === '|' || peek() === 'OR') {
+      next();
+      left = or(left, term());
+    }
+    return left;
+  };
+
+  const condition = expr();
+  if (pos < tokens.length) throw new Error(`unexpected ${tokens[pos]}`);
+  return condition;
+};
+
+interface ProcDefinition {
+  name: string;
+  defaults: Record<string, string>;
+  statements: Statement[];
+}
+
+interface RawDd {
+  name: string;
+  positional: string[];
+  keywords: Map<string, string>;
+  line: number;
+  inline?: string;
+}
+
+interface RawStep {
+  step: JclStep;
+  dds: RawDd[];
+}
+
+// Splits a member into JOBs and the PROCs it defines (in-stream PROC ... PEND, or a
+// cataloged PROC member that starts with a PROC statement and runs to the end).
+const splitMember = (member: JclMember) => {
+  const statements = readStatements(member.content);
+  const procs: ProcDefinition[] = [];
+  const jobs: { name: string; statements: Statement[]; line: number; endLine: number }[] = [];
+  let proc: ProcDefinition | undefined;
+  statements.forEach(statement => {
+    if (statement.op === 'PROC') {
+      const { keywords } = parseOperands(statement.operands);
+      proc = {
+        name: (statement.name || member.name.replace(/\.[^/.]+$/, '')).toUpperCase(),
+        defaults: Object.fromEntries([...keywords].map(([k, v]) => [k, unquote(v)])),
+        statements: []
+      };
+      procs.push(proc);
+    } else if (statement.op === 'PEND') {
+      proc = undefined;
+    } else if (statement.op === 'JOB') {
+      proc = undefined;
+      jobs.push({ name: (statement.name || member.name).toUpperCase(), statements: [statement], line: statement.line, endLine: statement.line });
+    } else if (proc) {
+      proc.statements.push(statement);
+    } else if (jobs.length) {
+      jobs[jobs.length - 1].statements.push(statement);
+    }
+    if (jobs.length && !proc) jobs[jobs.length - 1].endLine = statement.line;
+  });
+  return { procs, jobs };
+};
+
+// DD name -> the ways the program opens the file assigned to it (INPUT, OUTPUT, I-O, EXTEND).
+const fileOpenModes = (cobolSource: string): Map<string, Set<string>> => {
+  const text = toCodeLines(cobolSource).map(l => l.text).join(' ').toUpperCase().replace(/"[^"]*"|'[^']*'/g, m => m.replace(/\s/g, ''));
+  const assigned = new Map<string, string>();
+  for (const m of text.matchAll(/\bSELECT\s+(?:OPTIONAL\s+)?([A-Z0-9-]+)\s+ASSIGN\s+(?:TO\s+)?["']?([A-Z0-9@#$-]+)/g)) {
+    // UT-S-DDNAME and S-DDNAME name the DD in their last segment.
+    assigned.set(m[1], m[2].split('-').pop()!);
+  }
+  const modes = new Map<string, Set<string>>();
+  const tokens = text.split(/[\s.]+/);
+  tokens.forEach((token, i) => {
+    if (token !== 'OPEN') return;
+    let mode: string | undefined;
+    for (let j = i + 1; j < tokens.length; j++) {
+      const t = tokens[j];
+      if (['INPUT', 'OUTPUT', 'I-O', 'EXTEND'].includes(t)) mode = t;
+      else if (mode && assigned.has(t)) {
+        const dd = assigned.get(t)!;
+        if (!modes.has(dd)) modes.set(dd, new Set());
+        modes.get(dd)!.add(mode);
+      } else break;
+    }
+  });
+  return modes;
+};
+
+const programIndex = (chunks: CodeChunk[]) => {
+  const index = new Map<string, CodeChunk>();
+  chunks.filter(c => c.artifactType !== 'COPYBOOK').forEach(chunk => {
+    const id = findProgramId(chunk.cobolSource);
+    if (id) index.set(id, chunk);
+    index.set(chunk.name.replace(/\.[^/.]+$/, '').toUpperCase(), chunk);
+  });
+  return index;
+};
+
+const parseJob = (
+  job: { name: string; statements: Statement[] },
+  procs: Map<string, ProcDefinition>,
+  programs: Map<string, CodeChunk>
+): Omit<JclJob, 'sourceFile' | 'sourceRange'> => {
+  const warnings: string[] = [];
+  const unresolved = new Set<string>();
+  const raw: RawStep[] = [];
+  const ids = new Set<string>();
+  let jobCond: CondParameter = { tests: [], even: false, only: false };
+
+  const uniqueId = (id: string) => {
+    let unique = id;
+    for (let n = 2; ids.has(unique); n++) unique = `${id}#${n}`;
+    ids.add(unique);
+    return unique;
+  };
+
+  interface Scope {
+    symbols: Record<string, string>;
+    qualifier?: string;
+    procSteps: Set<string>;
+    outer: { condition: JclCondition; text: string }[];
+    // COND and PARM from the EXEC that invoked the PROC, keyed by proc step ('' for all steps).
+    execCond?: Map<string, string>;
+    execParm?: Map<string, string>;
+    depth: number;
+  }
+
+  const run = (statements: Statement[], scope: Scope): RawStep[] => {
+    const created: RawStep[] = [];
+    const ifStack: { condition: JclCondition; text: string; inElse: boolean }[] = [];
+    const qualify: Qualify = step => scope.qualifier && scope.procSteps.has(step.split('.')[0]) ? `${scope.qualifier}.${step}` : step;
+    // DD statements after an EXEC of a PROC override or add to the expanded steps.
+    let target: { steps: RawStep[]; qualifier?: string } | undefined;
+
+    const activeConditions = () => [
+      ...scope.outer,
+      ...ifStack.map(entry => entry.inElse
+        ? { condition: { kind: 'not', expr: entry.condition } as JclCondition, text: `ELSE of ${entry.text}` }
+        : { condition: entry.condition, text: entry.text })
+    ];
+
+    statements.forEach(statement => {
+      const operands = substitute(statement.operands, scope.symbols, unresolved);
+      switch (statement.op) {
+        case 'SET':
+          parseOperands(operands).keywords.forEach((value, key) => { scope.symbols[key] = unquote(value); });
+          return;
+        case 'IF': {
+          let condition: JclCondition = ALWAYS;
+          try {
+            condition = parseIfExpression(operands, qualify);
+          } catch (e: any) {
+            warnings.push(`Line ${statement.line}: IF ${operands} could not be parsed (${e.message}); its steps are treated as unconditional.`);
+          }
+          ifStack.push({ condition, text: `IF ${operands}`, inElse: false });
+          return;
+        }
+        case 'ELSE':
+          if (ifStack.length) ifStack[ifStack.length - 1].inElse = true;
+          return;
+        case 'ENDIF':
+          ifStack.pop();
+          return;
+        case 'INCLUDE':
+          warnings.push(`Line ${statement.line}: INCLUDE ${operands} is not expanded; upload the member inline to include its statements.`);
+          return;
+        case 'EXEC': {
+          const { positional, keywords } = parseOperands(operands);
+          const stepName = (statement.name || `STEP${raw.length + created.length + 1}`).toUpperCase();
+          const conditions = activeConditions();
+          const program = keywords.get('PGM');
+          const procName = keywords.get('PROC') || (!program ? positional[0] : undefined);
+
+          if (program) {
+            const condText = scope.execCond?.get(stepName) ?? scope.execCond?.get('') ?? keywords.get('COND');
+            let cond: CondParameter = { tests: [], even: false, only: false };
+            if (condText) {
+              try {
+                cond = parseCond(condText, qualify);
+              } catch (e: any) {
+                warnings.push(`Line ${statement.line}: ${e.message}.`);
+              }
+            }
+            let runWhen = conditions.reduce((acc, c) => and(acc, c.condition), ALWAYS);
+            const bypass = [...cond.tests, ...jobCond.tests];
+            if (bypass.length) runWhen = and(runWhen, { kind: 'not', expr: bypass.reduce(or) });
+            if (cond.only) runWhen = and(runWhen, { kind: 'abend' });
+            else if (!cond.even && !mentionsAbend(runWhen)) runWhen = and({ kind: 'not', expr: { kind: 'abend' } }, runWhen);
+
+            const parm = scope.execParm?.get(stepName) ?? (created.length === 0 ? scope.execParm?.get('') : undefined) ?? keywords.get('PARM');
+            const step: JclStep = {
+              id: uniqueId(scope.qualifier ? `${scope.qualifier}.${stepName}` : stepName),
+              name: stepName,
+              program: unquote(program).toUpperCase(),
+              parm: parm !== undefined ? unquote(unwrap(parm)) : undefined,
+              condition: [...conditions.map(c => c.text), condText ? `COND=${condText}` : '', jobCond.tests.length ? 'JOB COND' : ''].filter(Boolean).join('; ') || undefined,
+              runWhen,
+              dds: [],
+              line: statement.line
+            };
+            const entry: RawStep = { step, dds: [] };
+            created.push(entry);
+            target = { steps: [entry] };
+            return;
+          }
+
+          const proc = procName ? procs.get(unquote(procName).toUpperCase()) : undefined;
+          if (!proc || scope.depth >= MAX_PROC_DEPTH) {
+            warnings.push(proc
+              ? `Line ${statement.line}: PROC ${procName} nests too deeply to expand.`
+              : `Line ${statement.line}: PROC ${procName || '?'} was not found; upload the PROC member to expand step ${stepName}.`);
+            const step: JclStep = {
+              id: uniqueId(scope.qualifier ? `${scope.qualifier}.${stepName}` : stepName),
+              name: stepName,
+              proc: procName?.toUpperCase(),
+              runWhen: conditions.reduce((acc, c) => and(acc, c.condition), ALWAYS),
+              condition: conditions.map(c => c.text).join('; ') || undefined,
+              dds: [],
+              line: statement.line
+            };
+            const placeholder: RawStep = { step, dds: [] };
+            created.push(placeholder);
+            target = { steps: [placeholder] };
+            return;
+          }
+
+          const symbols: Record<string, string> = { ...scope.symbols, ...proc.defaults };
+          const execCond = new Map<string, string>();
+          const execParm = new Map<string, string>();
+          keywords.forEach((value, key) => {
+            const [param, procStep = ''] = key.split('.');
+            if (param === 'COND') execCond.set(procStep, value);
+            else if (param === 'PARM') execParm.set(procStep, value);
+            else if (!procStep && !['PROC', 'REGION', 'TIME', 'ACCT', 'ADDRSPC', 'DYNAMNBR', 'PERFORM', 'RD', 'MEMLIMIT', 'CCSID'].includes(param)) {
+              symbols[param] = unquote(value);
+            }
+          });
+          const expanded = run(proc.statements, {
+            symbols,
+            qualifier: scope.qualifier ? `${scope.qualifier}.${stepName}` : stepName,
+            procSteps: new Set(proc.statements.filter(s => s.op === 'EXEC' && s.name).map(s => s.name!.toUpperCase())),
+            outer: conditions,
+            execCond,
+            execParm,
+            depth: scope.depth + 1
+          });
+          expanded.forEach(s => { s.step.proc = proc.name; });
+          created.push(...expanded);
+          target = { steps: expanded, qualifier: scope.qualifier ? `${scope.qualifier}.${stepName}` : stepName };
+          return;
+        }
+        case 'DD': {
+          if (!target?.steps.length) return;
+          const { positional, keywords } = parseOperands(operands);
+          const label = statement.name?.toUpperCase();
+          let owner = target.steps[target.steps.length - 1];
+          let ddName = label;
+          if (label?.includes('.') && target.qualifier) {
+            const [procStep, name] = label.split('.');
+            const match = target.steps.find(s => s.step.id === `${target!.qualifier}.${procStep}`);
+            if (!match) {
+              warnings.push(`Line ${statement.line}: override ${label} does not match a step of the PROC.`);
+              return;
+            }
+            owner = match;
+            ddName = name;
+          }
+          const dd: RawDd = { name: ddName || '', positional, keywords, line: statement.line, inline: statement.inline };
+          if (!ddName) {
+            // An unnamed DD concatenates onto the previous one.
+            dd.name = owner.dds[owner.dds.length - 1]?.name || '';
+            owner.dds.push(dd);
+            return;
+          }
+          const existing = owner.dds.findIndex(d => d.name === ddName);
+          if (existing >= 0 && target.qualifier) {
+            const previous = owner.dds[existing];
+            owner.dds[existing] = {
+              ...dd,
+              positional: positional.length ? positional : previous.positional,
+              keywords: new Map([...previous.keywords, ...keywords]),
+              inline: statement.inline ?? previous.inline
+            };
+          } else {
+            owner.dds.push(dd);
+          }
+          return;
+        }
+      }
+    });
+    if (ifStack.length) warnings.push(`${ifStack.length} IF block(s) in ${scope.qualifier ? `PROC step ${scope.qualifier}` : job.name} have no ENDIF.`);
+    return created;
+  };
+
+  const [jobStatement, ...body] = job.statements;
+  const jobCondText = parseOperands(jobStatement.operands).keywords.get('COND');
+  if (jobCondText) {
+    try {
+      jobCond = parseCond(jobCondText, s => s);
+    } catch (e: any) {
+      warnings.push(`JOB ${job.name}: ${e.message}.`);
+    }
+  }
+  raw.push(...run(body, { symbols: {}, procSteps: new Set(), outer: [], depth: 0 }));
+  if (unresolved.size) warnings.push(`Unresolved symbolic parameters: ${[...unresolved].map(s => `&${s}`).join(', ')}.`);
+
+  // Link steps to the programs they run; DB2 batch runs the program named in SYSTSIN.
+  raw.forEach(({ step, dds }) => {
+    let program = step.program;
+    if (program && TSO_BATCH.has(program)) {
+      const systsin = dds.find(d => d.name === 'SYSTSIN')?.inline;
+      program = systsin?.toUpperCase().match(/\bRUN\s+PROG(?:RAM)?\s*\(\s*([A-Z0-9@#$]+)\s*\)/)?.[1] || program;
+    }
+    const chunk = program ? programs.get(program) : undefined;
+    if (chunk) step.chunkId = chunk.id;
+  });
+
+  const steps = raw.map(({ step, dds }) => {
+    const resolved: JclDd[] = dds.map(dd => {
+      let dsn = dd.keywords.get('DSN') ?? dd.keywords.get('DSNAME');
+      // *.STEP.DD and *.STEP.PROCSTEP.DD point back at an earlier DD's data set.
+      const backRef = dsn?.match(/^\*\.(.+)\.([A-Z0-9@#$]+)$/i);
+      if (backRef) {
+        const refStep = raw.find(r => r.step.id === backRef[1].toUpperCase() || r.step.name === backRef[1].toUpperCase());
+        const refDd = refStep?.dds.find(d => d.name === backRef[2].toUpperCase());
+        dsn = refDd?.keywords.get('DSN') ?? refDd?.keywords.get('DSNAME');
+        if (!dsn) warnings.push(`Step ${step.id}: back reference ${backRef[0]} could not be resolved.`);
+      }
+      const first = dd.positional[0]?.toUpperCase();
+      return {
+        name: dd.name,
+        dsn: dsn ? unquote(dsn).toUpperCase() : undefined,
+        disposition: dd.keywords.get('DISP')?.toUpperCase(),
+        sysout: dd.keywords.get('SYSOUT'),
+        dummy: first === 'DUMMY' || dsn?.toUpperCase() === 'NULLFILE' || undefined,
+        inline: dd.inline,
+        line: dd.line
+      };
+    });
+    return { ...step, dds: resolved };
+  });
+
+  const { datasets, edges } = lineage(steps, programs);
+  return { name: job.name, steps, edges, datasets, warnings };
+};
+
+const GENERATION = /^(.*)\(([+-]?\d+)\)$/;
+
+const lineage = (steps: JclStep[], programs: Map<string, CodeChunk>) => {
+  const datasets = new Map<string, JclDataset>();
+  const chunkById = new Map([...programs.values()].map(c => [c.id, c]));
+  steps.forEach(step => {
+    const chunk = step.chunkId ? chunkById.get(step.chunkId) : undefined;
+    const modes = chunk ? fileOpenModes(chunk.cobolSource) : new Map<string, Set<string>>();
+    step.dds.forEach(dd => {
+      if (!dd.dsn || dd.dummy) return;
+      const gdg = dd.dsn.match(GENERATION);
+      const name = gdg ? gdg[1] : dd.dsn;
+      const parts = dd.disposition ? splitTopLevel(unwrap(dd.disposition)) : [];
+      const status = parts[0] || 'NEW';
+      const writes = [...(modes.get(dd.name) || [])].some(m => m !== 'INPUT');
+      const access: JclDatasetAccess[] = [];
+      if (status === 'NEW') access.push('CREATE');
+      else if (step.program === 'IEFBR14') { /* allocation only: no data is read or written */ }
+      else if (status === 'MOD' || writes) access.push('WRITE');
+      else access.push('READ');
+      if (parts[1] === 'DELETE') access.push('DELETE');
+      if (!datasets.has(name)) datasets.set(name, { name, temporary: name.startsWith('&&'), uses: [] });
+      access.forEach(a => datasets.get(name)!.uses.push({ stepId: step.id, ddName: dd.name, access: a, generation: gdg?.[2] }));
+    });
+  });
+
+  const edges: JclStepEdge[] = steps.slice(1).map((step, i) => ({ from: steps[i].id, to: step.id, kind: 'SEQUENCE' }));
+  const order = new Map(steps.map((s, i) => [s.id, i]));
+  const seen = new Set<string>();
+  datasets.forEach(dataset => {
+    dataset.uses.filter(u => u.access === 'READ').forEach(read => {
+      const writer = dataset.uses
+        // GDG generations are relative to the job's start: (0) is never a (+1) written in this job.
+        .filter(u => (u.access === 'CREATE' || u.access === 'WRITE') && u.generation === read.generation && order.get(u.stepId)! < order.get(read.stepId)!)
+        .pop();
+      const key = `${writer?.stepId}>${read.stepId}>${dataset.name}`;
+      if (!writer || seen.has(key)) return;
+      seen.add(key);
+      edges.push({ from: writer.stepId, to: read.stepId, kind: 'DATASET', dataset: dataset.name });
+    });
+  });
+  return { datasets: [...datasets.values()], edges };
+};
+
+// Parses every uploaded JCL member. PROCs are shared across members, so a job can
+// use a cataloged PROC uploaded as its own file; in-stream PROCs take precedence.
+export const parseJclMembers = (members: JclMember[], chunks: CodeChunk[]): JclJob[] => {
+  const split = members.map(member => ({ member, ...splitMember(member) }));
+  const cataloged = new Map(split.flatMap(s => s.procs).map(p => [p.name, p]));
+  const programs = programIndex(chunks);
+  return split.flatMap(({ member, procs, jobs }) => {
+    const available = new Map([...cataloged, ...procs.map(p => [p.name, p] as const)]);
+    return jobs.map(job => ({
+      ...parseJob(job, available, programs),
+      sourceFile: member.sourceFile,
+      sourceRange: { startLine: member.startLine + job.line - 1, endLine: member.startLine + job.endLine - 1 }
+    }));
+  });
+};
+
+export const jobStepsForChunk = (jobs: JclJob[] | undefined, chunkId: string) =>
+  (jobs || []).flatMap(job => job.steps.filter(s => s.chunkId === chunkId).map(step => ({ job, step })));
+
+// Reads a condition back as JCL-style text for display.
+export const describeCondition = (c: JclCondition): string => {
+  switch (c.kind) {
+    case 'always': return 'always';
+    case 'rc': return `${c.step ? `${c.step}.RC` : c.anyStep ? 'any RC' : 'RC'} ${c.op} ${c.value}`;
+    case 'abend': return c.step ? `${c.step}.ABEND` : 'ABEND';
+    case 'run': return `${c.step}.RUN`;
+    case 'not': return `¬(${describeCondition(c.expr)})`;
+    case 'and': return `${describeCondition(c.left)} & ${describeCondition(c.right)}`;
+    case 'or': return `(${describeCondition(c.left)} | ${describeCondition(c.right)})`;
+  }
+};
@@ -0,0 +1,329 @@
+
+import { CodeChunk, JclCondition, JclDd, JclJob, JclStep } from "../types";
+import { chunkLanguage, moduleName, pythonModuleName } from "./targets";
+
+const pyString = (text: string) => JSON.stringify(text);
+
+const yamlString = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+export const workflowFileName = (job: JclJob, kind: 'airflow' | 'workflows') =>
+  kind === 'airflow' ? `${pythonModuleName(job.name)}_dag.py` : `${pythonModuleName(job.name).replace(/_/g, '-')}.workflow.yaml`;
+
+// Data sets become paths under the data root: dots become directories, a GDG generation
+// its own file and &&TEMP a scratch directory that lives for one run.
+const datasetPath = (dsn: string) => {
+  const gdg = dsn.match(/^(.*)\(([+-]?\d+)\)$/);
+  const base = (gdg ? gdg[1] : dsn).replace(/^&&/, 'temp.').split('.').join('/');
+  return gdg ? `${base}/G${gdg[2]}` : base;
+};
+
+interface StepTarget {
+  step: JclStep;
+  taskId: string;
+  chunk?: CodeChunk;
+}
+
+const stepTargets = (job: JclJob, chunks: CodeChunk[]): StepTarget[] => {
+  const used = new Set<string>();
+  return job.steps.map(step => {
+    let taskId = step.id.toLowerCase().replace(/[^a-z0-9_]+/g, '_');
+    while (used.has(taskId)) taskId += '_';
+    used.add(taskId);
+    return { step, taskId, chunk: chunks.find(c => c.id === step.chunkId) };
+  });
+};
+
+const stepOrigin = (step: JclStep) => step.proc && step.program ? `PROC ${step.proc} line ${step.line}` : `JCL line ${step.line}`;
+
+const ddComment = (dd: JclDd) =>
+  dd.dsn ? `${dd.dsn}${dd.disposition ? ` DISP=${dd.disposition}` : ''}` : dd.sysout ? `SYSOUT=${dd.sysout}` : dd.dummy ? 'DUMMY' : dd.inline !== undefined ? 'in-stream data' : 'unallocated';
+
+const pythonCondition = (c: JclCondition): string => {
+  switch (c.kind) {
+    case 'always': return 'True';
+    case 'rc': return c.step ? `_rc_is(ctx, ${pyString(c.step)}, ${pyString(c.op)}, ${c.value})` : `_max_rc_is(ctx, ${pyString(c.op)}, ${c.value})`;
+    case 'abend': return `_abended(ctx${c.step ? `, ${pyString(c.step)}` : ''})`;
+    case 'run': return `_ran(ctx, ${pyString(c.step)})`;
+    case 'not': return `not (${pythonCondition(c.expr)})`;
+    case 'and': return `(${pythonCondition(c.left)} and ${pythonCondition(c.right)})`;
+    case 'or': return `(${pythonCondition(c.left)} or ${pythonCondition(c.right)})`;
+  }
+};
+
+const pythonDds = (step: JclStep) => step.dds
+  .filter((dd, i, all) => all.findIndex(d => d.name === dd.name) === i)
+  .map(dd => {
+    const value = dd.inline !== undefined ? `_inline(${pyString(dd.inline)})`
+      : dd.dummy ? 'os.devnull'
+      : dd.sysout ? `_path(${pyString(`sysout/${step.id}/${dd.name}.txt`)})`
+      : dd.dsn ? `_path(${pyString(datasetPath(dd.dsn))})`
+      : undefined;
+    return value ? `        ${pyString(dd.name)}: ${value},  # ${ddComment(dd)}` : undefined;
+  })
+  .filter(Boolean)
+  .join('\n');
+
+const pythonRunner = ({ step, chunk }: StepTarget, projectPackage: string) => {
+  const parm = step.parm !== undefined ? pyString(step.parm) : 'None';
+  if (!chunk) {
+    if (step.program === 'IEFBR14') return '    return 0  # IEFBR14 only allocates or deletes data sets';
+    const what = step.program ? `${step.program} has no migrated equivalent` : `PROC ${step.proc || '?'} was not expanded`;
+    return `    # TODO: replace with the modern equivalent of this step.\n    raise NotImplementedError(${pyString(what)})`;
+  }
+  const dds = `    dds = {\n${pythonDds(step)}\n    }`;
+  switch (chunkLanguage(chunk)) {
+    case 'java':
+      return `${dds}\n    return _run_process(["java", "-cp", JAVA_CLASSPATH, ${pyString(`com.logiclift.${projectPackage}.${moduleName(chunk, 'java')}`)}], dds, ${parm})`;
+    case 'typescript':
+      return `${dds}\n    return _run_process(["npx", "tsx", ${pyString(`src/${moduleName(chunk, 'typescript')}.ts`)}], dds, ${parm})`;
+    default:
+      return `${dds}\n    return _run_module(${pyString(`${projectPackage}.${moduleName(chunk, 'python')}`)}, dds, ${parm})`;
+  }
+};
+
+// Steps run in JCL order with trigger rule ALL_DONE, so a failed or skipped step never
+// blocks the next one; each step evaluates its own COND/IF logic and skips itself.
+// A step's return code travels through XCom and a failed task stands in for an abend.
+export const buildAirflowDag = (job: JclJob, chunks: CodeChunk[], projectName: string) => {
+  const projectPackage = pythonModuleName(projectName || 'logic_lift_export');
+  const targets = stepTargets(job, chunks);
+  const lines = [
+    `"""Airflow DAG for JCL job ${job.name}${job.sourceFile ? ` (${job.sourceFile})` : ''}.`,
+    '',
+    'Generated by Logic Lift AI. Each task runs one JCL step against the migrated module;',
+    'the DD statements become DD_<NAME> environment variables that point under DATA_ROOT.',
+    '"""',
+    'import importlib',
+    'import operator',
+    'import os',
+    'import subprocess',
+    'import tempfile',
+    'from datetime import datetime',
+    '',
+    'from airflow import DAG',
+    'from airflow.exceptions import AirflowSkipException',
+    'from airflow.operators.python import PythonOperator',
+    'from airflow.utils.state import State',
+    'from airflow.utils.trigger_rule import TriggerRule',
+    '',
+    'DATA_ROOT = os.environ.get("LOGIC_LIFT_DATA_ROOT", "/data")',
+    'JAVA_CLASSPATH = os.environ.get("LOGIC_LIFT_CLASSPATH", "app.jar")',
+    `TASK_IDS = {${targets.map(t => `${pyString(t.step.id)}: ${pyString(t.taskId)}`).join(', ')}}`,
+    'OPS = {"EQ": operator.eq, "NE": operator.ne, "GT": operator.gt, "LT": operator.lt, "GE": operator.ge, "LE": operator.le}',
+    '',
+    '',
+    'def _path(relative):',
+    '    path = os.path.join(DATA_ROOT, relative)',
+    '    os.makedirs(os.path.dirname(path), exist_ok=True)',
+    '    return path',
+    '',
+    '',
+    'def _inline(text):',
+    '    handle = tempfile.NamedTemporaryFile("w", suffix=".txt", delete=False)',
+    '    handle.write(text)',
+    '    handle.close()',
+    '    return handle.name',
+    '',
+    '',
+    'def _environment(dds, parm):',
+    '    env = {f"DD_{name}": path for name, path in dds.items()}',
+    '    if parm is not None:',
+    '        env["JCL_PARM"] = parm',
+    '    return env',
+    '',
+    '',
+    'def _run_module(module, dds, parm):',
+    '    os.environ.update(_environment(dds, parm))',
+    '    entry = getattr(importlib.import_module(module), "main", None)',
+    '    if entry is None:',
+    '        raise RuntimeError(f"{module} has no main() entry point")',
+    '    return int(entry() or 0)',
+    '',
+    '',
+    'def _run_process(command, dds, parm):',
+    '    result = subprocess.run(command, env={**os.environ, **_environment(dds, parm)})',
+    '    if result.returncode < 0:',
+    '        raise RuntimeError(f"{command[-1]} ended by signal {-result.returncode}")',
+    '    return result.returncode',
+    '',
+    '',
+    'def _state(ctx, step):',
+    '    instance = ctx["dag_run"].get_task_instance(TASK_IDS[step])',
+    '    return instance.state if instance else None',
+    '',
+    '',
+    'def _earlier(ctx):',
+    '    current = ctx["ti"].task_id',
+    '    ids = list(TASK_IDS)',
+    '    return ids[:[TASK_IDS[s] for s in ids].index(current)]',
+    '',
+    '',
+    'def _rc(ctx, step):',
+    '    if _state(ctx, step) != State.SUCCESS:',
+    '        return None',
+    '    return ctx["ti"].xcom_pull(task_ids=TASK_IDS[step])',
+    '',
+    '',
+    'def _rc_is(ctx, step, op, value):',
+    '    rc = _rc(ctx, step)',
+    '    return rc is not None and OPS[op](rc, value)',
+    '',
+    '',
+    'def _max_rc_is(ctx, op, value):',
+    '    codes = [rc for rc in (_rc(ctx, s) for s in _earlier(ctx)) if rc is not None]',
+    '    return bool(codes) and OPS[op](max(codes), value)',
+    '',
+    '',
+    'def _abended(ctx, step=None):',
+    '    steps = [step] if step else _earlier(ctx)',
+    '    return any(_state(ctx, s) == State.FAILED for s in steps)',
+    '',
+    '',
+    'def _ran(ctx, step):',
+    '    return _state(ctx, step) in (State.SUCCESS, State.FAILED)',
+    ''
+  ];
+
+  targets.forEach(target => {
+    const { step, taskId, chunk } = target;
+    lines.push(
+      '',
+      `def ${taskId}(**ctx):`,
+      `    """${step.id}: ${step.program ? `PGM=${step.program}` : `PROC=${step.proc}`}${chunk ? ` -> ${chunk.name}` : ''} (${stepOrigin(step)})."""`
+    );
+    if (step.runWhen.kind !== 'always') {
+      const bypass = step.runWhen.kind === 'not' ? pythonCondition(step.runWhen.expr) : `not ${pythonCondition(step.runWhen)}`;
+      lines.push(
+        `    if ${bypass}:`,
+        `        raise AirflowSkipException(${pyString(`bypassed: ${step.condition || 'prior step abended'}`)})`
+      );
+    }
+    lines.push(pythonRunner(target, projectPackage), '');
+  });
+
+  lines.push(
+    '',
+    'with DAG(',
+    `    dag_id=${pyString(pythonModuleName(job.name))},`,
+    '    start_date=datetime(2024, 1, 1),',
+    '    schedule=None,',
+    '    catchup=False,',
+    `    tags=["logic-lift", "jcl"],`,
+    ') as dag:',
+    ...targets.map(t => `    ${t.taskId}_task = PythonOperator(task_id=${pyString(t.taskId)}, python_callable=${t.taskId}, trigger_rule=TriggerRule.ALL_DONE)`)
+  );
+  if (targets.length > 1) lines.push('', `    ${targets.map(t => `${t.taskId}_task`).join(' >> ')}`);
+  return lines.join('\n') + '\n';
+};
+
+const WORKFLOW_OPS: Record<string, string> = { EQ: '==', NE: '!=', GT: '>', LT: '<', GE: '>=', LE: '<=' };
+
+const workflowCondition = (c: JclCondition): string => {
+  switch (c.kind) {
+    case 'always': return 'true';
+    case 'rc': return c.step
+      ? `("${c.step}" in rc and rc["${c.step}"] ${WORKFLOW_OPS[c.op]} ${c.value})`
+      : `(len(keys(rc)) > 0 and max_rc ${WORKFLOW_OPS[c.op]} ${c.value})`;
+    case 'abend': return c.step ? `("${c.step}" in abended)` : 'any_abend';
+    case 'run': return `("${c.step}" in rc or "${c.step}" in abended)`;
+    case 'not': return `not(${workflowCondition(c.expr)})`;
+    case 'and': return `(${workflowCondition(c.left)} and ${workflowCondition(c.right)})`;
+    case 'or': return `(${workflowCondition(c.left)} or ${workflowCondition(c.right)})`;
+  }
+};
+
+// Each step runs a Cloud Run job named after the migrated module. Cloud Run reports only
+// success or failure, so a successful execution records RC 0 and a failure an abend.
+export const buildCloudWorkflow = (job: JclJob, chunks: CodeChunk[]) => {
+  const targets = stepTargets(job, chunks);
+  const lines = [
+    `# Cloud Workflows definition for JCL job ${job.name}${job.sourceFile ? ` (${job.sourceFile})` : ''}.`,
+    '# Generated by Logic Lift AI. Each step runs the Cloud Run job named after its migrated module;',
+    '# DD statements are passed as DD_<NAME> environment overrides under the data bucket.',
+    '# Cloud Run reports success or failure only: success records RC 0, failure an abend.',
+    'main:',
+    '  steps:',
+    '    - init:',
+    '        assign:',
+    '          - project: ${sys.get_env("GOOGLE_CLOUD_PROJECT_ID")}',
+    '          - region: ${sys.get_env("GOOGLE_CLOUD_LOCATION")}',
+    '          - data_root: ${"gs://" + project + "-data"}',
+    '          - rc: {}',
+    '          - abended: {}',
+    '          - max_rc: 0',
+    '          - any_abend: false'
+  ];
+
+  targets.forEach(({ step, taskId, chunk }) => {
+    const body: string[] = [];
+    if (chunk) {
+      const env = step.dds
+        .filter((dd, i, all) => all.findIndex(d => d.name === dd.name) === i && (dd.dsn || dd.sysout) && !dd.dummy)
+        .flatMap(dd => [
+          `                    - name: ${yamlString(`DD_${dd.name}`)}`,
+          `                      value: ${yamlString(`\${data_root + "/${dd.dsn ? datasetPath(dd.dsn) : `sysout/${step.id}/${dd.name}.txt`}"}`)}`
+        ]);
+      if (step.parm !== undefined) env.push('                    - name: JCL_PARM', `                      value: ${yamlString(step.parm)}`);
+      body.push(
+        `- ${taskId}_run:`,
+        '    try:',
+        '      steps:',
+        `        - ${taskId}_call:`,
+        '            call: googleapis.run.v1.namespaces.jobs.run',
+        '            args:',
+        `              name: ${yamlString(`\${"namespaces/" + project + "/jobs/${moduleName(chunk, 'typescript')}"}`)}`,
+        '              location: ${region}',
+        '              body:',
+        '                overrides:',
+        '                  containerOverrides:',
+        ...(env.length ? ['                    - env:', ...env.map(l => `    ${l}`)] : ['                    - env: []']),
+        `        - ${taskId}_ok:`,
+        '            assign:',
+        `              - rc["${step.id}"]: 0`,
+        '    except:',
+        '      as: e',
+        '      steps:',
+        `        - ${taskId}_abend:`,
+        '            assign:',
+        `              - abended["${step.id}"]: true`,
+        '              - any_abend: true'
+      );
+    } else if (step.program === 'IEFBR14') {
+      body.push(`- ${taskId}_ok:`, '    assign:', `      - rc["${step.id}"]: 0`);
+    } else {
+      const what = step.program ? `${step.program} has no migrated equivalent` : `PROC ${step.proc || '?'} was not expanded`;
+      body.push(
+        '# TODO: replace with the modern equivalent of this step.',
+        `- ${taskId}_todo:`,
+        '    call: sys.log',
+        '    args:',
+        `      text: ${yamlString(what)}`,
+        '      severity: WARNING',
+        `- ${taskId}_abend:`,
+        '    assign:',
+        `      - abended["${step.id}"]: true`,
+        '      - any_abend: true'
+      );
+    }
+    const indent = (prefix: string) => (line: string) => prefix + line;
+    lines.push(`    # ${step.id}: ${step.program ? `PGM=${step.program}` : `PROC=${step.proc}`}${chunk ? ` -> ${chunk.name}` : ''} (${stepOrigin(step)})`);
+    if (step.runWhen.kind === 'always') {
+      lines.push(`    - ${taskId}:`, '        steps:', ...body.map(indent('          ')));
+    } else {
+      lines.push(
+        `    - ${taskId}:`,
+        '        switch:',
+        `          - condition: ${yamlString(`\${${workflowCondition(step.runWhen)}}`)}`,
+        '            steps:',
+        ...body.map(indent('              '))
+      );
+    }
+  });
+  lines.push(
+    '    - finish:',
+    '        return:',
+    '          rc: ${rc}',
+    '          abended: ${abended}'
+  );
+  return lines.join('\n') + '\n';
+};
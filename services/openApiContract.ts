@@ -0,0 +1,297 @@
+
+import { CodeChunk, ParsedDataField, TargetLanguage } from "../types";
+import { findProgramId } from "./cobolSource";
+import { cicsResources } from "./cicsInventory";
+
+export interface SchemaObject {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number';
+  format?: string;
+  pattern?: string;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: SchemaObject;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  description?: string;
+  $ref?: string;
+  'x-cobol-name'?: string;
+  'x-cobol-picture'?: string;
+  'x-cobol-conditions'?: Record<string, string>;
+}
+
+const toCamel = (cobolName: string) =>
+  cobolName.toLowerCase().replace(/-+([a-z0-9])/g, (_, c: string) => c.toUpperCase()).replace(/-+$/, '');
+
+const toPascal = (cobolName: string) => {
+  const camel = toCamel(cobolName.replace(/\.[^/.]+$/, '').replace(/[^A-Za-z0-9-]+/g, '-'));
+  return camel[0].toUpperCase() + camel.slice(1);
+};
+
+const isElementary = (field: ParsedDataField) =>
+  !!field.picture || ['COMP-1', 'COMP-2', 'INDEX', 'POINTER'].includes(field.usage);
+
+const elementarySchema = (field: ParsedDataField): SchemaObject | undefined => {
+  const base = field.pythonType.replace(/^list\[(.*)\]$/, '$1');
+  const cobol = { 'x-cobol-name': field.name, 'x-cobol-picture': field.picture };
+  if (field.usage === 'COMP-1' || field.usage === 'COMP-2') return { type: 'number', format: field.usage === 'COMP-1' ? 'float' : 'double', ...cobol };
+  if (field.usage === 'INDEX' || field.usage === 'POINTER') return undefined;
+  if (base === 'int') {
+    const maximum = 10 ** (field.digits ?? 9) - 1;
+    return { type: 'integer', format: (field.digits ?? 9) <= 9 ? 'int32' : 'int64', minimum: field.signed ? -maximum : 0, maximum, ...cobol };
+  }
+  if (base === 'Decimal') {
+    // Decimals travel as strings so no client rounds money through a binary float.
+    const whole = (field.digits ?? 0) - (field.scale ?? 0);
+    return { type: 'string', format: 'decimal', pattern: `^${field.signed ? '-?' : ''}\\d{0,${whole}}(\\.\\d{0,${field.scale ?? 0}})?$`, ...cobol };
+  }
+  return { type: 'string', maxLength: field.length, ...cobol };
+};
+
+// Builds the JSON schema for one record. FILLER and REDEFINES items are left out: the
+// first has no meaning and the second is another view of bytes already in the contract.
+const recordSchema = (layout: ParsedDataField[], record: ParsedDataField): SchemaObject => {
+  const childrenOf = (parent: ParsedDataField) =>
+    layout.filter(f => f.path.startsWith(`${parent.path}.`) && !f.path.slice(parent.path.length + 1).includes('.'));
+
+  const schemaFor = (field: ParsedDataField): SchemaObject | undefined => {
+    const children = childrenOf(field);
+    const conditions = children.filter(c => c.level === 88 && c.value);
+    let schema: SchemaObject | undefined;
+    if (isElementary(field)) {
+      schema = elementarySchema(field);
+    } else {
+      const properties: Record<string, SchemaObject> = {};
+      children
+        .filter(c => c.level !== 88 && c.level !== 66 && c.name !== 'FILLER' && !c.redefines)
+        .forEach(child => {
+          const property = schemaFor(child);
+          if (property) properties[toCamel(child.name)] = property;
+        });
+      schema = { type: 'object', properties, 'x-cobol-name': field.name };
+    }
+    if (schema && conditions.length) schema['x-cobol-conditions'] = Object.fromEntries(conditions.map(c => [c.name, c.value!]));
+    if (!schema || !field.occurs) return schema;
+    return { type: 'array', minItems: field.occurs.min, maxItems: field.occurs.max, items: schema };
+  };
+
+  // An elementary 01 record still travels as an object, with the record as its only property.
+  const schema = schemaFor(record);
+  if (schema?.type === 'object') return schema;
+  return { type: 'object', properties: schema ? { [toCamel(record.name)]: schema } : {}, 'x-cobol-name': record.name };
+};
+
+const programName = (chunk: CodeChunk) => findProgramId(chunk.cobolSource) || chunk.name.replace(/\.[^/.]+$/, '').toUpperCase();
+
+export const contractClassName = (chunk: CodeChunk) => `${toPascal(programName(chunk))}Contract`;
+
+export const openApiFileName = (chunk: CodeChunk) => `${programName(chunk).toLowerCase()}.openapi.json`;
+
+export interface ContractModel {
+  name: string;
+  schema: SchemaObject;
+}
+
+// Request and response models for a chunk's COMMAREA contract, or undefined if it has none.
+export const contractModels = (chunk: CodeChunk): { program: string; request: ContractModel; response: ContractModel } | undefined => {
+  const contract = chunk.cicsInventory?.contract;
+  const layout = chunk.dataLayout || [];
+  const request = layout.find(f => f.path === contract?.request);
+  const response = layout.find(f => f.path === contract?.response);
+  if (!request || !response) return undefined;
+  const program = programName(chunk);
+  const prefix = toPascal(program);
+  return {
+    program,
+    request: { name: `${prefix}Request`, schema: recordSchema(layout, request) },
+    response: { name: `${prefix}Response`, schema: recordSchema(layout, response) }
+  };
+};
+
+const ERROR_SCHEMA: SchemaObject = {
+  type: 'object',
+  description: 'A CICS condition (RESP/RESP2) or abend raised while the transaction ran.',
+  properties: {
+    resp: { type: 'integer', format: 'int32' },
+    resp2: { type: 'integer', format: 'int32' },
+    abendCode: { type: 'string', maxLength: 4 },
+    message: { type: 'string' }
+  },
+  required: ['message']
+};
+
+// One POST operation per program: the COMMAREA request in, the returned COMMAREA out.
+export const buildOpenApiSpec = (chunk: CodeChunk) => {
+  const models = contractModels(chunk);
+  if (!models) return undefined;
+  const { program, request, response } = models;
+  const inventory = chunk.cicsInventory!;
+  const maps = cicsResources(inventory.commands, 'TERMINAL');
+  const links = cicsResources(inventory.commands, 'PROGRAM', /^(LINK|XCTL)$/);
+  const notes = [
+    `Recovered from the COMMAREA of ${program} (${chunk.sourceFile || chunk.name}).`,
+    `Request body: ${inventory.contract!.request}. Response body: ${inventory.contract!.response}.`,
+    inventory.transactionIds.length ? `Transactions: ${inventory.transactionIds.join(', ')}.` : '',
+    maps.length ? `Screen I/O through BMS maps ${maps.join(', ')} is carried in the request and response bodies.` : '',
+    links.length ? `Calls ${links.join(', ')} through LINK/XCTL.` : ''
+  ].filter(Boolean);
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: `${program} transaction API`,
+      version: '1.0.0',
+      description: `Generated by Logic Lift AI. ${notes.join(' ')}`
+    },
+    paths: {
+      [`/${program.toLowerCase()}`]: {
+        post: {
+          operationId: toCamel(program),
+          summary: `Run ${program}`,
+          'x-cics-program': program,
+          'x-cics-transactions': inventory.transactionIds,
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: `#/components/schemas/${request.name}` } } }
+          },
+          responses: {
+            '200': {
+              description: 'The COMMAREA returned to the caller.',
+              content: { 'application/json': { schema: { $ref: `#/components/schemas/${response.name}` } } }
+            },
+            default: {
+              description: 'CICS condition or abend.',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/CicsError' } } }
+            }
+          }
+        }
+      }
+    },
+    components: {
+      schemas: {
+        [request.name]: request.schema,
+        [response.name]: response.schema,
+        CicsError: ERROR_SCHEMA
+      }
+    }
+  };
+};
+
+interface ModelEmitter {
+  // Spelling of a scalar schema in the target language.
+  scalar: (schema: SchemaObject) => string;
+  list: (element: string) => string;
+  declare: (name: string, fields: { name: string; type: string; schema: SchemaObject }[], nested: string[]) => string;
+}
+
+const toSnake = (camel: string) => camel.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+
+const EMITTERS: Record<TargetLanguage, ModelEmitter> = {
+  python: {
+    scalar: s => s.type === 'integer' ? 'int' : s.type === 'number' ? 'float' : s.format === 'decimal' ? 'Decimal' : 'str',
+    list: element => `List[${element}]`,
+    declare: (name, fields, nested) => [
+      ...nested,
+      `class ${name}(_Model):`,
+      ...(fields.length ? fields.map(f => {
+        const limit = f.schema.maxLength ? `Field(None, max_length=${f.schema.maxLength})` : 'None';
+        return `    ${toSnake(f.name)}: Optional[${f.type}] = ${limit}`;
+      }) : ['    pass']),
+      '',
+      ''
+    ].join('\n')
+  },
+  java: {
+    scalar: s => s.type === 'integer' ? (s.format === 'int64' ? 'Long' : 'Integer') : s.type === 'number' ? 'Double' : s.format === 'decimal' ? 'BigDecimal' : 'String',
+    list: element => `List<${element}>`,
+    declare: (name, fields, nested) => [
+      `    public record ${name}(`,
+      fields.map(f => `        ${f.type} ${f.name}`).join(',\n'),
+      '    ) {}',
+      ...nested.map(n => `\n${n}`)
+    ].join('\n')
+  },
+  typescript: {
+    // Decimals stay strings on the wire; parse them with decimal.js where arithmetic happens.
+    scalar: s => s.type === 'integer' || s.type === 'number' ? 'number' : 'string',
+    list: element => `${element}[]`,
+    declare: (name, fields, nested) => [
+      ...nested,
+      `export interface ${name} {`,
+      ...fields.map(f => `  ${f.name}?: ${f.type};`),
+      '}',
+      ''
+    ].join('\n')
+  }
+};
+
+const emitModel = (emitter: ModelEmitter, name: string, schema: SchemaObject): string => {
+  const nested: string[] = [];
+  const typeOf = (propertyName: string, property: SchemaObject): string => {
+    if (property.type === 'array') return emitter.list(typeOf(propertyName, property.items!));
+    if (property.type === 'object') {
+      const nestedName = `${name}${propertyName[0].toUpperCase()}${propertyName.slice(1)}`;
+      nested.push(emitModel(emitter, nestedName, property));
+      return nestedName;
+    }
+    return emitter.scalar(property);
+  };
+  const fields = Object.entries(schema.properties || {}).map(([fieldName, property]) => ({
+    name: fieldName,
+    type: typeOf(fieldName, property),
+    schema: property.type === 'array' ? property.items! : property
+  }));
+  return emitter.declare(name, fields, nested);
+};
+
+// Request and response models in the chunk's target language, spelled from the OpenAPI schemas
+// so the code and the contract cannot drift apart.
+export const buildContractModule = (chunk: CodeChunk, language: TargetLanguage, javaPackage = '') => {
+  const models = contractModels(chunk);
+  if (!models) return undefined;
+  const { program, request, response } = models;
+  const emitter = EMITTERS[language];
+  const bodies = [emitModel(emitter, request.name, request.schema), emitModel(emitter, response.name, response.schema)];
+  switch (language) {
+    case 'java':
+      return [
+        ...(javaPackage ? [`package ${javaPackage};`, ''] : []),
+        'import java.math.BigDecimal;',
+        'import java.util.List;',
+        '',
+        `/** Request and response bodies of ${program}, recovered from its COMMAREA. */`,
+        `public final class ${contractClassName(chunk)} {`,
+        '',
+        bodies.join('\n\n'),
+        '',
+        `    private ${contractClassName(chunk)}() {}`,
+        '}',
+        ''
+      ].join('\n');
+    case 'typescript':
+      return [`/** Request and response bodies of ${program}, recovered from its COMMAREA. */`, '', ...bodies].join('\n');
+    default:
+      return [
+        `"""Request and response bodies of ${program}, recovered from its COMMAREA."""`,
+        '',
+        'from __future__ import annotations',
+        '',
+        'from decimal import Decimal',
+        'from typing import List, Optional',
+        '',
+        'from pydantic import BaseModel, ConfigDict, Field',
+        'from pydantic.alias_generators import to_camel',
+        '',
+        '',
+        'class _Model(BaseModel):',
+        '    model_config = ConfigDict(alias_generator=to_camel, populate_by_name=True)',
+        '',
+        '',
+        ...bodies,
+        `__all__ = [${JSON.stringify(request.name)}, ${JSON.stringify(response.name)}]`,
+        ''
+      ].join('\n');
+  }
+};
@@ -0,0 +1,466 @@
+
+import { CodeChunk, JclJob, TargetLanguage } from "../types";
+import { ArchiveEntry } from "./zipArchive";
+import { buildMarkdownReport, reportFileName } from "./reports";
+import { buildAirflowDag, buildCloudWorkflow, workflowFileName } from "./jclWorkflow";
+import { buildContractModule, buildOpenApiSpec, contractClassName, openApiFileName } from "./openApiContract";
+import { SQLALCHEMY_FILE, SQL_DIALECTS, SqlDialect, buildSqlAlchemyModels, buildSqlDdl, projectSqlTables } from "./sqlSchema";
+import { TARGETS, chunkLanguage, javaClassName, pythonModuleName, typescriptModuleName } from "./targets";
+
+export { pythonModuleName };
+
+export interface ManifestFile {
+  path: string;
+  kind: 'module' | 'test' | 'models' | 'report' | 'workflow' | 'contract' | 'schema';
+  chunkId?: string;
+  chunkName?: string;
+  sourceFile?: string;
+  sourceRange?: { startLine: number; endLine: number };
+}
+
+export interface PackageManifest {
+  format: 'logic-lift-package';
+  version: 1;
+  generatedAt: string;
+  project: string;
+  language: TargetLanguage;
+  packageName: string;
+  files: ManifestFile[];
+  skipped: { chunkId: string; chunkName: string; status: string; reason?: string }[];
+}
+
+export interface TargetPackage {
+  packageName: string;
+  files: ArchiveEntry[];
+  manifest: PackageManifest;
+}
+
+const STDLIB = new Set([
+  '__future__', 'abc', 'argparse', 'array', 'ast', 'asyncio', 'base64', 'binascii', 'bisect', 'calendar', 'codecs',
+  'collections', 'contextlib', 'copy', 'csv', 'dataclasses', 'datetime', 'decimal', 'enum', 'functools', 'glob',
+  'hashlib', 'heapq', 'io', 'itertools', 'json', 'logging', 'math', 'operator', 'os', 'pathlib', 'pickle', 'random',
+  're', 'shutil', 'socket', 'sqlite3', 'statistics', 'string', 'struct', 'subprocess', 'sys', 'tempfile', 'textwrap',
+  'threading', 'time', 'typing', 'unittest', 'uuid', 'warnings', 'zlib'
+]);
+
+// Import names that differ from the distribution name on PyPI.
+const DISTRIBUTIONS: Record<string, string> = {
+  yaml: 'PyYAML',
+  dateutil: 'python-dateutil',
+  google: 'google-cloud-core',
+  sqlalchemy: 'SQLAlchemy',
+  pydantic: 'pydantic'
+};
+
+const importedModules = (source: string) => {
+  const names = new Set<string>();
+  for (const match of source.matchAll(/^\s*(?:from\s+([A-Za-z_][\w.]*)\s+import|import\s+([A-Za-z_][\w.]*(?:\s*,\s*[A-Za-z_][\w.]*)*))/gm)) {
+    (match[1] ? [match[1]] : match[2].split(',')).forEach(n => names.add(n.trim().split('.')[0]));
+  }
+  return names;
+};
+
+const PYTHON_TYPES: [RegExp, string][] = [
+  [/decimal|money|currency|packed|comp-3/i, 'Decimal'],
+  [/\bint|integer|comp\b|binary/i, 'int'],
+  [/float|double|comp-[12]/i, 'float'],
+  [/bool/i, 'bool'],
+  [/datetime|timestamp/i, 'datetime.datetime'],
+  [/\bdate\b/i, 'datetime.date'],
+  [/bytes/i, 'bytes']
+];
+
+const toPythonType = (dataType: string) => PYTHON_TYPES.find(([pattern]) => pattern.test(dataType))?.[1] || 'str';
+
+// Java and TypeScript spellings of the Python model types above.
+const MODEL_TYPES: Record<string, { java: string; typescript: string }> = {
+  'Decimal': { java: 'BigDecimal', typescript: 'Decimal' },
+  'int': { java: 'Long', typescript: 'number' },
+  'float': { java: 'Double', typescript: 'number' },
+  'bool': { java: 'Boolean', typescript: 'boolean' },
+  'datetime.datetime': { java: 'LocalDateTime', typescript: 'Date' },
+  'datetime.date': { java: 'LocalDate', typescript: 'string' },
+  'bytes': { java: 'byte[]', typescript: 'Uint8Array' },
+  'str': { java: 'String', typescript: 'string' }
+};
+
+const toIdentifier = (name: string) => {
+  const id = name.split('.').pop()!.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '').toLowerCase();
+  return !id ? 'field' : /^\d/.test(id) ? `f_${id}` : id;
+};
+
+// Keeps a mapping that is already camelCase; otherwise camel-cases the snake identifier.
+const toMemberName = (name: string) => {
+  const last = name.split('.').pop()!.trim();
+  if (/^[a-z][A-Za-z0-9]*$/.test(last)) return last;
+  return toIdentifier(name).replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+};
+
+const memberFields = (chunk: CodeChunk) => {
+  const seen = new Set<string>();
+  return (chunk.copybookStructure || []).map(field => {
+    let name = toMemberName(field.targetMapping || field.originalField);
+    while (seen.has(name)) name = `${name}_`;
+    seen.add(name);
+    return { field, name, types: MODEL_TYPES[toPythonType(field.dataType)] };
+  });
+};
+
+const toClassName = (module: string) =>
+  module.split('_').filter(Boolean).map(part => part[0].toUpperCase() + part.slice(1)).join('') + 'Record';
+
+const pyString = (text: string) => JSON.stringify(text);
+
+// One dataclass per chunk, built from the model's copybook mapping so every module
+// shares a single definition of the record shapes.
+const buildModelsModule = (chunks: { chunk: CodeChunk; module: string }[]) => {
+  const lines = [
+    '"""Shared record models recovered from COBOL copybook structures."""',
+    '',
+    'from __future__ import annotations',
+    '',
+    'import datetime',
+    'from dataclasses import dataclass',
+    'from decimal import Decimal',
+    'from typing import Optional',
+    ''
+  ];
+  const exported: string[] = [];
+  chunks.forEach(({ chunk, module }) => {
+    const fields = chunk.copybookStructure || [];
+    if (!fields.length) return;
+    const className = toClassName(module);
+    exported.push(className);
+    lines.push('', '@dataclass', `class ${className}:`, `    """Record layout for ${chunk.name}."""`, '');
+    const seen = new Set<string>();
+    fields.forEach(field => {
+      let name = toIdentifier(field.targetMapping || field.originalField);
+      while (seen.has(name)) name = `${name}_`;
+      seen.add(name);
+      lines.push(`    # ${field.originalField}: ${field.description.replace(/\s+/g, ' ')}`);
+      lines.push(`    ${name}: Optional[${toPythonType(field.dataType)}] = None`);
+    });
+  });
+  lines.push('', `__all__ = [${exported.map(pyString).join(', ')}]`, '');
+  return lines.join('\n');
+};
+
+const buildConftest = (packageName: string) => `import os
+import sys
+
+# Generated suites import modules by their bare name, as they did in the parity runner.
+sys.path.insert(0, os.path.join(os.path.dirname(__file__), "..", "src", ${pyString(packageName)}))
+`;
+
+// Shared bookkeeping for every target: which chunks go in, the manifest and where each file came from.
+const startPackage = (chunks: CodeChunk[], projectName: string, language: TargetLanguage, packageName: string, jobs: JclJob[]) => {
+  const done = chunks.filter(c => c.status === 'DONE' && c.targetSource && chunkLanguage(c) === language);
+  const files: ArchiveEntry[] = [];
+  const manifest: PackageManifest = {
+    format: 'logic-lift-package',
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    project: projectName,
+    language,
+    packageName,
+    files: [],
+    skipped: chunks
+      .filter(c => !done.includes(c))
+      .map(c => ({
+        chunkId: c.id,
+        chunkName: c.name,
+        status: c.status,
+        reason: c.status === 'DONE' && c.targetSource ? `Recovered as ${TARGETS[chunkLanguage(c)].label}` : undefined
+      }))
+  };
+  const add = (path: string, content: string, meta?: Omit<ManifestFile, 'path'>) => {
+    files.push({ path, content });
+    if (meta) manifest.files.push({ path, ...meta });
+  };
+  const origin = (chunk: CodeChunk) => ({
+    chunkId: chunk.id,
+    chunkName: chunk.name,
+    sourceFile: chunk.sourceFile,
+    sourceRange: chunk.sourceRange
+  });
+  // Batch jobs become workflow definitions that call the modules in this package.
+  jobs.forEach(job => {
+    const meta = { kind: 'workflow' as const, sourceFile: job.sourceFile, sourceRange: job.sourceRange };
+    add(`workflows/${workflowFileName(job, 'airflow')}`, buildAirflowDag(job, chunks, projectName), meta);
+    add(`workflows/${workflowFileName(job, 'workflows')}`, buildCloudWorkflow(job, chunks), meta);
+  });
+  // CICS transactions publish their COMMAREA contract next to the code.
+  done.forEach(chunk => {
+    const spec = buildOpenApiSpec(chunk);
+    if (spec) add(`api/${openApiFileName(chunk)}`, JSON.stringify(spec, null, 2), { kind: 'contract', ...origin(chunk) });
+  });
+  // Embedded SQL describes the database every program shares, recovered or not.
+  const tables = projectSqlTables(chunks);
+  if (tables.length) {
+    (Object.keys(SQL_DIALECTS) as SqlDialect[]).forEach(dialect =>
+      add(`db/${SQL_DIALECTS[dialect].fileName}`, buildSqlDdl(tables, dialect, projectName), { kind: 'schema' }));
+  }
+  // Two chunks can normalise to the same name; the later one gets an id suffix.
+  const unique = (used: Set<string>, name: (chunk: CodeChunk) => string, join: string) => done.map(chunk => {
+    let module = name(chunk);
+    while (used.has(module)) module = `${module}${join}${chunk.id.replace(/\W/g, '').slice(-4)}`;
+    used.add(module);
+    return { chunk, module };
+  });
+  return { done, files, manifest, add, origin, unique, tables };
+};
+
+const sourceComment = (chunk: CodeChunk, prefix: string) =>
+  `${prefix} MODULE: ${chunk.name}\n${prefix} SOURCE: ${chunk.sourceFile || chunk.name}${chunk.sourceRange ? ` L${chunk.sourceRange.startLine}-${chunk.sourceRange.endLine}` : ''}\n${prefix} GENERATED BY LOGIC LIFT AI\n\n`;
+
+export const buildPythonPackage = (chunks: CodeChunk[], projectName: string, jobs: JclJob[] = []): TargetPackage => {
+  const packageName = pythonModuleName(projectName || 'logic_lift_export');
+  const distribution = packageName.replace(/_/g, '-');
+  const { done, files, manifest, add, origin, unique, tables } = startPackage(chunks, projectName, 'python', packageName, jobs);
+  const used = new Set(['__init__', 'models', 'conftest', SQLALCHEMY_FILE.replace(/\.py$/, '')]);
+  const modules = unique(used, chunk => pythonModuleName(chunk.name), '_');
+
+  const pkgDir = `src/${packageName}`;
+  add(`${pkgDir}/__init__.py`, `"""${projectName} — recovered from COBOL by Logic Lift."""\n`);
+  add(`${pkgDir}/models.py`, buildModelsModule(modules), { kind: 'models' });
+  add('tests/conftest.py', buildConftest(packageName));
+
+  const imports = new Set<string>();
+  if (tables.length) {
+    add(`${pkgDir}/${SQLALCHEMY_FILE}`, buildSqlAlchemyModels(tables, projectName), { kind: 'schema' });
+    imports.add('sqlalchemy');
+  }
+  modules.forEach(({ chunk, module }) => {
+    add(`${pkgDir}/${module}.py`, sourceComment(chunk, '#') + chunk.targetSource, { kind: 'module', ...origin(chunk) });
+    importedModules(chunk.targetSource!).forEach(n => imports.add(n));
+    const contract = buildContractModule(chunk, 'python');
+    if (contract) {
+      if (!files.some(f => f.path === `${pkgDir}/api/__init__.py`)) add(`${pkgDir}/api/__init__.py`, '"""Request and response models for CICS transactions."""\n');
+      add(`${pkgDir}/api/${module}.py`, contract, { kind: 'contract', ...origin(chunk) });
+      imports.add('pydantic');
+    }
+    if (chunk.unitTest?.trim()) {
+      add(`tests/test_${module}.py`, chunk.unitTest, { kind: 'test', ...origin(chunk) });
+      importedModules(chunk.unitTest).forEach(n => imports.add(n));
+    }
+    add(`docs/${reportFileName(chunk)}`, buildMarkdownReport(chunk), { kind: 'report', ...origin(chunk) });
+  });
+
+  const requirements = [...imports]
+    .filter(n => !STDLIB.has(n) && !used.has(n) && n !== packageName && n !== 'pytest')
+    .map(n => DISTRIBUTIONS[n] || n.replace(/_/g, '-'))
+    .sort();
+  add('requirements.txt', [...requirements, 'pytest>=8'].join('\n') + '\n');
+  add('pyproject.toml', [
+    '[build-system]',
+    'requires = ["setuptools>=68"]',
+    'build-backend = "setuptools.build_meta"',
+    '',
+    '[project]',
+    `name = ${pyString(distribution)}`,
+    'version = "0.1.0"',
+    `description = ${pyString(`Python modules recovered from ${projectName}`)}`,
+    'requires-python = ">=3.10"',
+    `dependencies = [${requirements.map(pyString).join(', ')}]`,
+    '',
+    '[project.optional-dependencies]',
+    'test = ["pytest>=8"]',
+    '',
+    '[tool.setuptools.packages.find]',
+    'where = ["src"]',
+    '',
+    '[tool.pytest.ini_options]',
+    'testpaths = ["tests"]',
+    ''
+  ].join('\n'));
+  add('manifest.json', JSON.stringify(manifest, null, 2));
+  add('README.md', `# ${projectName}\n\nRecovered by Logic Lift AI from ${done.length} COBOL module(s).\n\n` +
+    '```sh\npip install -e ".[test]"\npytest\n```\n\n' +
+    'See `manifest.json` for the COBOL source behind every file and `docs/` for the archaeology reports.\n');
+
+  return { packageName, files: files.map(f => ({ ...f, path: `${distribution}/${f.path}` })), manifest };
+};
+
+// The generated code is asked not to declare a package; any declaration it still has is replaced.
+const inJavaPackage = (source: string, javaPackage: string) =>
+  `package ${javaPackage};\n\n${source.replace(/^\s*package\s+[\w.]+\s*;[^\S\n]*\n?/m, '').replace(/^\s+/, '')}`;
+
+const declaredJavaClass = (source: string) =>
+  source.match(/^\s*public\s+(?:(?:final|abstract)\s+)*(?:class|interface|enum|record)\s+(\w+)/m)?.[1];
+
+const buildJavaRecord = (chunk: CodeChunk, javaPackage: string, className: string) => {
+  const fields = memberFields(chunk);
+  return [
+    `package ${javaPackage};`,
+    '',
+    'import java.math.BigDecimal;',
+    'import java.time.LocalDate;',
+    'import java.time.LocalDateTime;',
+    '',
+    `/** Record layout for ${chunk.name}, recovered from its COBOL copybook structure. */`,
+    `public record ${className}(`,
+    fields.map(({ field, name, types }) =>
+      `    // ${field.originalField}: ${field.description.replace(/\s+/g, ' ')}\n    ${types.java} ${name}`
+    ).join(',\n'),
+    ') {}',
+    ''
+  ].join('\n');
+};
+
+export const buildJavaProject = (chunks: CodeChunk[], projectName: string, jobs: JclJob[] = []): TargetPackage => {
+  const packageName = pythonModuleName(projectName || 'logic_lift_export');
+  const artifact = packageName.replace(/_/g, '-');
+  const javaPackage = `com.logiclift.${packageName}`;
+  const javaDir = javaPackage.replace(/\./g, '/');
+  const { done, files, manifest, add, origin, unique } = startPackage(chunks, projectName, 'java', javaPackage, jobs);
+  const classes = unique(new Set(), chunk => declaredJavaClass(chunk.targetSource!) || javaClassName(chunk.name), '');
+
+  classes.forEach(({ chunk, module }) => {
+    add(`src/main/java/${javaDir}/${module}.java`, sourceComment(chunk, '//') + inJavaPackage(chunk.targetSource!, javaPackage), { kind: 'module', ...origin(chunk) });
+    if (chunk.unitTest?.trim()) {
+      const testClass = chunk.unitTest.match(/^\s*(?:public\s+)?(?:final\s+)?class\s+(\w+)/m)?.[1] || `${module}Test`;
+      add(`src/test/java/${javaDir}/${testClass}.java`, inJavaPackage(chunk.unitTest, javaPackage), { kind: 'test', ...origin(chunk) });
+    }
+    const contract = buildContractModule(chunk, 'java', `${javaPackage}.api`);
+    if (contract) add(`src/main/java/${javaDir}/api/${contractClassName(chunk)}.java`, contract, { kind: 'contract', ...origin(chunk) });
+    if (chunk.copybookStructure?.length) {
+      const record = toClassName(pythonModuleName(chunk.name));
+      add(`src/main/java/${javaDir}/model/${record}.java`, buildJavaRecord(chunk, `${javaPackage}.model`, record), { kind: 'models', ...origin(chunk) });
+    }
+    add(`docs/${reportFileName(chunk)}`, buildMarkdownReport(chunk), { kind: 'report', ...origin(chunk) });
+  });
+
+  add('pom.xml', [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<project xmlns="http://maven.apache.org/POM/4.0.0" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '         xsi:schemaLocation="http://maven.apache.org/POM/4.0.0 https://maven.apache.org/xsd/maven-4.0.0.xsd">',
+    '  <modelVersion>4.0.0</modelVersion>',
+    '  <parent>',
+    '    <groupId>org.springframework.boot</groupId>',
+    '    <artifactId>spring-boot-starter-parent</artifactId>',
+    '    <version>3.3.4</version>',
+    '    <relativePath/>',
+    '  </parent>',
+    '  <groupId>com.logiclift</groupId>',
+    `  <artifactId>${artifact}</artifactId>`,
+    '  <version>0.1.0</version>',
+    `  <description>Java modules recovered from ${projectName.replace(/[<&]/g, c => c === '<' ? '&lt;' : '&amp;')}</description>`,
+    '  <properties>',
+    '    <java.version>17</java.version>',
+    '  </properties>',
+    '  <dependencies>',
+    '    <dependency>',
+    '      <groupId>org.springframework.boot</groupId>',
+    '      <artifactId>spring-boot-starter</artifactId>',
+    '    </dependency>',
+    '    <!-- JUnit 5, Mockito and AssertJ -->',
+    '    <dependency>',
+    '      <groupId>org.springframework.boot</groupId>',
+    '      <artifactId>spring-boot-starter-test</artifactId>',
+    '      <scope>test</scope>',
+    '    </dependency>',
+    '  </dependencies>',
+    '</project>',
+    ''
+  ].join('\n'));
+  add('manifest.json', JSON.stringify(manifest, null, 2));
+  add('README.md', `# ${projectName}\n\nRecovered by Logic Lift AI from ${done.length} COBOL module(s) as a Spring Boot 3 project (Java 17).\n\n` +
+    '```sh\nmvn test\n```\n\n' +
+    'See `manifest.json` for the COBOL source behind every file and `docs/` for the archaeology reports.\n');
+
+  return { packageName: artifact, files: files.map(f => ({ ...f, path: `${artifact}/${f.path}` })), manifest };
+};
+
+const buildTypeScriptModels = (modules: { chunk: CodeChunk; module: string }[]) => {
+  const lines = [
+    '// Shared record models recovered from COBOL copybook structures.',
+    '',
+    "import Decimal from 'decimal.js';",
+    ''
+  ];
+  modules.forEach(({ chunk, module }) => {
+    const fields = memberFields(chunk);
+    if (!fields.length) return;
+    lines.push('', `/** Record layout for ${chunk.name}. */`, `export interface ${toClassName(pythonModuleName(module))} {`);
+    fields.forEach(({ field, name, types }) => {
+      lines.push(`  /** ${field.originalField}: ${field.description.replace(/\s+/g, ' ').replace(/\*\//g, '* /')} */`);
+      lines.push(`  ${name}?: ${types.typescript};`);
+    });
+    lines.push('}');
+  });
+  lines.push('');
+  return lines.join('\n');
+};
+
+const NODE_BUILTINS = new Set(['assert', 'buffer', 'crypto', 'events', 'fs', 'os', 'path', 'stream', 'url', 'util', 'zlib']);
+
+const importedPackages = (source: string) => {
+  const names = new Set<string>();
+  for (const match of source.matchAll(/(?:\bfrom\s+|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"]([^'"./][^'"]*)['"]/g)) {
+    const parts = match[1].split('/');
+    names.add(match[1].startsWith('@') ? parts.slice(0, 2).join('/') : parts[0]);
+  }
+  return names;
+};
+
+export const buildTypeScriptPackage = (chunks: CodeChunk[], projectName: string, jobs: JclJob[] = []): TargetPackage => {
+  const packageName = typescriptModuleName(projectName || 'logic-lift-export');
+  const { done, files, manifest, add, origin, unique } = startPackage(chunks, projectName, 'typescript', packageName, jobs);
+  const modules = unique(new Set(['models']), chunk => typescriptModuleName(chunk.name), '-');
+
+  add('src/models.ts', buildTypeScriptModels(modules), { kind: 'models' });
+  const imports = new Set<string>();
+  modules.forEach(({ chunk, module }) => {
+    add(`src/${module}.ts`, sourceComment(chunk, '//') + chunk.targetSource, { kind: 'module', ...origin(chunk) });
+    importedPackages(chunk.targetSource!).forEach(n => imports.add(n));
+    const contract = buildContractModule(chunk, 'typescript');
+    if (contract) add(`src/api/${module}.ts`, contract, { kind: 'contract', ...origin(chunk) });
+    if (chunk.unitTest?.trim()) {
+      add(`src/${module}.test.ts`, chunk.unitTest, { kind: 'test', ...origin(chunk) });
+      importedPackages(chunk.unitTest).forEach(n => imports.add(n));
+    }
+    add(`docs/${reportFileName(chunk)}`, buildMarkdownReport(chunk), { kind: 'report', ...origin(chunk) });
+  });
+
+  const dependencies: Record<string, string> = { 'decimal.js': '^10.4.3' };
+  [...imports]
+    .filter(n => !n.startsWith('node:') && !NODE_BUILTINS.has(n) && n !== 'vitest' && !dependencies[n])
+    .sort()
+    .forEach(n => { dependencies[n] = '*'; });
+  add('package.json', JSON.stringify({
+    name: packageName,
+    version: '0.1.0',
+    private: true,
+    description: `TypeScript modules recovered from ${projectName}`,
+    type: 'module',
+    scripts: { test: 'vitest run', typecheck: 'tsc --noEmit' },
+    dependencies,
+    devDependencies: { '@types/node': '^20.0.0', 'typescript': '^5.5.0', 'vitest': '^2.1.0' }
+  }, null, 2) + '\n');
+  add('tsconfig.json', JSON.stringify({
+    compilerOptions: {
+      target: 'ES2022',
+      module: 'ESNext',
+      moduleResolution: 'Bundler',
+      strict: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+      noEmit: true
+    },
+    include: ['src']
+  }, null, 2) + '\n');
+  add('manifest.json', JSON.stringify(manifest, null, 2));
+  add('README.md', `# ${projectName}\n\nRecovered by Logic Lift AI from ${done.length} COBOL module(s) as TypeScript for Node.js 20.\n\n` +
+    '```sh\nnpm install\nnpm test\n```\n\n' +
+    'See `manifest.json` for the COBOL source behind every file and `docs/` for the archaeology reports.\n');
+
+  return { packageName, files: files.map(f => ({ ...f, path: `${packageName}/${f.path}` })), manifest };
+};
+
+export const buildTargetPackage = (chunks: CodeChunk[], projectName: string, language: TargetLanguage, jobs: JclJob[] = []): TargetPackage => {
+  switch (language) {
+    case 'java': return buildJavaProject(chunks, projectName, jobs);
+    case 'typescript': return buildTypeScriptPackage(chunks, projectName, jobs);
+    default: return buildPythonPackage(chunks, projectName, jobs);
+  }
+};
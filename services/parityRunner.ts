@@ -0,0 +1,93 @@
+
+import { GoldenFile, TestResult } from "../types";
+
+const RUNNER_URL = (process.env.PARITY_RUNNER_URL || 'http://127.0.0.1:8765').replace(/\/+$/, '');
+const TOKEN_KEY = 'logic-lift.runnerToken';
+
+// Pasted by the user and kept for the browser session only; it is never built into the bundle.
+let runnerToken = (typeof sessionStorage !== 'undefined' && sessionStorage.getItem(TOKEN_KEY)) || '';
+
+export const getRunnerToken = () => runnerToken;
+
+export const setRunnerToken = (token: string) => {
+  runnerToken = token.trim();
+  if (typeof sessionStorage !== 'undefined') sessionStorage.setItem(TOKEN_KEY, runnerToken);
+};
+
+const runnerHeaders = (json = false): Record<string, string> => ({
+  'X-Runner-Token': runnerToken,
+  ...(json ? { 'Content-Type': 'application/json' } : {})
+});
+
+export interface RunnerHealth {
+  available: boolean;
+  isolation?: string;
+  reason?: string;
+}
+
+const withTimeout = async (input: string, init: RequestInit, ms: number, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), ms);
+  const cancel = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', cancel);
+  try {
+    signal?.throwIfAborted();
+    return await fetch(input, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+};
+
+// A runner that is up but refuses the token is an error, not a reason to fall back to simulation.
+export const checkParityRunner = async (): Promise<RunnerHealth> => {
+  let response: Response;
+  try {
+    response = await withTimeout(`${RUNNER_URL}/health`, { headers: runnerHeaders() }, 1500);
+  } catch (e) {
+    return { available: false };
+  }
+  if (response.status === 401 || response.status === 403) {
+    throw new Error(`Parity runner at ${RUNNER_URL} refused the request (${response.status}); paste the token it printed at launch into Model Routing.`);
+  }
+  if (!response.ok) return { available: false };
+  const body = await response.json().catch(() => null);
+  // A runner that cannot sandbox reports "unavailable" and refuses to execute anything.
+  return { available: body?.status === 'ok', isolation: body?.isolation, reason: body?.error };
+};
+
+export const runParitySuite = async (moduleName: string, pythonSource: string, testCode: string, timeoutSeconds = 60, signal?: AbortSignal): Promise<TestResult[]> => {
+  const response = await withTimeout(`${RUNNER_URL}/run`, {
+    method: 'POST',
+    headers: runnerHeaders(true),
+    body: JSON.stringify({ moduleName, pythonSource, testCode, timeoutSeconds })
+  }, (timeoutSeconds + 15) * 1000, signal);
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(`Parity runner returned ${response.status}: ${body?.error || 'no details'}`);
+  }
+  return (body?.results || []).map((r: TestResult) => ({ ...r, origin: 'EXECUTED' as const }));
+};
+
+export interface GoldenRun {
+  output?: string;
+  stdout?: string;
+  error?: string;
+}
+
+// Runs the module against captured inputs through the dataset's driver and returns the
+// output file it wrote, base64-encoded. Driver failures come back in `error`.
+export const runGoldenDataset = async (moduleName: string, pythonSource: string, driver: string, inputs: GoldenFile[], timeoutSeconds = 60, signal?: AbortSignal): Promise<GoldenRun> => {
+  const response = await withTimeout(`${RUNNER_URL}/golden`, {
+    method: 'POST',
+    headers: runnerHeaders(true),
+    body: JSON.stringify({ moduleName, pythonSource, driver, inputs: inputs.map(f => ({ name: f.name, content: f.content })), timeoutSeconds })
+  }, (timeoutSeconds + 15) * 1000, signal);
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(`Parity runner returned ${response.status}: ${body?.error || 'no details'}`);
+  }
+  return { output: body?.output, stdout: body?.stdout, error: body?.error };
+};
@@ -0,0 +1,162 @@
+
+import { LogEntry, MigrationProject, MigrationState, MigrationStatus, ProjectBundle, ProviderSettings } from "../types";
+import { extractSourceFiles } from "./cobolSplitter";
+import { hashText } from "./hashing";
+import { DEFAULT_PROVIDER_SETTINGS } from "./providers";
+import { createProjectId, upgradeChunk } from "./projectStore";
+
+export const BUNDLE_FORMAT = 'logic-lift-project';
+export const BUNDLE_VERSION = 5;
+
+type RawBundle = Record<string, any>;
+
+// Each step lifts a bundle from version N to N + 1.
+// v1 was the bare project record as stored in IndexedDB, without a separate source list or checksum.
+const upgradeChunks = (state: RawBundle | undefined) => state && Array.isArray(state.chunks)
+  ? { ...state, chunks: state.chunks.map((c: any) => c && typeof c === 'object' ? upgradeChunk(c) : c) }
+  : state;
+
+const MIGRATIONS: Record<number, (bundle: RawBundle) => RawBundle> = {
+  1: (bundle) => ({
+    format: BUNDLE_FORMAT,
+    version: 2,
+    exportedAt: bundle.updatedAt || new Date().toISOString(),
+    project: {
+      id: bundle.id,
+      name: bundle.name,
+      createdAt: bundle.createdAt,
+      updatedAt: bundle.updatedAt
+    },
+    sources: extractSourceFiles(bundle.inputCode || ''),
+    inputCode: bundle.inputCode || '',
+    migrationState: bundle.migrationState,
+    logs: bundle.logs || [],
+    settings: bundle.settings || DEFAULT_PROVIDER_SETTINGS
+  }),
+  // v3 made the target language a setting and renamed the python* chunk fields to target*.
+  2: (bundle) => ({
+    ...bundle,
+    version: 3,
+    migrationState: upgradeChunks(bundle.migrationState),
+    settings: { targetLanguage: 'python', ...bundle.settings }
+  }),
+  // v4 made the target cloud a setting; cloud mappings name a provider and service instead of gcpService.
+  3: (bundle) => ({
+    ...bundle,
+    version: 4,
+    migrationState: upgradeChunks(bundle.migrationState),
+    settings: { targetCloud: 'gcp', ...bundle.settings }
+  }),
+  // v5 made business rules structured records with IDs instead of one string.
+  4: (bundle) => ({
+    ...bundle,
+    version: 5,
+    migrationState: upgradeChunks(bundle.migrationState)
+  })
+};
+
+const checksumOf = (bundle: Omit<ProjectBundle, 'checksum'>) =>
+  hashText(JSON.stringify({ ...bundle, checksum: undefined }));
+
+export const exportBundle = async (project: MigrationProject): Promise<ProjectBundle> => {
+  const body: Omit<ProjectBundle, 'checksum'> = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { id: project.id, name: project.name, createdAt: project.createdAt, updatedAt: project.updatedAt },
+    sources: extractSourceFiles(project.inputCode),
+    inputCode: project.inputCode,
+    migrationState: project.migrationState,
+    logs: project.logs,
+    settings: { ...project.settings, openAIApiKey: undefined }
+  };
+  return { ...body, checksum: await checksumOf(body) };
+};
+
+const STATUSES = new Set<string>(Object.values(MigrationStatus));
+const CHUNK_STATUSES = new Set(['PENDING', 'DONE', 'ERROR', 'SKIPPED']);
+
+const validate = (bundle: RawBundle): string[] => {
+  const problems: string[] = [];
+  const state = bundle.migrationState as MigrationState | undefined;
+  if (!bundle.project || typeof bundle.project.name !== 'string') problems.push('project metadata is missing');
+  if (typeof bundle.inputCode !== 'string') problems.push('inputCode must be a string');
+  if (!Array.isArray(bundle.sources)) problems.push('sources must be an array');
+  if (!Array.isArray(bundle.logs)) problems.push('logs must be an array');
+  if (!state || typeof state !== 'object') {
+    problems.push('migrationState is missing');
+    return problems;
+  }
+  if (!STATUSES.has(state.status)) problems.push(`unknown migration status "${state.status}"`);
+  if (!Array.isArray(state.chunks)) {
+    problems.push('migrationState.chunks must be an array');
+    return problems;
+  }
+  if (typeof state.currentChunkIndex !== 'number' || state.currentChunkIndex < -1 || state.currentChunkIndex > state.chunks.length) {
+    problems.push('migrationState.currentChunkIndex is out of range');
+  }
+  const ids = new Set<string>();
+  state.chunks.forEach((chunk, i) => {
+    if (!chunk || typeof chunk.id !== 'string' || typeof chunk.name !== 'string' || typeof chunk.cobolSource !== 'string') {
+      problems.push(`chunk ${i} is missing id, name or cobolSource`);
+      return;
+    }
+    if (ids.has(chunk.id)) problems.push(`duplicate chunk id ${chunk.id}`);
+    ids.add(chunk.id);
+    if (!CHUNK_STATUSES.has(chunk.status)) problems.push(`chunk ${chunk.name} has unknown status "${chunk.status}"`);
+  });
+  return problems;
+};
+
+// Parses, migrates and validates a bundle. Nothing is returned unless the whole
+// bundle checks out, so a bad file can never leave the app half-loaded.
+export const importBundle = async (json: string): Promise<MigrationProject> => {
+  let bundle: RawBundle;
+  try {
+    bundle = JSON.parse(json);
+  } catch (e) {
+    throw new Error("Bundle is not valid JSON (the file may be truncated or corrupted).");
+  }
+  if (!bundle || typeof bundle !== 'object') throw new Error("Bundle is empty.");
+
+  let version: number;
+  if (bundle.format === BUNDLE_FORMAT) {
+    version = bundle.version;
+  } else if (bundle.migrationState && typeof bundle.id === 'string') {
+    version = 1;
+  } else {
+    throw new Error("File is not a Logic Lift project bundle.");
+  }
+  if (!Number.isInteger(version) || version < 1) throw new Error(`Bundle has an invalid schema version (${version}).`);
+  if (version > BUNDLE_VERSION) {
+    throw new Error(`Bundle schema version ${version} is newer than this app supports (${BUNDLE_VERSION}). Update Logic Lift and retry.`);
+  }
+
+  // v1 bundles predate the checksum; later ones are verified as exported, before migrating.
+  if (version >= 2) {
+    if (typeof bundle.checksum !== 'string') throw new Error("Bundle checksum is missing.");
+    const { checksum, ...body } = bundle;
+    if (await checksumOf(body as Omit<ProjectBundle, 'checksum'>) !== checksum) {
+      throw new Error("Bundle checksum mismatch: the file was modified or corrupted after export.");
+    }
+  }
+  while (version < BUNDLE_VERSION) {
+    bundle = MIGRATIONS[version](bundle);
+    version = bundle.version;
+  }
+
+  const problems = validate(bundle);
+  if (problems.length) throw new Error(`Bundle failed validation: ${problems.join('; ')}.`);
+
+  const now = new Date().toISOString();
+  return {
+    id: createProjectId(),
+    name: `${bundle.project.name} (imported)`,
+    createdAt: bundle.project.createdAt || now,
+    updatedAt: now,
+    migrationState: bundle.migrationState as MigrationState,
+    inputCode: bundle.inputCode,
+    logs: bundle.logs as LogEntry[],
+    settings: { ...DEFAULT_PROVIDER_SETTINGS, ...(bundle.settings as ProviderSettings), openAIApiKey: undefined }
+  };
+};
@@ -0,0 +1,135 @@
+
+import { AuditEntry, CodeChunk, MigrationProject, ProjectSummary } from "../types";
+import { resolveBusinessRules } from "./businessRules";
+import { chunkLanguage } from "./targets";
+
+const DB_NAME = 'logic-lift';
+const DB_VERSION = 2;
+const STORE = 'projects';
+// Keyed by [projectId, sequence] and only ever written with add(), which refuses to
+// overwrite an existing key.
+const AUDIT_STORE = 'audit';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+          db.createObjectStore(AUDIT_STORE, { keyPath: ['projectId', 'sequence'] });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>, storeName = STORE): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createProjectId = () =>
+  `project-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await run<MigrationProject[]>('readonly', store => store.getAll());
+  return projects
+    .map(p => ({
+      id: p.id,
+      name: p.name,
+      updatedAt: p.updatedAt,
+      status: p.migrationState.status,
+      chunkCount: p.migrationState.chunks.length
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+// Chunks saved before the target language became a setting carry python* fields.
+const upgradeTargetFields = (chunk: Record<string, any>): Record<string, any> => {
+  if (chunk.pythonSource === undefined && !chunk.copybookStructure?.some((f: any) => 'pythonMapping' in f) && !chunk.traceability?.some((l: any) => 'pythonSymbol' in l)) {
+    return chunk;
+  }
+  const { pythonSource, ...rest } = chunk;
+  return {
+    ...rest,
+    targetSource: rest.targetSource ?? pythonSource,
+    targetLanguage: rest.targetLanguage ?? (pythonSource !== undefined ? 'python' : undefined),
+    copybookStructure: rest.copybookStructure?.map(({ pythonMapping, ...field }: any) => ({ targetMapping: pythonMapping ?? '', ...field })),
+    traceability: rest.traceability?.map(({ pythonSymbol, pythonStartLine, pythonEndLine, ...link }: any) => ({
+      targetSymbol: pythonSymbol,
+      targetStartLine: pythonStartLine,
+      targetEndLine: pythonEndLine,
+      ...link
+    }))
+  };
+};
+
+// Cloud mappings were GCP-only and named the service gcpService.
+const upgradeCloudMappings = (chunk: Record<string, any>): Record<string, any> => {
+  if (!chunk.cloudTargetArchitecture?.some((m: any) => 'gcpService' in m)) return chunk;
+  return {
+    ...chunk,
+    cloudTargetArchitecture: chunk.cloudTargetArchitecture.map(({ gcpService, ...m }: any) => ({ provider: 'gcp', service: gcpService ?? '', ...m }))
+  };
+};
+
+// Business rules were one free-text string; they are split into records with IDs.
+const upgradeBusinessRules = (chunk: Record<string, any>): Record<string, any> => {
+  if (typeof chunk.businessRules !== 'string') return chunk;
+  return {
+    ...chunk,
+    businessRules: resolveBusinessRules(chunk.cobolSource || '', chunk.name || '', chunk.targetSource || '', chunk.businessRules, chunkLanguage(chunk as CodeChunk))
+  };
+};
+
+export const upgradeChunk = (chunk: Record<string, any>): CodeChunk =>
+  upgradeBusinessRules(upgradeCloudMappings(upgradeTargetFields(chunk))) as CodeChunk;
+
+export const loadProject = async (id: string): Promise<MigrationProject | undefined> => {
+  const project = await run<MigrationProject | undefined>('readonly', store => store.get(id));
+  if (!project) return project;
+  return { ...project, migrationState: { ...project.migrationState, chunks: project.migrationState.chunks.map(upgradeChunk) } };
+};
+
+export const saveProject = async (project: MigrationProject): Promise<void> => {
+  await run('readwrite', store => store.put({ ...project, updatedAt: new Date().toISOString() }));
+};
+
+// The audit trail outlives its project: deleting a project never removes the record of its model calls.
+export const deleteProject = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+const auditRange = (projectId: string) => IDBKeyRange.bound([projectId, 0], [projectId, Infinity]);
+
+export const appendAuditEntry = async (entry: AuditEntry): Promise<void> => {
+  await run('readwrite', store => store.add(entry), AUDIT_STORE);
+};
+
+export const loadAuditEntries = (projectId: string): Promise<AuditEntry[]> =>
+  run<AuditEntry[]>('readonly', store => store.getAll(auditRange(projectId)), AUDIT_STORE);
+
+export const lastAuditEntry = async (projectId: string): Promise<AuditEntry | undefined> => {
+  const cursor = await run('readonly', store => store.openCursor(auditRange(projectId), 'prev'), AUDIT_STORE);
+  return cursor?.value;
+};
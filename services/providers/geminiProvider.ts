@@ -0,0 +1,42 @@
+
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GroundingSource } from "../../types";
+import { ModelProvider } from "./types";
+
+let client: GoogleGenAI | null = null;
+
+// Created on first use so offline providers work without an API key.
+const getClient = () => {
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+export const geminiProvider: ModelProvider = {
+  id: 'gemini',
+  generate: async (request) => {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: request.model,
+      contents: request.prompt,
+      config: {
+        temperature: request.temperature,
+        thinkingConfig: request.thinkingBudget !== undefined ? { thinkingBudget: request.thinkingBudget } : undefined,
+        responseMimeType: request.responseSchema ? 'application/json' : undefined,
+        responseSchema: request.responseSchema,
+        tools: request.useSearch ? [{ googleSearch: {} }] : undefined,
+        abortSignal: request.signal
+      }
+    });
+
+    const sources: GroundingSource[] = [];
+    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+    if (chunks) {
+      chunks.forEach((chunk: any) => {
+        if (chunk.web) {
+          sources.push({ title: chunk.web.title || "Technical Documentation", uri: chunk.web.uri });
+        }
+      });
+    }
+
+    return { text: response.text || "", sources };
+  }
+};
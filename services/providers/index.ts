@@ -0,0 +1,49 @@
+
+import { PipelineStage, ProviderId, ProviderSettings } from "../../types";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { ModelProvider } from "./types";
+
+export type { ModelProvider, ModelRequest, ModelResponse } from "./types";
+
+export const PIPELINE_STAGES: { id: PipelineStage; label: string }[] = [
+  { id: 'analysis', label: 'System Audit' },
+  { id: 'research', label: 'Modern Research' },
+  { id: 'transform', label: 'Logic Transform' },
+  { id: 'tests', label: 'Test Generation' },
+  { id: 'validation', label: 'Parity Validation' }
+];
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'OpenAI-Compatible (self-hosted)',
+  'mock': 'Offline Mock'
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  stages: {
+    analysis: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+    research: { provider: 'gemini', model: 'gemini-3-flash-preview' },
+    transform: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+    tests: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+    validation: { provider: 'gemini', model: 'gemini-3-flash-preview' }
+  },
+  openAIBaseUrl: 'http://localhost:8000/v1',
+  scheduler: {
+    workers: 3,
+    requestsPerMinute: 30,
+    providerConcurrency: { 'gemini': 3, 'openai-compatible': 2, 'mock': 8 }
+  },
+  excludeDeadCode: false,
+  targetLanguage: 'python',
+  targetCloud: 'gcp'
+};
+
+export const resolveProvider = (id: ProviderId, settings: ProviderSettings): ModelProvider => {
+  switch (id) {
+    case 'openai-compatible': return createOpenAICompatibleProvider(settings.openAIBaseUrl, settings.openAIApiKey);
+    case 'mock': return mockProvider;
+    default: return geminiProvider;
+  }
+};
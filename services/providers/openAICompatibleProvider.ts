@@ -0,0 +1,48 @@
+
+import { Schema } from "@google/genai";
+import { ModelProvider } from "./types";
+
+// Gemini schemas use upper-case type names; JSON Schema expects lower-case ones.
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const json: Record<string, unknown> = {};
+  if (schema.type) json.type = schema.type.toLowerCase();
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toJsonSchema(v)]));
+    json.required = schema.required || [];
+    json.additionalProperties = false;
+  }
+  return json;
+};
+
+export const createOpenAICompatibleProvider = (baseUrl: string, apiKey?: string): ModelProvider => ({
+  id: 'openai-compatible',
+  generate: async (request) => {
+    if (!baseUrl) throw new Error("No endpoint configured for the OpenAI-compatible provider.");
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature,
+        response_format: request.responseSchema
+          ? { type: 'json_schema', json_schema: { name: request.stage, schema: toJsonSchema(request.responseSchema) } }
+          : undefined
+      }),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${detail.substring(0, 300)}`);
+    }
+    const payload = await response.json();
+    return { text: payload?.choices?.[0]?.message?.content || "", sources: [] };
+  }
+});
@@ -0,0 +1,25 @@
+
+import { Schema } from "@google/genai";
+import { GroundingSource, PipelineStage, ProviderId } from "../../types";
+
+export interface ModelRequest {
+  stage: PipelineStage;
+  model: string;
+  prompt: string;
+  subject?: string;
+  temperature?: number;
+  thinkingBudget?: number;
+  responseSchema?: Schema;
+  useSearch?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface ModelResponse {
+  text: string;
+  sources?: GroundingSource[];
+}
+
+export interface ModelProvider {
+  id: ProviderId;
+  generate: (request: ModelRequest) => Promise<ModelResponse>;
+}
@@ -0,0 +1,88 @@
+
+import { ProviderId, SchedulerSettings } from "../types";
+import { DEFAULT_PROVIDER_SETTINGS } from "./providers";
+
+interface Waiter {
+  provider: ProviderId;
+  grant: () => void;
+}
+
+const WINDOW_MS = 60_000;
+
+let limits: SchedulerSettings = DEFAULT_PROVIDER_SETTINGS.scheduler;
+let issued: number[] = [];
+let backoffUntil = 0;
+let timer: ReturnType<typeof setTimeout> | null = null;
+const active = new Map<ProviderId, number>();
+const waiters: Waiter[] = [];
+
+export const configureRateLimits = (settings: SchedulerSettings) => {
+  limits = settings;
+  pump();
+};
+
+// A 429 from any caller pauses every queued request, not just the one that was throttled.
+export const backoffAll = (ms: number) => {
+  backoffUntil = Math.max(backoffUntil, Date.now() + ms);
+  pump();
+};
+
+export const getBackoffRemaining = () => Math.max(0, backoffUntil - Date.now());
+
+// Grants waiters in FIFO order, except that a waiter blocked only by its own provider's
+// concurrency cap does not hold up requests bound for other providers.
+function pump() {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  const now = Date.now();
+  issued = issued.filter(t => now - t < WINDOW_MS);
+
+  let wait = Infinity;
+  if (now < backoffUntil) {
+    wait = backoffUntil - now;
+  } else {
+    for (let i = 0; i < waiters.length && issued.length < limits.requestsPerMinute; ) {
+      const waiter = waiters[i];
+      const running = active.get(waiter.provider) || 0;
+      if (running >= Math.max(1, limits.providerConcurrency[waiter.provider] || 1)) {
+        i++;
+        continue;
+      }
+      waiters.splice(i, 1);
+      active.set(waiter.provider, running + 1);
+      issued.push(now);
+      waiter.grant();
+    }
+    if (waiters.length && issued.length >= limits.requestsPerMinute) wait = WINDOW_MS - (now - issued[0]);
+  }
+  if (waiters.length && wait !== Infinity) timer = setTimeout(pump, Math.max(wait, 50));
+}
+
+export const withRateLimit = async <T>(provider: ProviderId, call: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  await new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const cancel = () => {
+      const index = waiters.indexOf(waiter);
+      if (index !== -1) waiters.splice(index, 1);
+      reject(signal!.reason);
+    };
+    const waiter: Waiter = {
+      provider,
+      grant: () => {
+        signal?.removeEventListener('abort', cancel);
+        resolve();
+      }
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+    waiters.push(waiter);
+    pump();
+  });
+  try {
+    return await call();
+  } finally {
+    active.set(provider, (active.get(provider) || 1) - 1);
+    pump();
+  }
+};
@@ -0,0 +1,309 @@
+
+import { CodePage, ParsedDataField, RecordFormat } from "../types";
+
+export const CODE_PAGES: CodePage[] = ['CP037', 'CP1140', 'CP500'];
+
+export interface DecodedColumn {
+  key: string;
+  label: string;
+  field: ParsedDataField;
+  offset: number;
+  // Fields under a REDEFINES are alternate views of the same bytes; a bad value there
+  // is reported but does not fail the record.
+  alternate: boolean;
+  indices: number[];
+  dependsOn: { key?: string; index: number }[];
+}
+
+export interface RecordIssue {
+  column?: string;
+  message: string;
+}
+
+export interface DecodedRecord {
+  index: number;
+  offset: number;
+  length: number;
+  values: Record<string, string>;
+  issues: RecordIssue[];
+  valid: boolean;
+}
+
+export interface DecodeResult {
+  recordLength: number;
+  columns: DecodedColumn[];
+  records: DecodedRecord[];
+  totalRecords: number;
+  warnings: string[];
+}
+
+const NON_PRINTABLE = '·';
+
+// Code points 0x40-0xFF of CP037; everything below 0x40 is a control character.
+const CP037 = [
+  " \u00a0âäàáãåçñ¢.<(+|", // 4_
+  "&éêëèíîïìß!$*);¬", // 5_
+  "-/ÂÄÀÁÃÅÇÑ¦,%_>?", // 6_
+  "øÉÊËÈÍÎÏÌ`:#@'=\"", // 7_
+  "Øabcdefghi«»ðýþ±", // 8_
+  "°jklmnopqrªºæ¸Æ¤", // 9_
+  "µ~stuvwxyz¡¿ÐÝÞ®", // A_
+  "^£¥·©§¶¼½¾[]¯¨´×", // B_
+  "{ABCDEFGHI\u00adôöòóõ", // C_
+  "}JKLMNOPQR¹ûüùúÿ", // D_
+  "\\÷STUVWXYZ²ÔÖÒÓÕ", // E_
+  "0123456789³ÛÜÙÚ" + NON_PRINTABLE // F_
+].join('');
+
+const buildTable = (overrides: Record<number, string> = {}) => {
+  const table = Array.from({ length: 256 }, (_, i) => i < 0x40 ? NON_PRINTABLE : CP037[i - 0x40]);
+  Object.entries(overrides).forEach(([code, ch]) => { table[Number(code)] = ch; });
+  return table;
+};
+
+const TABLES: Record<CodePage, string[]> = {
+  CP037: buildTable(),
+  CP1140: buildTable({ 0x9f: '€' }),
+  CP500: buildTable({ 0x4a: '[', 0x4f: '!', 0x5a: ']', 0x5f: '^', 0xb0: '¢', 0xba: '¬', 0xbb: '|' })
+};
+
+export const decodeText = (bytes: Uint8Array, codePage: CodePage) => {
+  const table = TABLES[codePage];
+  let text = '';
+  for (const b of bytes) text += table[b];
+  return text;
+};
+
+const hex = (bytes: Uint8Array) => `X'${Array.from(bytes, b => b.toString(16).toUpperCase().padStart(2, '0')).join('')}'`;
+
+const POSITIVE_SIGNS = new Set([0xa, 0xc, 0xe, 0xf]);
+const NEGATIVE_SIGNS = new Set([0xb, 0xd]);
+
+interface FieldValue {
+  value: string;
+  error?: string;
+}
+
+const withScale = (digits: string, scale: number, negative: boolean) => {
+  let text = digits.replace(/^0+(?=\d)/, '');
+  if (scale > 0) {
+    text = text.padStart(scale + 1, '0');
+    text = `${text.slice(0, -scale)}.${text.slice(-scale)}`;
+  } else if (scale < 0) {
+    text += '0'.repeat(-scale);
+  }
+  return negative && /[1-9]/.test(text) ? `-${text}` : text;
+};
+
+// Zoned decimal: one digit per byte with an F zone; a signed field carries its sign in
+// the zone of the last byte, or in a separate +/- byte when SIGN SEPARATE is used.
+const decodeZoned = (bytes: Uint8Array, field: ParsedDataField): FieldValue => {
+  const separate = field.signed && field.digits !== undefined && bytes.length === field.digits + 1;
+  let body = bytes;
+  let negative = false;
+  if (separate) {
+    const leading = bytes[0] === 0x4e || bytes[0] === 0x60;
+    const sign = leading ? bytes[0] : bytes[bytes.length - 1];
+    if (sign !== 0x4e && sign !== 0x60) return { value: hex(bytes), error: `Invalid separate sign byte in ${hex(bytes)}` };
+    negative = sign === 0x60;
+    body = leading ? bytes.subarray(1) : bytes.subarray(0, -1);
+  }
+  let digits = '';
+  for (let i = 0; i < body.length; i++) {
+    const zone = body[i] >> 4;
+    const digit = body[i] & 0xf;
+    if (digit > 9) return { value: hex(bytes), error: `Non-numeric byte ${hex(body.subarray(i, i + 1))} at position ${i + 1}` };
+    if (zone !== 0xf) {
+      const signZone = i === body.length - 1 && !separate && (POSITIVE_SIGNS.has(zone) || NEGATIVE_SIGNS.has(zone));
+      if (!signZone) return { value: hex(bytes), error: `Non-numeric byte ${hex(body.subarray(i, i + 1))} at position ${i + 1}` };
+      if (!field.signed) return { value: hex(bytes), error: `Unsigned field carries sign zone ${zone.toString(16).toUpperCase()}` };
+      negative = NEGATIVE_SIGNS.has(zone);
+    }
+    digits += digit;
+  }
+  return { value: withScale(digits, field.scale ?? 0, negative) };
+};
+
+// Packed decimal (COMP-3): two digits per byte, the low nibble of the last byte is the sign.
+const decodePacked = (bytes: Uint8Array, field: ParsedDataField): FieldValue => {
+  let digits = '';
+  for (let i = 0; i < bytes.length; i++) {
+    const high = bytes[i] >> 4;
+    const low = bytes[i] & 0xf;
+    const last = i === bytes.length - 1;
+    if (high > 9 || (!last && low > 9)) return { value: hex(bytes), error: `Invalid packed digit nibble in ${hex(bytes)}` };
+    digits += last ? `${high}` : `${high}${low}`;
+    if (last && !POSITIVE_SIGNS.has(low) && !NEGATIVE_SIGNS.has(low)) {
+      return { value: hex(bytes), error: `Invalid packed sign nibble ${low.toString(16).toUpperCase()} in ${hex(bytes)}` };
+    }
+    if (last && NEGATIVE_SIGNS.has(low) && !field.signed) {
+      return { value: hex(bytes), error: `Unsigned packed field carries a negative sign in ${hex(bytes)}` };
+    }
+  }
+  const negative = NEGATIVE_SIGNS.has(bytes[bytes.length - 1] & 0xf);
+  return { value: withScale(digits, field.scale ?? 0, negative) };
+};
+
+// Big-endian two's complement. COMP and BINARY are truncated to the PIC digits on the
+// mainframe, so a wider value means the layout and the data disagree; COMP-5 is native.
+const decodeBinary = (bytes: Uint8Array, field: ParsedDataField): FieldValue => {
+  if (![2, 4, 8].includes(bytes.length)) return { value: hex(bytes), error: `Unexpected binary length ${bytes.length}` };
+  let value = 0n;
+  bytes.forEach(b => { value = (value << 8n) | BigInt(b); });
+  if (field.signed && bytes[0] & 0x80) value -= 1n << BigInt(bytes.length * 8);
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString();
+  const text = withScale(digits, field.scale ?? 0, negative);
+  if (field.usage !== 'COMP-5' && field.digits !== undefined && digits.replace(/^0+/, '').length > field.digits) {
+    return { value: text, error: `Binary value ${text} exceeds PIC ${field.picture}` };
+  }
+  return { value: text };
+};
+
+// IBM hexadecimal floating point: sign bit, excess-64 base-16 exponent, then the fraction.
+const decodeHexFloat = (bytes: Uint8Array): FieldValue => {
+  const exponent = (bytes[0] & 0x7f) - 64;
+  let fraction = 0;
+  for (let i = 1; i < bytes.length; i++) fraction = fraction * 256 + bytes[i];
+  const value = fraction / 2 ** (8 * (bytes.length - 1)) * 16 ** exponent;
+  return { value: String(bytes[0] & 0x80 ? -value : value) };
+};
+
+const decodeField = (bytes: Uint8Array, field: ParsedDataField, codePage: CodePage): FieldValue => {
+  switch (field.usage) {
+    case 'COMP-3': return decodePacked(bytes, field);
+    case 'COMP':
+    case 'COMP-5':
+    case 'BINARY': return decodeBinary(bytes, field);
+    case 'COMP-1':
+    case 'COMP-2': return decodeHexFloat(bytes);
+    case 'INDEX':
+    case 'POINTER': return { value: hex(bytes) };
+    default:
+      return field.digits !== undefined ? decodeZoned(bytes, field) : { value: decodeText(bytes, codePage).replace(/\s+$/, '') };
+  }
+};
+
+const isElementary = (field: ParsedDataField) =>
+  !!field.picture || ['COMP-1', 'COMP-2', 'INDEX', 'POINTER'].includes(field.usage);
+
+// The 01/77 items of a layout, i.e. the record shapes a dataset can be decoded with.
+export const recordLayouts = (layout: ParsedDataField[]) =>
+  layout.filter(f => (f.level === 1 || f.level === 77) && f.length > 0);
+
+const MAX_COLUMNS = 400;
+
+// One column per elementary item, with OCCURS tables (including nested ones) expanded
+// into one column per occurrence.
+export const buildColumns = (layout: ParsedDataField[], record: ParsedDataField, warnings: string[] = []): DecodedColumn[] => {
+  const start = layout.indexOf(record);
+  const end = layout.findIndex((f, i) => i > start && (f.level === 1 || f.level === 77));
+  const fields = layout.slice(start, end === -1 ? undefined : end).filter(f => f.level !== 88 && f.level !== 66);
+  const byPath = new Map(fields.map(f => [f.path, f]));
+  const columns: DecodedColumn[] = [];
+
+  for (const field of fields.filter(isElementary)) {
+    const parts = field.path.split('.');
+    const chain = parts.map((_, i) => byPath.get(parts.slice(0, i + 1).join('.'))).filter((f): f is ParsedDataField => !!f);
+    const tables = chain.filter(f => f.occurs);
+    const alternate = chain.some(f => f.redefines);
+    let combos: number[][] = [[]];
+    tables.forEach(t => { combos = combos.flatMap(c => Array.from({ length: t.occurs!.max }, (_, i) => [...c, i])); });
+
+    for (const indices of combos) {
+      if (columns.length >= MAX_COLUMNS) {
+        warnings.push(`Only the first ${MAX_COLUMNS} columns are decoded; the layout expands to more.`);
+        return columns;
+      }
+      const suffix = indices.length ? `(${indices.map(i => i + 1).join(',')})` : '';
+      columns.push({
+        key: `${field.path}${suffix}`,
+        label: `${field.name}${suffix}`,
+        field,
+        offset: field.offset + tables.reduce((sum, t, i) => sum + indices[i] * t.length, 0),
+        alternate,
+        indices,
+        dependsOn: tables.map((t, i) => ({ key: t.occurs!.dependingOn, index: indices[i] }))
+      });
+    }
+  }
+
+  if (fields.some(f => f.occurs?.dependingOn)) {
+    warnings.push('OCCURS DEPENDING ON tables are laid out at their maximum size; occurrences beyond the current count are left blank.');
+  }
+  return columns;
+};
+
+const splitRecords = (data: Uint8Array, format: RecordFormat, recordLength: number) => {
+  const slices: { offset: number; bytes: Uint8Array; issues: RecordIssue[] }[] = [];
+  let offset = 0;
+  while (offset < data.length) {
+    if (format === 'FIXED') {
+      const bytes = data.subarray(offset, offset + recordLength);
+      slices.push({ offset, bytes, issues: [] });
+      offset += recordLength;
+      continue;
+    }
+    // Variable-length records start with a 4-byte RDW whose first halfword is the
+    // length including the RDW itself.
+    const length = offset + 4 <= data.length ? (data[offset] << 8) | data[offset + 1] : 0;
+    if (length < 4 || offset + length > data.length) {
+      slices.push({ offset, bytes: data.subarray(offset + 4), issues: [{ message: `Invalid record descriptor word at byte ${offset}; the rest of the file was not split.` }] });
+      break;
+    }
+    slices.push({ offset, bytes: data.subarray(offset + 4, offset + length), issues: [] });
+    offset += length;
+  }
+  return slices;
+};
+
+export interface DecodeOptions {
+  codePage: CodePage;
+  format: RecordFormat;
+  limit?: number;
+}
+
+export const decodeDataset = (data: Uint8Array, layout: ParsedDataField[], record: ParsedDataField, options: DecodeOptions): DecodeResult => {
+  const warnings: string[] = [];
+  const columns = buildColumns(layout, record, warnings);
+  const recordLength = record.length;
+  const variableLength = columns.some(c => c.dependsOn.some(d => d.key));
+  const slices = splitRecords(data, options.format, recordLength);
+  const limit = options.limit ?? 1000;
+  if (slices.length > limit) warnings.push(`Showing the first ${limit} of ${slices.length} records.`);
+  const byName = new Map(columns.filter(c => !c.indices.length).map(c => [c.field.name, c.key]));
+
+  const records = slices.slice(0, limit).map(({ offset, bytes, issues }, index): DecodedRecord => {
+    const values: Record<string, string> = {};
+    const lengthOk = bytes.length === recordLength || (variableLength && options.format === 'VARIABLE' && bytes.length < recordLength);
+    if (!lengthOk) issues.push({ message: `Record is ${bytes.length} bytes; the layout expects ${recordLength}.` });
+    let failed = issues.length > 0;
+
+    for (const column of columns) {
+      const outOfRange = column.dependsOn.some(({ key, index: i }) => {
+        if (!key || !byName.has(key)) return false;
+        const count = Number(values[byName.get(key)!]);
+        return Number.isFinite(count) && i >= count;
+      });
+      if (outOfRange) {
+        values[column.key] = '';
+        continue;
+      }
+      const end = column.offset + column.field.length;
+      // Short records are already flagged above; only the bytes that are present get decoded.
+      if (end > bytes.length) {
+        values[column.key] = '';
+        continue;
+      }
+      const result = decodeField(bytes.subarray(column.offset, end), column.field, options.codePage);
+      values[column.key] = result.value;
+      if (result.error) {
+        issues.push({ column: column.key, message: `${column.label}: ${result.error}` });
+        if (!column.alternate) failed = true;
+      }
+    }
+    return { index, offset, length: bytes.length, values, issues, valid: !failed };
+  });
+
+  return { recordLength, columns, records, totalRecords: slices.length, warnings };
+};
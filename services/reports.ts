@@ -0,0 +1,101 @@
+
+import { CodeChunk } from "../types";
+import { compareLayout } from "./copybookParser";
+import { TARGETS, chunkLanguage, targetType } from "./targets";
+import { CLOUD_PROVIDERS } from "./cloudCatalog";
+import { sqlCodeHandled } from "./sqlInventory";
+import { ruleCoverage } from "./businessRules";
+
+export const reportFileName = (chunk: CodeChunk) => `${chunk.name.replace(/\.[^/.]+$/, "")}_report.md`;
+
+export const buildMarkdownReport = (chunk: CodeChunk) => {
+  const language = chunkLanguage(chunk);
+  const { label, fence } = TARGETS[language];
+  let md = `# Archaeology Report: ${chunk.name}\n\n`;
+  md += `## Business Rules\n| ID | Category | Rule | COBOL | Symbol | Tests |\n|---|---|---|---|---|---|\n`;
+  const lineOffset = (chunk.sourceRange?.startLine ?? 1) - 1;
+  ruleCoverage(chunk).forEach(({ rule, tests }) => {
+    const cobol = [rule.cobolParagraph, rule.cobolStartLine !== undefined ? `L${rule.cobolStartLine + lineOffset}-${rule.cobolEndLine! + lineOffset}` : ''].filter(Boolean).join(' ');
+    md += `| ${rule.id} | ${rule.category} | ${rule.description} | ${cobol} | ${rule.targetSymbol || ''} | ${tests.map(t => t.name).join(', ') || 'untested'} |\n`;
+  });
+  md += `\n`;
+  md += `## Data Mapping\n| Legacy Field | Offset | Bytes | Modern Type | Integrity Rule |\n|---|---|---|---|---|\n`;
+  if (chunk.dataLayout?.length) {
+    compareLayout(chunk.dataLayout, chunk.copybookStructure).forEach(({ parsed, model, differences }) => {
+      const note = [model?.description, ...differences].filter(Boolean).join('; ');
+      md += `| ${parsed?.path || model?.originalField} | ${parsed?.offset ?? ''} | ${parsed?.length ?? ''} | ${parsed ? targetType(parsed, language) : model?.dataType} | ${note} |\n`;
+    });
+  } else {
+    chunk.copybookStructure?.forEach(f => {
+      md += `| ${f.originalField} | | | ${f.dataType} | ${f.description} |\n`;
+    });
+  }
+  if (chunk.cicsInventory?.commands.length) {
+    const { commands, transactionIds, contract } = chunk.cicsInventory;
+    md += `\n## CICS Inventory\n`;
+    if (transactionIds.length) md += `Transactions: ${transactionIds.join(', ')}\n\n`;
+    if (contract) md += `COMMAREA contract: request \`${contract.request}\`, response \`${contract.response}\`\n\n`;
+    md += `| Line | Command | Target | Options |\n|---|---|---|---|\n`;
+    const lineOffset = (chunk.sourceRange?.startLine ?? 1) - 1;
+    commands.forEach(c => {
+      md += `| ${c.line + lineOffset} | ${c.command} | ${c.target ? `${c.target}${c.dynamicTarget ? ' (data item)' : ''}` : ''} | ${Object.entries(c.options).map(([k, v]) => v ? `${k}(${v})` : k).join(' ')} |\n`;
+    });
+  }
+  if (chunk.sqlInventory) {
+    const { statements, tables, sqlCodeChecks } = chunk.sqlInventory;
+    const lineOffset = (chunk.sourceRange?.startLine ?? 1) - 1;
+    md += `\n## Embedded SQL\n| Line | Statement | Tables | Host Variables |\n|---|---|---|---|\n`;
+    statements.forEach(s => {
+      md += `| ${s.line + lineOffset} | ${s.kind}${s.cursor ? ` ${s.cursor}` : ''} | ${s.tables.join(', ')} | ${s.hostVariables.map(h => `:${h}`).join(' ')} |\n`;
+    });
+    if (tables.some(t => t.columns.length)) {
+      md += `\n| Column | DB2 Type | Host Variable | Source |\n|---|---|---|---|\n`;
+      tables.forEach(t => t.columns.forEach(c => {
+        md += `| ${t.name}.${c.name}${t.keyColumns.includes(c.name) ? ' (key)' : ''} | ${c.sqlType}${c.nullable ? ' NULL' : ''} | ${c.hostVariable ? `:${c.hostVariable}` : ''}${c.picture ? ` PIC ${c.picture}` : ''} | ${c.source === 'DCLGEN' ? 'DCLGEN' : 'host PIC'} |\n`;
+      }));
+    }
+    if (sqlCodeChecks.length) {
+      md += `\n### SQLCODE Handling\n| Line | Condition | Action | In ${label} |\n|---|---|---|---|\n`;
+      sqlCodeChecks.forEach(c => {
+        const handled = chunk.targetSource ? (sqlCodeHandled(c, chunk.targetSource) ? 'handled' : 'not found') : '';
+        md += `| ${c.line + lineOffset} | ${c.kind === 'WHENEVER' ? `WHENEVER ${c.condition}` : c.condition} | ${c.action || ''} | ${handled} |\n`;
+      });
+    }
+  }
+  if (chunk.cloudTargetArchitecture?.length) {
+    md += `\n## Target Cloud Architecture\n| Legacy Component | Cloud | Service | Source | Rationale |\n|---|---|---|---|---|\n`;
+    chunk.cloudTargetArchitecture.forEach(m => {
+      md += `| ${m.legacyComponent} | ${CLOUD_PROVIDERS[m.provider]?.label || m.provider} | ${m.service} | ${m.workload ? `catalog (${m.workload})` : 'model'} | ${m.rationale} |\n`;
+    });
+  }
+  if (chunk.traceability?.length) {
+    md += `\n## Traceability\n| COBOL Paragraph | Lines | ${label} Symbol | Lines | Note |\n|---|---|---|---|---|\n`;
+    const span = (start?: number, end?: number, offset = 0) => start === undefined ? 'unresolved' : `${start + offset}-${end! + offset}`;
+    const cobolOffset = (chunk.sourceRange?.startLine ?? 1) - 1;
+    chunk.traceability.forEach(link => {
+      md += `| ${link.cobolParagraph} | ${span(link.cobolStartLine, link.cobolEndLine, cobolOffset)} | ${link.targetSymbol} | ${span(link.targetStartLine, link.targetEndLine)} | ${link.note || ''} |\n`;
+    });
+  }
+  md += `\n## Modern Implementation\n\`\`\`${fence}\n${chunk.targetSource}\n\`\`\`\n\n`;
+  md += `## Parity Tests\n\`\`\`${fence}\n${chunk.unitTest}\n\`\`\`\n`;
+  if (chunk.goldenResults?.length) {
+    md += `\n## Golden Dataset Parity\n`;
+    chunk.goldenResults.forEach(report => {
+      md += `\n### ${report.datasetName}\n\n`;
+      md += `Status: **${report.status}** (run ${report.ranAt})\n\n`;
+      if (report.error) {
+        md += `Error: ${report.error}\n`;
+        return;
+      }
+      md += `${report.matchedRecords} of ${report.expectedRecords} mainframe records matched; ${report.actualRecords} records produced; ${report.fieldsCompared} fields compared.\n`;
+      if (!report.mismatches.length) return;
+      md += `\n| Record | Field | Mainframe | Python |\n|---|---|---|---|\n`;
+      report.mismatches.forEach(m => {
+        if (m.kind !== 'FIELD') md += `| ${m.record} | — | ${m.kind === 'MISSING' ? 'present' : 'absent'} | ${m.kind === 'MISSING' ? 'missing' : 'extra'} |\n`;
+        m.fields.forEach(f => { md += `| ${m.record} | ${f.field} | ${f.expected} | ${f.actual} |\n`; });
+      });
+      if (report.truncated) md += `\nOnly the first ${report.mismatches.length} deviating records are listed.\n`;
+    });
+  }
+  return md;
+};
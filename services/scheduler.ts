@@ -0,0 +1,23 @@
+
+import { CodeChunk, DependencyGraph } from "../types";
+
+// Copybooks a chunk COPYs that are still waiting to be recovered (or are mid-flight).
+export const blockingCopybooks = (chunk: CodeChunk, chunks: CodeChunk[], graph: DependencyGraph | undefined, inFlight: Set<string>) => {
+  if (!graph) return [];
+  const byId = new Map(chunks.map(c => [c.id, c]));
+  return graph.edges
+    .filter(e => e.from === chunk.id && e.kind === 'COPY' && e.targetChunkId && e.targetChunkId !== chunk.id)
+    .map(e => byId.get(e.targetChunkId!))
+    .filter((c): c is CodeChunk => !!c && (c.status === 'PENDING' || inFlight.has(c.id)));
+};
+
+// Picks up to `slots` pending chunks in queue order, holding back any module whose
+// copybooks have not been recovered yet. If every candidate is blocked and nothing is
+// running (e.g. a COPY cycle), the first pending chunk is released so the run cannot stall.
+export const pickReadyChunks = (chunks: CodeChunk[], graph: DependencyGraph | undefined, inFlight: Set<string>, slots: number) => {
+  if (slots <= 0) return [];
+  const pending = chunks.filter(c => c.status === 'PENDING' && !inFlight.has(c.id));
+  const ready = pending.filter(c => blockingCopybooks(c, chunks, graph, inFlight).length === 0).slice(0, slots);
+  if (ready.length === 0 && inFlight.size === 0 && pending.length) return [pending[0]];
+  return ready;
+};
@@ -0,0 +1,332 @@
+
+import { ParsedDataField, SqlCodeCheck, SqlColumn, SqlHostVariable, SqlInventory, SqlStatement, SqlStatementKind, SqlTable } from "../types";
+import { findExecBlocks, toCodeLines } from "./cobolSource";
+import { CopyResolver } from "./copybookParser";
+
+const VERBS: SqlStatementKind[] = ['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'OPEN', 'FETCH', 'CLOSE', 'INCLUDE', 'WHENEVER', 'COMMIT', 'ROLLBACK', 'CALL'];
+
+// Members the DB2 precompiler supplies.
+const PRECOMPILER_MEMBERS = new Set(['SQLCA', 'SQLDA']);
+
+const NAME = '[A-Z][A-Z0-9_#@$]*';
+const TABLE = `${NAME}(?:\\.${NAME})?`;
+const HOST = '[A-Z0-9][A-Z0-9-]*(?:\\.[A-Z0-9][A-Z0-9-]*)*';
+const HOST_REF = new RegExp(`(?<![\\w-]):(${HOST})(?:(?::|\\s+INDICATOR\\s+:)(${HOST}))?`, 'g');
+const FROM_END = /\b(?:WHERE|GROUP|ORDER|HAVING|FETCH|FOR|WITH|UNION|EXCEPT|INTERSECT|OPTIMIZE|QUERYNO)\b|\)/;
+const PREDICATE = new RegExp(`(?<![:\\w-])(?:(${NAME})\\.)?(${NAME})\\s*(=|<>|<=|>=|<|>)\\s*:(${HOST})`, 'g');
+
+interface Binding {
+  table?: string;
+  column: string;
+  host: string;
+  indicator?: string;
+}
+
+// Splits on a separator outside parentheses and quotes.
+const splitTopLevel = (text: string, separator = ',') => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    else if (ch === separator && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts.filter(Boolean);
+};
+
+const statementKind = (sql: string): SqlStatementKind => {
+  if (/^DECLARE\s+\S+\s+(?:[A-Z]+\s+)*CURSOR\b/.test(sql)) return 'DECLARE CURSOR';
+  if (/^DECLARE\s+\S+\s+TABLE\b/.test(sql)) return 'DECLARE TABLE';
+  const verb = sql.match(/^[A-Z]+/)?.[0] as SqlStatementKind;
+  return VERBS.includes(verb) ? verb : 'OTHER';
+};
+
+// Tables a statement reads or writes, with the aliases it refers to them by.
+const tableRefs = (sql: string) => {
+  const tables: string[] = [];
+  const aliases = new Map<string, string>();
+  const add = (item: string) => {
+    const m = item.replace(/\bON\b.*$/, '').trim().match(new RegExp(`^(${TABLE})(?:\\s+(?:AS\\s+)?(${NAME}))?$`));
+    if (!m) return;
+    if (!tables.includes(m[1])) tables.push(m[1]);
+    aliases.set(m[1], m[1]);
+    aliases.set(m[1].split('.').pop()!, m[1]);
+    if (m[2]) aliases.set(m[2], m[1]);
+  };
+  for (const m of sql.matchAll(/\bFROM\s+(?!\()/g)) {
+    const rest = sql.slice(m.index! + m[0].length);
+    const end = rest.search(FROM_END);
+    splitTopLevel(end >= 0 ? rest.slice(0, end) : rest)
+      .flatMap(item => item.split(/\b(?:(?:INNER|LEFT|RIGHT|FULL|CROSS)\s+)?(?:OUTER\s+)?JOIN\b/))
+      .forEach(add);
+  }
+  const target = sql.match(new RegExp(`^(?:INSERT\\s+INTO|MERGE\\s+INTO|UPDATE)\\s+(${TABLE}(?:\\s+(?:AS\\s+)?${NAME})?)`));
+  if (target) add(target[1].replace(/\s+(?:SET|USING|VALUES)$/, ''));
+  return { tables, aliases };
+};
+
+// `:HOST`, `:HOST:IND` or `:HOST INDICATOR :IND` items of an INTO or VALUES list.
+const hostItems = (list: string) => splitTopLevel(list).map(item => {
+  const m = item.match(new RegExp(`^:(${HOST})(?:(?::|\\s+INDICATOR\\s+:)(${HOST}))?$`));
+  return m ? { host: m[1], indicator: m[2] } : undefined;
+});
+
+// A plain, optionally qualified, column in a select list; expressions give undefined.
+const columnItem = (item: string) => {
+  const m = item.match(new RegExp(`^(?:(${NAME})\\.)?(${NAME})(?:\\s+(?:AS\\s+)?${NAME})?$`));
+  return m ? { qualifier: m[1], column: m[2] } : undefined;
+};
+
+const findField = (layout: ParsedDataField[], host: string) => {
+  const name = host.toUpperCase();
+  return layout.find(f => f.level !== 88 && (f.path === name || f.path.endsWith(`.${name}`)));
+};
+
+const childrenOf = (layout: ParsedDataField[], group: ParsedDataField) => {
+  const depth = group.path.split('.').length + 1;
+  return layout.filter(f => f.level !== 88 && f.path.startsWith(`${group.path}.`) && f.path.split('.').length === depth);
+};
+
+// DB2 type of a host variable, following the precompiler's rules for PIC and USAGE.
+const hostSqlType = (layout: ParsedDataField[], field: ParsedDataField): string | undefined => {
+  const children = childrenOf(layout, field);
+  if (!field.picture && children.length === 2 && children.every(c => c.level === 49)) return `VARCHAR(${children[1].length})`;
+  if (field.usage === 'COMP-1') return 'REAL';
+  if (field.usage === 'COMP-2') return 'DOUBLE';
+  if (!field.picture) return undefined;
+  if (field.digits !== undefined) {
+    const scale = Math.max(field.scale || 0, 0);
+    if (['COMP', 'BINARY', 'COMP-5'].includes(field.usage) && !scale) return field.digits <= 4 ? 'SMALLINT' : field.digits <= 9 ? 'INTEGER' : 'BIGINT';
+    return `DECIMAL(${field.digits},${scale})`;
+  }
+  return field.length > 254 ? `VARCHAR(${field.length})` : `CHAR(${field.length})`;
+};
+
+// A host structure stands for its elementary items, in order; a VARCHAR group is one item.
+const expandHost = (layout: ParsedDataField[], field: ParsedDataField): ParsedDataField[] =>
+  hostSqlType(layout, field) ? [field] : childrenOf(layout, field).flatMap(c => expandHost(layout, c));
+
+// DCLGEN names host items after their columns with hyphens for underscores.
+const columnFromHost = (field: ParsedDataField) => field.name.replace(/-/g, '_');
+
+const parseDeclareTable = (sql: string): SqlTable | undefined => {
+  const m = sql.match(new RegExp(`^DECLARE\\s+(${TABLE})\\s+TABLE\\s*\\((.*)\\)$`));
+  if (!m) return undefined;
+  const columns = splitTopLevel(m[2]).flatMap((definition): SqlColumn[] => {
+    const col = definition.match(new RegExp(`^(${NAME})\\s+(.+?)(\\s+NOT\\s+NULL\\b.*)?$`));
+    if (!col) return [];
+    const sqlType = col[2].replace(/\s+FOR\s+\w+\s+DATA$/, '').replace(/\s*\(\s*/, '(').replace(/\s*,\s*/, ',').replace(/\s*\)/, ')');
+    return [{ name: col[1], sqlType, nullable: !col[3], source: 'DCLGEN' }];
+  });
+  return { name: m[1], columns, keyColumns: [] };
+};
+
+// Columns compared for equality in a WHERE clause that does not use OR or a cursor position.
+const equalityKey = (sql: string) => {
+  const where = sql.match(/\bWHERE\s+(.*)$/)?.[1];
+  if (!where || /\bOR\b|\bCURRENT\s+OF\b/.test(where)) return [];
+  return [...where.matchAll(PREDICATE)].filter(m => m[3] === '=').map(m => ({ qualifier: m[1], column: m[2] }));
+};
+
+const cursorName = (kind: SqlStatementKind, sql: string) => {
+  switch (kind) {
+    case 'DECLARE CURSOR': return sql.match(/^DECLARE\s+(\S+)/)?.[1];
+    case 'OPEN': case 'CLOSE': return sql.match(/^\w+\s+(\S+)/)?.[1];
+    case 'FETCH': return sql.match(/^FETCH\b.*?(\S+)\s+INTO\b/)?.[1];
+    default: return sql.match(/\bWHERE\s+CURRENT\s+OF\s+(\S+)/)?.[1];
+  }
+};
+
+const sqlCodeChecks = (cobolSource: string, statements: SqlStatement[]): SqlCodeCheck[] => {
+  const checks: SqlCodeCheck[] = [];
+  statements.filter(s => s.kind === 'WHENEVER').forEach(s => {
+    const m = s.sql.toUpperCase().match(/^WHENEVER\s+(SQLERROR|SQLWARNING|NOT\s+FOUND)\s+(.+)$/);
+    if (!m) return;
+    const condition = m[1].replace(/\s+/, ' ');
+    checks.push({ kind: 'WHENEVER', condition, codes: condition === 'NOT FOUND' ? [100] : [], action: m[2].replace(/^GO\s*TO\s+:?/, 'GO TO '), line: s.line });
+  });
+
+  const inSql = (line: number) => statements.some(s => line >= s.line && line <= s.endLine);
+  const codes = (text: string) => [...text.replace(/(["']).*?\1/g, '').matchAll(/(?<![\w-])[-+]?\d+(?![\w-])/g)].map(m => Number(m[0]));
+  // Everything after the condition is the action: IF SQLCODE = 100 SET WS-EOF TO TRUE.
+  const split = (text: string) => {
+    const at = text.search(/\s(?:THEN|MOVE|PERFORM|DISPLAY|GO|SET|ADD|SUBTRACT|COMPUTE|CONTINUE|EXIT|CALL|STOP|GOBACK|INITIALIZE)\b/);
+    return at < 0 ? { condition: text } : { condition: text.slice(0, at), action: text.slice(at).replace(/^\s*THEN\s*/, '').trim() || undefined };
+  };
+  const evaluating: boolean[] = [];
+  toCodeLines(cobolSource).forEach(line => {
+    const text = line.text.trim().toUpperCase().replace(/\s+/g, ' ').replace(/\.$/, '');
+    if (!text || inSql(line.number)) return;
+    if (/^EVALUATE\b/.test(text)) evaluating.push(/^EVALUATE SQL(CODE|STATE)\b/.test(text));
+    else if (evaluating[evaluating.length - 1] && /^WHEN\b/.test(text)) {
+      const { condition, action } = split(text);
+      checks.push({ kind: 'TEST', condition: `EVALUATE SQLCODE ${condition}`, codes: codes(condition), action, line: line.number });
+    } else if (/\bSQL(CODE|STATE)\b/.test(text) && !/^(MOVE|DISPLAY|STRING|INITIALIZE)\b/.test(text) &&
+      /^(IF|WHEN|AND|OR|PERFORM)\b|\bUNTIL\b|[<>=]|\b(EQUAL|LESS|GREATER)\b/.test(text)) {
+      const { condition, action } = split(text);
+      checks.push({ kind: 'TEST', condition, codes: codes(condition), action, line: line.number });
+    }
+    if (/\bEND-EVALUATE\b/.test(text)) evaluating.pop();
+  });
+  return checks.sort((a, b) => a.line - b.line);
+};
+
+export const buildSqlInventory = (cobolSource: string, layout: ParsedDataField[] = [], resolveCopy?: CopyResolver): SqlInventory | undefined => {
+  const statements: SqlStatement[] = findExecBlocks(cobolSource, 'SQL').map(block => {
+    const sql = block.body.toUpperCase();
+    const kind = statementKind(sql);
+    return {
+      kind,
+      sql: block.body,
+      tables: ['DECLARE TABLE', 'INCLUDE', 'FETCH'].includes(kind) ? [] : tableRefs(sql).tables,
+      cursor: cursorName(kind, sql),
+      hostVariables: [...new Set([...sql.matchAll(HOST_REF)].map(m => m[1]))],
+      line: block.line,
+      endLine: block.endLine
+    };
+  });
+  if (!statements.length) return undefined;
+
+  // DCLGEN members arrive through EXEC SQL INCLUDE or, in some shops, COPY.
+  const includes = statements.filter(s => s.kind === 'INCLUDE').map(s => s.sql.toUpperCase().split(/\s+/)[1]);
+  const copies = toCodeLines(cobolSource).flatMap(l => [...l.text.toUpperCase().matchAll(/(?<![\w-])COPY\s+["']?([A-Z0-9$#@_-]+)/g)].map(m => m[1]));
+  const declared = [
+    ...statements.filter(s => s.kind === 'DECLARE TABLE').map(s => s.sql.toUpperCase()),
+    ...[...new Set([...includes, ...copies])]
+      .filter(m => !PRECOMPILER_MEMBERS.has(m))
+      .flatMap(m => findExecBlocks(resolveCopy?.(m) || '', 'SQL').map(b => b.body.toUpperCase()))
+      .filter(sql => statementKind(sql) === 'DECLARE TABLE')
+  ];
+  const tables = new Map<string, SqlTable>();
+  declared.map(parseDeclareTable).forEach(t => { if (t) tables.set(t.name, t); });
+
+  const bindings: Binding[] = [];
+  const keys = new Map<string, string[][]>();
+  const cursors = new Map<string, { items: ReturnType<typeof columnItem>[]; aliases: Map<string, string>; tables: string[] }>();
+  const tableFor = (qualifier: string | undefined, refs: ReturnType<typeof tableRefs>) =>
+    qualifier ? refs.aliases.get(qualifier) : refs.tables.length === 1 ? refs.tables[0] : undefined;
+  const pair = (columns: ({ qualifier?: string; column: string } | undefined)[], list: string, refs: ReturnType<typeof tableRefs>) => {
+    const hosts = hostItems(list);
+    // SELECT * INTO :STRUCTURE and INSERT ... VALUES (:STRUCTURE) bind every item of the structure.
+    if (hosts.length === 1 && hosts[0] && columns.length <= 1) {
+      const field = findField(layout, hosts[0].host);
+      const items = field ? expandHost(layout, field) : [];
+      if (items.length > 1) {
+        const table = tableFor(undefined, refs);
+        const declaredColumns = table ? tables.get(table)?.columns : undefined;
+        items.forEach((item, i) => bindings.push({
+          table,
+          column: declaredColumns?.length === items.length ? declaredColumns[i].name : columnFromHost(item),
+          host: item.path
+        }));
+        return;
+      }
+    }
+    if (hosts.length !== columns.length) return;
+    columns.forEach((c, i) => {
+      const h = hosts[i];
+      if (c && h) bindings.push({ table: tableFor(c.qualifier, refs), column: c.column, host: h.host, indicator: h.indicator });
+    });
+  };
+
+  statements.forEach(statement => {
+    const sql = statement.sql.toUpperCase();
+    const refs = tableRefs(sql);
+    const select = sql.match(/^SELECT\s+(?:DISTINCT\s+)?(.+?)\s+INTO\s+(.+?)\s+FROM\s/);
+    const insert = sql.match(new RegExp(`^INSERT\\s+INTO\\s+${TABLE}\\s*(?:\\(([^)]*)\\))?\\s*VALUES\\s*\\((.*)\\)$`));
+    const cursor = sql.match(/^DECLARE\s+(\S+)\s+.*?\bCURSOR\b.*?\bFOR\s+SELECT\s+(?:DISTINCT\s+)?(.+?)\s+FROM\s/);
+    const fetch = sql.match(/^FETCH\b.*?(\S+)\s+INTO\s+(.+)$/);
+    if (select) {
+      pair(select[1] === '*' ? [] : splitTopLevel(select[1]).map(columnItem), select[2], refs);
+    } else if (insert) {
+      const names = insert[1] ? splitTopLevel(insert[1]).map(columnItem) : tables.get(refs.tables[0])?.columns.map(c => ({ column: c.name })) || [];
+      pair(names, insert[2], refs);
+    } else if (cursor) {
+      cursors.set(cursor[1], { items: cursor[2] === '*' ? [] : splitTopLevel(cursor[2]).map(columnItem), ...refs });
+    } else if (fetch && cursors.has(fetch[1])) {
+      const declaredCursor = cursors.get(fetch[1])!;
+      pair(declaredCursor.items, fetch[2], declaredCursor);
+    }
+    // Predicates and SET assignments bind a column to a host variable wherever they appear.
+    for (const m of sql.matchAll(PREDICATE)) {
+      const table = tableFor(m[1], refs);
+      if (table) bindings.push({ table, column: m[2], host: m[4] });
+    }
+    if (statement.kind === 'UPDATE' || statement.kind === 'DELETE' || select) {
+      const key = equalityKey(sql).map(k => ({ table: tableFor(k.qualifier, refs), column: k.column }));
+      statement.tables.forEach(t => {
+        const columns = key.filter(k => k.table === t).map(k => k.column);
+        if (columns.length) keys.set(t, [...(keys.get(t) || []), columns]);
+      });
+    }
+    statement.tables.forEach(t => { if (!tables.has(t)) tables.set(t, { name: t, columns: [], keyColumns: [] }); });
+  });
+
+  const hostVariables = new Map<string, SqlHostVariable>();
+  bindings.forEach(binding => {
+    const field = findField(layout, binding.host);
+    const sqlType = field && hostSqlType(layout, field);
+    const host = hostVariables.get(binding.host) || { name: binding.host, path: field?.path, picture: field?.picture, sqlType };
+    if (binding.indicator) host.indicator = binding.indicator;
+    hostVariables.set(binding.host, host);
+    const table = binding.table && tables.get(binding.table);
+    if (!table) return;
+    const column = table.columns.find(c => c.name === binding.column);
+    if (column) {
+      column.hostVariable = column.hostVariable || binding.host;
+      column.picture = column.picture || field?.picture;
+      if (binding.indicator && column.source === 'HOST_VARIABLE') column.nullable = true;
+    } else if (sqlType) {
+      table.columns.push({ name: binding.column, sqlType, nullable: !!binding.indicator, hostVariable: binding.host, picture: field?.picture, source: 'HOST_VARIABLE' });
+    }
+  });
+  // Host variables used only in statements we could not pair still belong in the inventory.
+  statements.flatMap(s => s.hostVariables).forEach(name => {
+    if (hostVariables.has(name)) return;
+    const field = findField(layout, name);
+    hostVariables.set(name, { name, path: field?.path, picture: field?.picture, sqlType: field && hostSqlType(layout, field) });
+  });
+  // The narrowest equality match is the likeliest key; wider ones add filter columns.
+  tables.forEach(table => {
+    const candidates = (keys.get(table.name) || []).map(k => [...new Set(k)]).filter(k => k.every(c => table.columns.some(col => col.name === c)));
+    table.keyColumns = candidates.sort((a, b) => a.length - b.length)[0] || [];
+  });
+
+  return {
+    statements,
+    includes: [...new Set(includes)],
+    hostVariables: [...hostVariables.values()],
+    tables: [...tables.values()],
+    sqlCodeChecks: sqlCodeChecks(cobolSource, statements)
+  };
+};
+
+// Names and numbers a migrated error path is expected to mention for each SQLCODE.
+const SQLCODE_HANDLERS: Record<number, RegExp> = {
+  100: /\b100\b|NoResultFound|not\s*found|no\s+rows?|EmptyResultDataAccess|is\s+None|=== undefined|== null/i,
+  [-803]: /\b803\b|IntegrityError|UniqueViolation|duplicate|DataIntegrityViolation|DuplicateKey/i,
+  [-811]: /\b811\b|MultipleResultsFound|IncorrectResultSize|more than one row/i,
+  [-911]: /\b911\b|deadlock|lock\s*timeout|OperationalError|CannotAcquireLock|PessimisticLocking/i,
+  [-913]: /\b913\b|deadlock|lock\s*timeout|OperationalError|CannotAcquireLock|PessimisticLocking/i
+};
+const ERROR_HANDLER = /\bexcept\b|\bcatch\b|SQLAlchemyError|SQLException|DataAccessException/;
+
+// Whether the migrated code appears to handle the same outcome: every non-zero code the check
+// tests, or any error handling at all for WHENEVER SQLERROR and `SQLCODE NOT = 0` checks.
+export const sqlCodeHandled = (check: SqlCodeCheck, targetSource: string) => {
+  const codes = check.codes.filter(c => c !== 0);
+  // `SQLCODE = 0` is the success path, which needs no handler of its own.
+  if (!codes.length && check.codes.length && !/\bNOT\b|[<>]/.test(check.condition)) return true;
+  if (!codes.length) return ERROR_HANDLER.test(targetSource);
+  return codes.every(c => (SQLCODE_HANDLERS[c] || new RegExp(`\\b${Math.abs(c)}\\b`)).test(targetSource));
+};
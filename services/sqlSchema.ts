@@ -0,0 +1,232 @@
+
+import { CodeChunk, SqlColumn, SqlTable } from "../types";
+import { javaClassName, pythonModuleName } from "./targets";
+
+export type SqlDialect = 'postgres' | 'spanner';
+
+export const SQL_DIALECTS: Record<SqlDialect, { label: string; fileName: string }> = {
+  postgres: { label: 'PostgreSQL', fileName: 'schema.postgres.sql' },
+  spanner: { label: 'Cloud Spanner', fileName: 'schema.spanner.sql' }
+};
+
+export const SQLALCHEMY_FILE = 'db_models.py';
+
+interface Db2Type {
+  base: string;
+  length?: number;
+  scale?: number;
+}
+
+const BASE_ALIASES: Record<string, string> = {
+  CHARACTER: 'CHAR',
+  'CHAR VARYING': 'VARCHAR',
+  'CHARACTER VARYING': 'VARCHAR',
+  'LONG VARCHAR': 'VARCHAR',
+  INT: 'INTEGER',
+  DEC: 'DECIMAL',
+  NUMERIC: 'DECIMAL',
+  'DOUBLE PRECISION': 'DOUBLE'
+};
+
+const parseType = (sqlType: string): Db2Type => {
+  const m = sqlType.toUpperCase().match(/^([A-Z ]+?)\s*(?:\((\d+)(?:\s*,\s*(\d+))?\))?(?:\s.*)?$/);
+  if (!m) return { base: sqlType.toUpperCase() };
+  const base = BASE_ALIASES[m[1]] || m[1];
+  const length = m[2] ? Number(m[2]) : undefined;
+  if (base === 'FLOAT') return { base: length !== undefined && length <= 21 ? 'REAL' : 'DOUBLE' };
+  if (base === 'DECIMAL') return { base, length: length ?? 5, scale: m[3] ? Number(m[3]) : 0 };
+  return { base, length };
+};
+
+// Tables from every chunk, merged by name. DCLGEN declarations win over types read off host
+// variables, and the narrowest inferred key wins.
+export const projectSqlTables = (chunks: CodeChunk[]): SqlTable[] => {
+  const tables = new Map<string, SqlTable>();
+  chunks.forEach(chunk => chunk.sqlInventory?.tables.forEach(table => {
+    const merged = tables.get(table.name) || { name: table.name, columns: [], keyColumns: [] };
+    table.columns.forEach(column => {
+      const idx = merged.columns.findIndex(c => c.name === column.name);
+      const existing = merged.columns[idx];
+      if (!existing) merged.columns.push({ ...column });
+      else if (existing.source === 'HOST_VARIABLE' && column.source === 'DCLGEN') merged.columns[idx] = { ...column, hostVariable: column.hostVariable || existing.hostVariable, picture: column.picture || existing.picture };
+      else if (existing.source === 'HOST_VARIABLE' && column.nullable) existing.nullable = true;
+    });
+    if (table.keyColumns.length && (!merged.keyColumns.length || table.keyColumns.length < merged.keyColumns.length)) merged.keyColumns = table.keyColumns;
+    tables.set(table.name, merged);
+  }));
+  return [...tables.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Without a key from the WHERE clauses, the first column stands in; both targets need one.
+const keyOf = (table: SqlTable) => table.keyColumns.length ? table.keyColumns : [table.columns[0].name];
+
+const hostComment = (column: SqlColumn) =>
+  column.hostVariable ? `:${column.hostVariable}${column.picture ? ` PIC ${column.picture}` : ''}` : undefined;
+
+const POSTGRES_RESERVED = new Set(['all', 'analyse', 'analyze', 'and', 'any', 'as', 'asc', 'both', 'case', 'check', 'column', 'constraint', 'default', 'desc', 'do', 'else', 'end', 'from', 'grant', 'group', 'in', 'limit', 'not', 'null', 'offset', 'on', 'or', 'order', 'primary', 'references', 'select', 'table', 'then', 'to', 'user', 'when', 'where', 'with']);
+
+const postgresName = (name: string) => {
+  const lower = name.toLowerCase();
+  return /^[a-z_][a-z0-9_$]*$/.test(lower) && !POSTGRES_RESERVED.has(lower) ? lower : `"${lower}"`;
+};
+
+const spannerName = (name: string) => {
+  const clean = name.replace(/[^A-Za-z0-9_]/g, '_');
+  return /^[A-Za-z_]/.test(clean) ? clean : `_${clean}`;
+};
+
+const postgresType = ({ base, length, scale }: Db2Type) => {
+  switch (base) {
+    case 'CHAR': case 'GRAPHIC': return `CHAR(${length ?? 1})`;
+    case 'VARCHAR': case 'VARGRAPHIC': return length ? `VARCHAR(${length})` : 'TEXT';
+    case 'SMALLINT': case 'INTEGER': case 'BIGINT': case 'REAL': case 'DATE': case 'TIME': case 'TIMESTAMP': return base;
+    case 'DECIMAL': return `NUMERIC(${length},${scale})`;
+    case 'DOUBLE': return 'DOUBLE PRECISION';
+    case 'BLOB': case 'ROWID': return 'BYTEA';
+    default: return 'TEXT';
+  }
+};
+
+const spannerType = ({ base, length, scale }: Db2Type): [string, string?] => {
+  switch (base) {
+    case 'CHAR': case 'GRAPHIC': case 'VARCHAR': case 'VARGRAPHIC': return [length ? `STRING(${length})` : 'STRING(MAX)'];
+    case 'SMALLINT': case 'INTEGER': case 'BIGINT': return ['INT64'];
+    case 'DECIMAL':
+      return scale! > 9 || length! - scale! > 29 ? ['NUMERIC', `DECIMAL(${length},${scale}) exceeds NUMERIC(38,9)`] : ['NUMERIC'];
+    case 'REAL': return ['FLOAT32'];
+    case 'DOUBLE': return ['FLOAT64'];
+    case 'DATE': case 'TIMESTAMP': return [base];
+    case 'TIME': return ['STRING(8)', 'DB2 TIME has no Spanner equivalent; stored as HH.MM.SS'];
+    case 'BLOB': case 'ROWID': return ['BYTES(MAX)'];
+    default: return ['STRING(MAX)'];
+  }
+};
+
+// Column lines with trailing comments, keeping the commas before the comments.
+const columnBlock = (rows: [string, string?][]) =>
+  rows.map(([definition, comment], i) => `    ${definition}${i < rows.length - 1 ? ',' : ''}${comment ? `  -- ${comment}` : ''}`).join('\n');
+
+const untyped = (table: SqlTable) =>
+  `-- ${table.name} is referenced but none of its columns could be typed; upload its DCLGEN member.\n`;
+
+export const buildSqlDdl = (tables: SqlTable[], dialect: SqlDialect, projectName: string) => {
+  const header = [
+    `-- ${SQL_DIALECTS[dialect].label} schema for ${projectName}, from the DB2 tables its COBOL programs use.`,
+    '-- Column types come from DCLGEN declarations or, where there is none, from the PIC of the bound host variable.',
+    '-- Primary keys are inferred from singleton WHERE clauses; review before use.',
+    ''
+  ];
+  const body = tables.map(table => {
+    if (!table.columns.length) return untyped(table);
+    const inferred = table.keyColumns.length ? '' : `-- No key could be inferred for ${table.name}; ${table.columns[0].name} stands in.\n`;
+    if (dialect === 'postgres') {
+      const rows: [string, string?][] = table.columns.map(c => [
+        `${postgresName(c.name)} ${postgresType(parseType(c.sqlType))}${c.nullable && !keyOf(table).includes(c.name) ? '' : ' NOT NULL'}`,
+        hostComment(c)
+      ]);
+      rows.push([`PRIMARY KEY (${keyOf(table).map(postgresName).join(', ')})`]);
+      return `${inferred}CREATE TABLE ${table.name.split('.').map(postgresName).join('.')} (\n${columnBlock(rows)}\n);\n`;
+    }
+    const rows: [string, string?][] = table.columns.map(c => {
+      const [type, note] = spannerType(parseType(c.sqlType));
+      return [`${spannerName(c.name)} ${type}${c.nullable && !keyOf(table).includes(c.name) ? '' : ' NOT NULL'}`, [hostComment(c), note].filter(Boolean).join('; ') || undefined];
+    });
+    // Spanner has no schemas in the DB2 sense; the qualifier is dropped.
+    const name = spannerName(table.name.split('.').pop()!);
+    return `${inferred}CREATE TABLE ${name} (\n${columnBlock(rows)}\n) PRIMARY KEY (${keyOf(table).map(spannerName).join(', ')});\n`;
+  });
+  const schemas = dialect === 'postgres'
+    ? [...new Set(tables.filter(t => t.columns.length && t.name.includes('.')).map(t => t.name.split('.')[0]))].map(s => `CREATE SCHEMA IF NOT EXISTS ${postgresName(s)};\n`)
+    : [];
+  return [...header, ...schemas, ...body].join('\n');
+};
+
+const PYTHON_RESERVED = new Set([
+  'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except',
+  'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise',
+  'return', 'try', 'while', 'with', 'yield', 'metadata', 'registry'
+]);
+
+// SQLAlchemy column type and the Python type it maps to.
+const sqlAlchemyType = ({ base, length, scale }: Db2Type): [string, string, string] => {
+  switch (base) {
+    case 'CHAR': case 'GRAPHIC': return ['CHAR', `CHAR(${length ?? 1})`, 'str'];
+    case 'VARCHAR': case 'VARGRAPHIC': return ['String', length ? `String(${length})` : 'String', 'str'];
+    case 'SMALLINT': return ['SmallInteger', 'SmallInteger', 'int'];
+    case 'INTEGER': return ['Integer', 'Integer', 'int'];
+    case 'BIGINT': return ['BigInteger', 'BigInteger', 'int'];
+    case 'DECIMAL': return ['Numeric', `Numeric(${length}, ${scale})`, 'Decimal'];
+    case 'REAL': return ['Float', 'Float', 'float'];
+    case 'DOUBLE': return ['Double', 'Double', 'float'];
+    case 'DATE': return ['Date', 'Date', 'datetime.date'];
+    case 'TIME': return ['Time', 'Time', 'datetime.time'];
+    case 'TIMESTAMP': return ['DateTime', 'DateTime', 'datetime.datetime'];
+    case 'BLOB': case 'ROWID': return ['LargeBinary', 'LargeBinary', 'bytes'];
+    default: return ['Text', 'Text', 'str'];
+  }
+};
+
+export const buildSqlAlchemyModels = (tables: SqlTable[], projectName: string) => {
+  const imports = new Set<string>();
+  let decimal = false;
+  let datetime = false;
+  let optional = false;
+  const classes = new Set(['Base']);
+  const bodies = tables.map(table => {
+    if (!table.columns.length) return `# ${table.name} is referenced but none of its columns could be typed; upload its DCLGEN member.\n`;
+    const [schema, bare] = table.name.includes('.') ? table.name.split('.') : [undefined, table.name];
+    let className = javaClassName(bare);
+    if (/^\d/.test(className)) className = `Table${className}`;
+    while (classes.has(className)) className = `${className}${javaClassName(schema || 'table')}`;
+    classes.add(className);
+    const key = keyOf(table);
+    const lines = [
+      `class ${className}(Base):`,
+      `    __tablename__ = ${JSON.stringify(bare.toLowerCase())}`,
+      ...(schema ? [`    __table_args__ = {"schema": ${JSON.stringify(schema.toLowerCase())}}`] : []),
+      ...(table.keyColumns.length ? [] : [`    # No key could be inferred from the WHERE clauses; ${table.columns[0].name} stands in.`]),
+      ''
+    ];
+    table.columns.forEach(column => {
+      const [name, expression, pyType] = sqlAlchemyType(parseType(column.sqlType));
+      imports.add(name);
+      decimal = decimal || pyType === 'Decimal';
+      datetime = datetime || pyType.startsWith('datetime.');
+      const primary = key.includes(column.name);
+      const nullable = column.nullable && !primary;
+      optional = optional || nullable;
+      let attribute = pythonModuleName(column.name);
+      if (PYTHON_RESERVED.has(attribute)) attribute = `${attribute}_`;
+      const args = [
+        ...(attribute !== column.name.toLowerCase() ? [JSON.stringify(column.name.toLowerCase())] : []),
+        expression,
+        ...(primary ? ['primary_key=True'] : [])
+      ];
+      const comment = hostComment(column);
+      lines.push(`    ${attribute}: Mapped[${nullable ? `Optional[${pyType}]` : pyType}] = mapped_column(${args.join(', ')})${comment ? `  # ${comment}` : ''}`);
+    });
+    return lines.join('\n') + '\n';
+  });
+
+  return [
+    `"""SQLAlchemy models for the DB2 tables used by ${projectName}.`,
+    '',
+    'Column types come from DCLGEN declarations or, where there is none, from the PIC',
+    'of the host variable each column is bound to. Primary keys are inferred from',
+    'singleton WHERE clauses; review them before use.',
+    '"""',
+    ...(datetime ? ['import datetime'] : []),
+    ...(decimal ? ['from decimal import Decimal'] : []),
+    ...(optional ? ['from typing import Optional'] : []),
+    '',
+    ...(imports.size ? [`from sqlalchemy import ${[...imports].sort().join(', ')}`] : []),
+    'from sqlalchemy.orm import DeclarativeBase, Mapped, mapped_column',
+    '',
+    '',
+    'class Base(DeclarativeBase):',
+    '    pass',
+    '',
+    '',
+    bodies.join('\n\n')
+  ].join('\n');
+};
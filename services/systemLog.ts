@@ -0,0 +1,42 @@
+
+import { CodeChunk, LogEntry, LogType, PipelineStage } from "../types";
+
+export const MAX_LOG_ENTRIES = 2000;
+
+export const LOG_LEVELS: LogType[] = ['error', 'success', 'thinking', 'info'];
+
+export interface LogFilter {
+  chunkId: string | 'ALL';
+  level: LogType | 'ALL';
+  stage: PipelineStage | 'ALL';
+  query: string;
+}
+
+export const EMPTY_LOG_FILTER: LogFilter = { chunkId: 'ALL', level: 'ALL', stage: 'ALL', query: '' };
+
+// Stack when there is one, so a fault can be traced without reproducing the run.
+export const errorDetails = (error: unknown) =>
+  error instanceof Error ? error.stack || error.message : String(error);
+
+export const matchesLogFilter = (entry: LogEntry, filter: LogFilter, chunkName?: string) => {
+  if (filter.chunkId !== 'ALL' && entry.chunkId !== filter.chunkId) return false;
+  if (filter.level !== 'ALL' && entry.type !== filter.level) return false;
+  if (filter.stage !== 'ALL' && entry.stage !== filter.stage) return false;
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const text = [entry.msg, entry.error, entry.stage, chunkName].join(' ').toLowerCase();
+  return terms.every(term => text.includes(term));
+};
+
+// One JSON object per line; chunk names are added so the file reads on its own.
+export const logsToJsonl = (logs: LogEntry[], chunks: CodeChunk[]) => {
+  const names = new Map<string, string>(chunks.map(c => [c.id, c.name]));
+  return logs.map(({ msg, type, timestamp, stage, chunkId, error }) => JSON.stringify({
+    timestamp,
+    level: type,
+    stage,
+    chunkId,
+    chunkName: chunkId ? names.get(chunkId) : undefined,
+    message: msg,
+    error
+  })).join('\n') + (logs.length ? '\n' : '');
+};
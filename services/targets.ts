@@ -0,0 +1,121 @@
+
+import { CodeChunk, ParsedDataField, TargetLanguage } from "../types";
+
+export interface TargetProfile {
+  label: string;
+  stack: string;
+  testFramework: string;
+  fence: string;
+  extension: string;
+  // JSON fields the model answers with. They name the language so a response recorded for
+  // one target can never be read as another's.
+  sourceField: string;
+  mappingField: string;
+  symbolField: string;
+  symbolKind: string;
+  conventions?: string;
+  testConventions?: string;
+}
+
+export const TARGETS: Record<TargetLanguage, TargetProfile> = {
+  python: {
+    label: 'Python',
+    stack: 'Python 3',
+    testFramework: 'Pytest',
+    fence: 'python',
+    extension: 'py',
+    sourceField: 'pythonSource',
+    mappingField: 'pythonMapping',
+    symbolField: 'pythonSymbol',
+    symbolKind: 'Python function or method (Class.method)'
+  },
+  java: {
+    label: 'Java',
+    stack: 'Java 17 / Spring Boot 3',
+    testFramework: 'JUnit 5',
+    fence: 'java',
+    extension: 'java',
+    sourceField: 'javaSource',
+    mappingField: 'javaMapping',
+    symbolField: 'javaSymbol',
+    symbolKind: 'Java class or method (Class.method)',
+    conventions: 'Java 17 and Spring Boot 3: one public class per module with @Service for business logic, records for copybook layouts, BigDecimal for every decimal PIC and COMP-3 field. Do not declare a package; the exporter assigns one.',
+    testConventions: 'JUnit 5 (org.junit.jupiter.api) with Mockito for the data layer. Do not declare a package; the test sits in the same package as the class under test.'
+  },
+  typescript: {
+    label: 'TypeScript',
+    stack: 'TypeScript on Node.js 20',
+    testFramework: 'Vitest',
+    fence: 'typescript',
+    extension: 'ts',
+    sourceField: 'typescriptSource',
+    mappingField: 'typescriptMapping',
+    symbolField: 'typescriptSymbol',
+    symbolKind: 'TypeScript function, class or method (Class.method)',
+    conventions: 'Strict TypeScript ES modules with named exports, interfaces for copybook layouts and Decimal from decimal.js for every decimal PIC and COMP-3 field; never use number for money.',
+    testConventions: 'Vitest (import { describe, it, expect, vi } from "vitest") with vi.mock for the data layer. The test file sits next to the module.'
+  }
+};
+
+export const TARGET_LANGUAGES = Object.keys(TARGETS) as TargetLanguage[];
+
+// Chunks transformed before the target became a setting are Python.
+export const chunkLanguage = (chunk: CodeChunk): TargetLanguage => chunk.targetLanguage || 'python';
+
+// Same normalisation as the parity runner so imports in generated suites keep resolving.
+export const pythonModuleName = (name: string) => {
+  let stem = (name || 'module').replace(/\.[^/.]+$/, '').replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_+|_+$/g, '').toLowerCase();
+  if (!stem || /^\d/.test(stem)) stem = `module_${stem}`;
+  return stem;
+};
+
+export const javaClassName = (name: string) =>
+  pythonModuleName(name).split('_').filter(Boolean).map(w => w[0].toUpperCase() + w.slice(1)).join('');
+
+export const typescriptModuleName = (name: string) => pythonModuleName(name).replace(/_/g, '-');
+
+// The name the generated code is imported by: a Python module, a Java class or a TS module path.
+export const moduleName = (chunk: CodeChunk, language = chunkLanguage(chunk)) => {
+  switch (language) {
+    case 'java': return javaClassName(chunk.name);
+    case 'typescript': return typescriptModuleName(chunk.name);
+    default: return pythonModuleName(chunk.name);
+  }
+};
+
+export const sourceFileName = (chunk: CodeChunk, language = chunkLanguage(chunk)) =>
+  `${moduleName(chunk, language)}.${TARGETS[language].extension}`;
+
+export const testFileName = (chunk: CodeChunk, language = chunkLanguage(chunk)) => {
+  switch (language) {
+    case 'java': return `${javaClassName(chunk.name)}Test.java`;
+    case 'typescript': return `${typescriptModuleName(chunk.name)}.test.ts`;
+    default: return `test_${pythonModuleName(chunk.name)}.py`;
+  }
+};
+
+const JAVA_BOXED: Record<string, string> = { int: 'Integer', long: 'Long', boolean: 'Boolean', float: 'Float', double: 'Double' };
+
+const elementType = (field: ParsedDataField, language: Exclude<TargetLanguage, 'python'>) => {
+  const base = field.pythonType.replace(/^list\[(.*)\]$/, '$1');
+  const isGroup = !/^(int|str|bool|float|Decimal)$/.test(base);
+  if (isGroup) return base;
+  if (field.level === 88) return 'boolean';
+  if (field.usage === 'COMP-1') return language === 'java' ? 'float' : 'number';
+  if (field.usage === 'COMP-2') return language === 'java' ? 'double' : 'number';
+  if (base === 'Decimal') return language === 'java' ? 'BigDecimal' : 'Decimal';
+  if (base === 'int') {
+    const digits = field.digits ?? 9;
+    if (language === 'typescript') return digits > 15 ? 'bigint' : 'number';
+    return digits <= 9 ? 'int' : digits <= 18 ? 'long' : 'BigInteger';
+  }
+  return language === 'java' ? 'String' : 'string';
+};
+
+// The parsed layout's suggested type, spelled for the chosen target.
+export const targetType = (field: ParsedDataField, language: TargetLanguage) => {
+  if (language === 'python') return field.pythonType;
+  const element = elementType(field, language);
+  if (!field.occurs) return element;
+  return language === 'java' ? `List<${JAVA_BOXED[element] || element}>` : `${element}[]`;
+};
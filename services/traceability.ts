@@ -0,0 +1,112 @@
+
+import { TargetLanguage, TraceLink } from "../types";
+import { findParagraphs, procedureLines } from "./complexityAnalyzer";
+
+export type RawTraceLink = Pick<TraceLink, 'cobolParagraph' | 'targetSymbol' | 'note'>;
+
+interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+// Finds `def`/`class` blocks by indentation. Dotted names (Class.method) are matched
+// within the enclosing class; decorators are included in the range.
+export const findPythonSymbol = (source: string, symbol: string): LineRange | undefined => {
+  const lines = source.split('\n');
+  let from = 0;
+  let to = lines.length;
+  let range: LineRange | undefined;
+
+  for (const part of symbol.replace(/\(\)$/, '').split('.').filter(Boolean)) {
+    const pattern = new RegExp(`^\\s*(?:async\\s+)?(?:def|class)\\s+${part.replace(/[^\w]/g, '')}\\b`);
+    const start = lines.findIndex((line, i) => i >= from && i < to && pattern.test(line));
+    if (start === -1) return undefined;
+    const indent = indentOf(lines[start]);
+    let end = start;
+    for (let i = start + 1; i < to; i++) {
+      if (!lines[i].trim()) continue;
+      if (indentOf(lines[i]) <= indent) break;
+      end = i;
+    }
+    let first = start;
+    while (first > from && /^\s*@/.test(lines[first - 1]) && indentOf(lines[first - 1]) === indent) first--;
+    range = { startLine: first + 1, endLine: end + 1 };
+    from = start + 1;
+    to = end + 1;
+  }
+  return range;
+};
+
+const MODIFIERS = 'export|default|public|private|protected|static|final|abstract|synchronized|async|readonly|override';
+
+// Braces inside strings and line comments must not count towards the block.
+const codeOf = (line: string) =>
+  line.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|`(?:[^`\\]|\\.)*`/g, '""').replace(/\/\/.*$/, '');
+
+// The line a declaration ends on, or undefined when a `;` closes it before any body opens.
+export const blockEnd = (lines: string[], start: number, to: number) => {
+  let depth = 0;
+  for (let i = start; i < to; i++) {
+    for (const ch of codeOf(lines[i])) {
+      if (ch === ';' && depth === 0) return undefined;
+      if (ch === '{') depth++;
+      if (ch === '}' && --depth === 0) return i;
+    }
+  }
+  return depth > 0 ? to - 1 : undefined;
+};
+
+// Finds Java and TypeScript declarations (classes, interfaces, functions, methods and
+// const-bound functions) by brace matching. Dotted names are matched within the enclosing
+// type; annotations and decorators are included in the range.
+export const findBracedSymbol = (source: string, symbol: string): LineRange | undefined => {
+  const lines = source.split('\n');
+  let from = 0;
+  let to = lines.length;
+  let range: LineRange | undefined;
+
+  for (const part of symbol.replace(/\(\)$/, '').split('.').filter(Boolean)) {
+    const name = part.replace(/[^\w$]/g, '');
+    const declaration = new RegExp(`^\\s*(?:(?:${MODIFIERS})\\s+)*(?:class|interface|enum|record|function\\*?|const|let)\\s+${name}\\b`);
+    const method = new RegExp(`^\\s*(?!(?:return|new|throw|else|await)\\b)(?:[\\w<>\\[\\],.?]+\\s+)*${name}\\s*(?:<[^>]*>)?\\s*\\(`);
+    let start = -1;
+    let end: number | undefined;
+    for (let i = from; i < to && end === undefined; i++) {
+      const code = codeOf(lines[i]);
+      // A method match that closes with `;` is a call or an abstract signature, not a body.
+      if (declaration.test(code)) end = blockEnd(lines, i, to) ?? i;
+      else if (method.test(code)) end = blockEnd(lines, i, to);
+      else continue;
+      start = i;
+    }
+    if (end === undefined) return undefined;
+    let first = start;
+    while (first > from && /^\s*@/.test(lines[first - 1])) first--;
+    range = { startLine: first + 1, endLine: end + 1 };
+    from = start + 1;
+    to = end + 1;
+  }
+  return range;
+};
+
+export const findTargetSymbol = (source: string, symbol: string, language: TargetLanguage) =>
+  language === 'python' ? findPythonSymbol(source, symbol) : findBracedSymbol(source, symbol);
+
+export const resolveTraceability = (cobolSource: string, targetSource: string, links: RawTraceLink[] = [], language: TargetLanguage = 'python'): TraceLink[] => {
+  const paragraphs = new Map(findParagraphs(procedureLines(cobolSource)).map(p => [p.name, p]));
+  return links
+    .filter(link => link.cobolParagraph && link.targetSymbol)
+    .map(link => {
+      const paragraph = paragraphs.get(link.cobolParagraph.trim().toUpperCase().replace(/\.$/, '').replace(/\s+SECTION$/, ''));
+      const target = findTargetSymbol(targetSource, link.targetSymbol.trim(), language);
+      return {
+        ...link,
+        cobolStartLine: paragraph?.line,
+        cobolEndLine: paragraph?.endLine,
+        targetStartLine: target?.startLine,
+        targetEndLine: target?.endLine
+      };
+    });
+};
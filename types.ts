@@ -3,21 +3,152 @@ export enum MigrationStatus {
   IDLE = 'IDLE',
   ANALYZING = 'ANALYZING',
   PROCESSING = 'PROCESSING',
+  PAUSED = 'PAUSED',
   COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
   FAILED = 'FAILED'
 }
 
+export type TargetLanguage = 'python' | 'java' | 'typescript';
+
 export interface CopybookField {
   originalField: string;
-  pythonMapping: string;
+  targetMapping: string;
   dataType: string;
   description: string;
 }
 
+export type FieldUsage = 'DISPLAY' | 'COMP' | 'BINARY' | 'COMP-1' | 'COMP-2' | 'COMP-3' | 'COMP-5' | 'INDEX' | 'POINTER';
+
+export type DataSection = 'FILE' | 'WORKING-STORAGE' | 'LOCAL-STORAGE' | 'LINKAGE';
+
+export interface ParsedDataField {
+  level: number;
+  name: string;
+  path: string;
+  section?: DataSection;
+  copyMember?: string;
+  picture?: string;
+  usage: FieldUsage;
+  offset: number;
+  length: number;
+  signed: boolean;
+  digits?: number;
+  scale?: number;
+  occurs?: { min: number; max: number; dependingOn?: string };
+  redefines?: string;
+  renames?: string;
+  value?: string;
+  pythonName: string;
+  pythonType: string;
+  line: number;
+}
+
+export interface LayoutComparison {
+  parsed?: ParsedDataField;
+  model?: CopybookField;
+  differences: string[];
+}
+
+export type CloudProvider = 'gcp' | 'aws' | 'azure' | 'onprem-k8s';
+
+export type LegacyWorkload = 'VSAM' | 'SEQUENTIAL' | 'CICS' | 'BATCH';
+
 export interface CloudMapping {
   legacyComponent: string;
-  gcpService: string;
+  provider: CloudProvider;
+  service: string;
   rationale: string;
+  // Set when the service was taken from the curated catalog rather than proposed by the model.
+  workload?: LegacyWorkload;
+}
+
+export type CicsCommandCategory = 'PROGRAM' | 'TRANSACTION' | 'FILE' | 'TERMINAL' | 'QUEUE' | 'CONTROL';
+
+export interface CicsCommand {
+  // Verb plus the option that names the resource kind, e.g. 'LINK', 'SEND MAP', 'WRITEQ TS'.
+  command: string;
+  category: CicsCommandCategory;
+  // Program, transaction, file, map or queue the command acts on.
+  target?: string;
+  // The target is held in a data item rather than written as a literal.
+  dynamicTarget?: boolean;
+  options: Record<string, string>;
+  line: number;
+  endLine: number;
+}
+
+// The 01 records a transaction receives and returns. Both are paths into the chunk's dataLayout.
+export interface CicsContract {
+  request: string;
+  response: string;
+}
+
+export interface CicsInventory {
+  commands: CicsCommand[];
+  transactionIds: string[];
+  contract?: CicsContract;
+}
+
+export type SqlStatementKind =
+  | 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'MERGE'
+  | 'DECLARE CURSOR' | 'DECLARE TABLE' | 'OPEN' | 'FETCH' | 'CLOSE'
+  | 'INCLUDE' | 'WHENEVER' | 'COMMIT' | 'ROLLBACK' | 'CALL' | 'OTHER';
+
+export interface SqlStatement {
+  kind: SqlStatementKind;
+  sql: string;
+  tables: string[];
+  cursor?: string;
+  // Host variables without the leading colon; indicator variables are not listed.
+  hostVariables: string[];
+  line: number;
+  endLine: number;
+}
+
+export interface SqlHostVariable {
+  name: string;
+  // Path into the chunk's dataLayout, when the variable is declared there.
+  path?: string;
+  picture?: string;
+  sqlType?: string;
+  indicator?: string;
+}
+
+export interface SqlColumn {
+  name: string;
+  // DB2 type, e.g. CHAR(10) or DECIMAL(9,2).
+  sqlType: string;
+  nullable: boolean;
+  hostVariable?: string;
+  picture?: string;
+  // DCLGEN when declared by DECLARE TABLE; HOST_VARIABLE when taken from the PIC of the variable it is bound to.
+  source: 'DCLGEN' | 'HOST_VARIABLE';
+}
+
+export interface SqlTable {
+  // As written in the SQL, including any schema qualifier.
+  name: string;
+  columns: SqlColumn[];
+  // Columns matched by equality in singleton SELECTs, UPDATEs and DELETEs: a guess at the key.
+  keyColumns: string[];
+}
+
+export interface SqlCodeCheck {
+  kind: 'WHENEVER' | 'TEST';
+  // 'SQLERROR', 'NOT FOUND' or the COBOL condition, e.g. 'IF SQLCODE = 100'.
+  condition: string;
+  codes: number[];
+  action?: string;
+  line: number;
+}
+
+export interface SqlInventory {
+  statements: SqlStatement[];
+  includes: string[];
+  hostVariables: SqlHostVariable[];
+  tables: SqlTable[];
+  sqlCodeChecks: SqlCodeCheck[];
 }
 
 export interface GroundingSource {
@@ -25,28 +156,373 @@ export interface GroundingSource {
   uri: string;
 }
 
+export type TestOrigin = 'EXECUTED' | 'SIMULATED';
+
 export interface TestResult {
   name: string;
-  status: 'PASSED' | 'FAILED';
+  status: 'PASSED' | 'FAILED' | 'SKIPPED';
   message?: string;
   duration: string;
+  origin?: TestOrigin;
+  stdout?: string;
+  traceback?: string;
+}
+
+export type CodePage = 'CP037' | 'CP1140' | 'CP500';
+
+export type RecordFormat = 'FIXED' | 'VARIABLE';
+
+export interface GoldenFile {
+  name: string;
+  size: number;
+  // Base64, so the captured bytes survive IndexedDB and bundle round-trips untouched.
+  content: string;
+}
+
+export type GoldenOutputFormat = 'EBCDIC' | 'JSONL';
+
+export interface GoldenDataset {
+  id: string;
+  name: string;
+  inputs: GoldenFile[];
+  expected: GoldenFile;
+  recordPath: string;
+  codePage: CodePage;
+  recordFormat: RecordFormat;
+  outputFormat: GoldenOutputFormat;
+  driver: string;
+  createdAt: string;
+}
+
+export interface FieldMismatch {
+  field: string;
+  expected: string;
+  actual: string;
+}
+
+export interface RecordMismatch {
+  record: number;
+  kind: 'FIELD' | 'MISSING' | 'EXTRA';
+  fields: FieldMismatch[];
+}
+
+export interface GoldenParityReport {
+  datasetId: string;
+  datasetName: string;
+  ranAt: string;
+  status: 'MATCH' | 'MISMATCH' | 'ERROR';
+  expectedRecords: number;
+  actualRecords: number;
+  matchedRecords: number;
+  fieldsCompared: number;
+  mismatches: RecordMismatch[];
+  truncated: boolean;
+  error?: string;
+  stdout?: string;
+}
+
+export type ArtifactType = 'PROGRAM' | 'COPYBOOK';
+
+export interface SourceRange {
+  startLine: number;
+  endLine: number;
+}
+
+export interface UnclassifiedSource extends SourceRange {
+  name: string;
+  reason: string;
 }
 
 export interface CodeChunk {
   id: string;
   name: string;
   cobolSource: string;
-  pythonSource?: string;
+  sourceFile?: string;
+  artifactType?: ArtifactType;
+  sourceRange?: SourceRange;
+  nestedPrograms?: string[];
+  targetSource?: string;
+  targetLanguage?: TargetLanguage;
   unitTest?: string;
   testResults?: TestResult[];
-  businessRules?: string;
+  goldenDatasets?: GoldenDataset[];
+  goldenResults?: GoldenParityReport[];
+  businessRules?: BusinessRule[];
   copybookStructure?: CopybookField[];
+  dataLayout?: ParsedDataField[];
+  layoutWarnings?: string[];
   cloudTargetArchitecture?: CloudMapping[];
   groundingSources?: GroundingSource[];
   coverage?: number;
-  status: 'PENDING' | 'DONE' | 'ERROR';
+  research?: string;
+  stages?: Partial<Record<ChunkStage, StageStatus>>;
+  failedStage?: ChunkStage;
+  error?: string;
+  status: ChunkStatus;
   analysis?: string;
   complexity: number;
+  metrics?: ComplexityMetrics;
+  riskScore?: number;
+  riskLevel?: RiskLevel;
+  deadCode?: DeadCodeReport;
+  cicsInventory?: CicsInventory;
+  sqlInventory?: SqlInventory;
+  traceability?: TraceLink[];
+}
+
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export interface ComplexityMetrics {
+  procedureLines: number;
+  paragraphs: number;
+  sections: number;
+  ifStatements: number;
+  whenBranches: number;
+  performUntil: number;
+  cyclomatic: number;
+  goTo: number;
+  alter: number;
+  fileIo: number;
+  execCics: number;
+  execSql: number;
+}
+
+// Links a COBOL paragraph to the target-language symbol that implements it. Names come from
+// the model; line ranges are resolved statically and are absent when a name cannot be found.
+export interface TraceLink {
+  cobolParagraph: string;
+  targetSymbol: string;
+  note?: string;
+  cobolStartLine?: number;
+  cobolEndLine?: number;
+  targetStartLine?: number;
+  targetEndLine?: number;
+}
+
+export type BusinessRuleCategory = 'CALCULATION' | 'VALIDATION' | 'ROUTING';
+
+// A rule the module enforces, with where it lives on both sides. IDs survive re-running the
+// transform; line ranges are resolved statically like TraceLink's.
+export interface BusinessRule {
+  id: string;
+  category: BusinessRuleCategory;
+  description: string;
+  cobolParagraph?: string;
+  cobolStartLine?: number;
+  cobolEndLine?: number;
+  targetSymbol?: string;
+  targetStartLine?: number;
+  targetEndLine?: number;
+}
+
+export interface UnreachableParagraph {
+  name: string;
+  section: boolean;
+  startLine: number;
+  endLine: number;
+}
+
+export interface UnusedField {
+  name: string;
+  path: string;
+  level: number;
+  startLine: number;
+  endLine: number;
+}
+
+export interface DeadCodeReport {
+  unreachableParagraphs: UnreachableParagraph[];
+  unusedFields: UnusedField[];
+  deadLines: number;
+}
+
+export type DependencyKind = 'CALL' | 'DYNAMIC_CALL' | 'CICS' | 'COPY';
+
+export interface DependencyEdge {
+  from: string;
+  target: string;
+  targetChunkId?: string;
+  kind: DependencyKind;
+  via?: string;
+  line: number;
+  resolved: boolean;
+  system?: boolean;
+}
+
+export interface DependencyNode {
+  chunkId: string;
+  name: string;
+  programId?: string;
+  artifactType?: ArtifactType;
+  linkageParameters: string[];
+  usesCommarea: boolean;
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  migrationWaves: string[][];
+  cycles: string[][];
+}
+
+export type PipelineStage = 'analysis' | 'research' | 'transform' | 'tests' | 'validation';
+
+export type ChunkStage = Exclude<PipelineStage, 'analysis'>;
+
+export type ChunkStatus = 'PENDING' | 'DONE' | 'ERROR' | 'SKIPPED';
+
+// STALE marks output produced before an upstream stage was regenerated.
+export type StageState = 'PENDING' | 'RUNNING' | 'DONE' | 'ERROR' | 'SKIPPED' | 'STALE';
+
+export interface StageStatus {
+  state: StageState;
+  error?: string;
+  updatedAt: string;
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface StageModelConfig {
+  provider: ProviderId;
+  model: string;
+}
+
+export interface SchedulerSettings {
+  workers: number;
+  requestsPerMinute: number;
+  providerConcurrency: Record<ProviderId, number>;
+}
+
+export interface ProviderSettings {
+  stages: Record<PipelineStage, StageModelConfig>;
+  openAIBaseUrl: string;
+  openAIApiKey?: string;
+  scheduler: SchedulerSettings;
+  excludeDeadCode: boolean;
+  targetLanguage: TargetLanguage;
+  targetCloud: CloudProvider;
+}
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface CassetteEntry {
+  key: string;
+  stage: PipelineStage;
+  promptHash: string;
+  provider: ProviderId;
+  model: string;
+  subject?: string;
+  prompt: string;
+  response: { text: string; sources?: GroundingSource[] };
+  recordedAt: string;
+}
+
+export interface Cassette {
+  version: number;
+  createdAt: string;
+  entries: CassetteEntry[];
+}
+
+// One model call. `hash` covers every other field and the previous entry's hash, so
+// editing, removing or reordering an entry breaks the chain from that point on.
+export interface AuditEntry {
+  projectId: string;
+  sequence: number;
+  stage: PipelineStage;
+  subject?: string;
+  provider: ProviderId;
+  model: string;
+  temperature?: number;
+  thinkingBudget?: number;
+  useSearch?: boolean;
+  prompt: string;
+  response?: { text: string; sources?: GroundingSource[] };
+  error?: string;
+  replayed: boolean;
+  actor: string;
+  startedAt: string;
+  finishedAt: string;
+  previousHash: string;
+  hash: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  headHash: string;
+  brokenAt?: number;
+  reason?: string;
+}
+
+export type JclRelOp = 'EQ' | 'NE' | 'GT' | 'GE' | 'LT' | 'LE';
+
+// When a step runs, from its COND parameter and enclosing IF/THEN/ELSE blocks.
+// An rc test without a step compares the highest return code so far, or with
+// `anyStep` every earlier step's return code (the COND form).
+export type JclCondition =
+  | { kind: 'always' }
+  | { kind: 'rc'; step?: string; anyStep?: boolean; op: JclRelOp; value: number }
+  | { kind: 'abend'; step?: string }
+  | { kind: 'run'; step: string }
+  | { kind: 'not'; expr: JclCondition }
+  | { kind: 'and' | 'or'; left: JclCondition; right: JclCondition };
+
+export interface JclDd {
+  name: string;
+  dsn?: string;
+  disposition?: string;
+  sysout?: string;
+  dummy?: boolean;
+  // In-stream data (DD * / DD DATA), truncated for very long decks.
+  inline?: string;
+  line: number;
+}
+
+export interface JclStep {
+  // Unique within the job: the step name, or STEP.PROCSTEP for steps expanded from a PROC.
+  id: string;
+  name: string;
+  program?: string;
+  proc?: string;
+  parm?: string;
+  // The JCL that decides whether the step runs, as written (COND=..., IF ... THEN).
+  condition?: string;
+  runWhen: JclCondition;
+  dds: JclDd[];
+  line: number;
+  chunkId?: string;
+}
+
+export type JclDatasetAccess = 'READ' | 'WRITE' | 'CREATE' | 'DELETE';
+
+export interface JclDatasetUse {
+  stepId: string;
+  ddName: string;
+  access: JclDatasetAccess;
+  generation?: string;
+}
+
+export interface JclDataset {
+  name: string;
+  temporary: boolean;
+  uses: JclDatasetUse[];
+}
+
+export interface JclStepEdge {
+  from: string;
+  to: string;
+  kind: 'SEQUENCE' | 'DATASET';
+  dataset?: string;
+}
+
+export interface JclJob {
+  name: string;
+  sourceFile?: string;
+  sourceRange?: SourceRange;
+  steps: JclStep[];
+  edges: JclStepEdge[];
+  datasets: JclDataset[];
+  warnings: string[];
 }
 
 export interface MigrationState {
@@ -57,4 +533,53 @@ export interface MigrationState {
   status: MigrationStatus;
   overallPlan?: string;
   globalGroundingSources?: GroundingSource[];
+  unclassifiedSources?: UnclassifiedSource[];
+  dependencyGraph?: DependencyGraph;
+  jclJobs?: JclJob[];
+}
+
+export type LogType = 'info' | 'success' | 'error' | 'thinking';
+
+// Entries saved before the stream was structured carry only msg and type.
+export interface LogEntry {
+  msg: string;
+  type: LogType;
+  timestamp?: string;
+  stage?: PipelineStage;
+  chunkId?: string;
+  error?: string;
+}
+
+export type LogContext = Pick<LogEntry, 'stage' | 'chunkId' | 'error'>;
+
+export interface MigrationProject {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  migrationState: MigrationState;
+  inputCode: string;
+  logs: LogEntry[];
+  settings: ProviderSettings;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+  status: MigrationStatus;
+  chunkCount: number;
+}
+
+export interface ProjectBundle {
+  format: 'logic-lift-project';
+  version: number;
+  exportedAt: string;
+  project: { id: string; name: string; createdAt: string; updatedAt: string };
+  sources: { name: string; content: string }[];
+  inputCode: string;
+  migrationState: MigrationState;
+  logs: LogEntry[];
+  settings: ProviderSettings;
+  checksum: string;
 }